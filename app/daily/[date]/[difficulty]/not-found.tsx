@@ -0,0 +1,25 @@
+"use client";
+
+import Link from "next/link";
+import { buttonVariants } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+export default function NotFound() {
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center p-4 text-center">
+      <div className="max-w-md space-y-6">
+        <h1 className="text-4xl font-bold text-foreground">No Daily Puzzle</h1>
+        <p className="text-muted-foreground">
+          There is no daily puzzle for this date and difficulty. Daily puzzles
+          are Easy, Medium and Hard, and each day unlocks at midnight GMT.
+        </p>
+        <Link
+          href="/"
+          className={cn(buttonVariants({ size: "lg" }), "inline-flex")}
+        >
+          Go Home
+        </Link>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,39 @@
+import { notFound } from "next/navigation";
+import {
+  generateDailyPuzzle,
+  isDailyAvailable,
+  isDailyDifficulty,
+} from "@/lib/game/daily";
+import { DailyPuzzleGame } from "@/components/game/daily-puzzle-game";
+
+interface DailyPageProps {
+  params: Promise<{
+    date: string;
+    difficulty: string;
+  }>;
+}
+
+export default async function DailyPage({ params }: DailyPageProps) {
+  const { date, difficulty } = await params;
+
+  // Only released days (UTC) and daily difficulties have a puzzle
+  if (!isDailyAvailable(date) || !isDailyDifficulty(difficulty)) {
+    notFound();
+  }
+
+  const daily = generateDailyPuzzle(date, difficulty);
+
+  return (
+    <main className="min-h-screen">
+      <DailyPuzzleGame daily={daily} />
+    </main>
+  );
+}
+
+export async function generateMetadata({ params }: DailyPageProps) {
+  const { date, difficulty } = await params;
+  return {
+    title: `Zero Rush - Daily ${difficulty.charAt(0).toUpperCase() + difficulty.slice(1)} (${date})`,
+    description: "Today's Zero Rush puzzle. Find the lowest and highest values!",
+  };
+}
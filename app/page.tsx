@@ -1,21 +1,50 @@
 "use client";
 
 import { useState } from "react";
-import type { Card, Difficulty } from "@/lib/types/game";
+import type {
+  Card,
+  CustomDifficultyConfig,
+  Difficulty,
+  PuzzleSource,
+  RuleSet,
+} from "@/lib/types/game";
+import type { PuzzlePack } from "@/lib/game/pack";
 import { GameBoard } from "@/components/game";
 import { HomeScreen } from "@/components/game/home-screen";
+import { PuzzleEditor } from "@/components/game/puzzle-editor";
+import { PackPlayer } from "@/components/game/pack-player";
+import { GemHistory } from "@/components/game/gem-history";
+import { StatsScreen } from "@/components/game/stats-screen";
+import { MultiplayerLobby } from "@/components/game/multiplayer-lobby";
 import { PuzzleHistory } from "@/components/game/puzzle-history";
 
 type PageState =
   | { screen: "home" }
-  | { screen: "playing"; difficulty: Difficulty; providedCards?: Card[] }
-  | { screen: "history" };
+  | {
+      screen: "playing";
+      difficulty: Difficulty;
+      providedCards?: Card[];
+      rules?: RuleSet;
+      customDifficulty?: CustomDifficultyConfig;
+      source?: PuzzleSource;
+      timed?: boolean;
+    }
+  | { screen: "history" }
+  | { screen: "create" }
+  | { screen: "gems" }
+  | { screen: "stats" }
+  | { screen: "multiplayer" }
+  | { screen: "pack"; pack: PuzzlePack };
 
 export default function Page() {
   const [pageState, setPageState] = useState<PageState>({ screen: "home" });
 
-  const handleStart = (difficulty: Difficulty) => {
-    setPageState({ screen: "playing", difficulty });
+  const handleStart = (
+    difficulty: Difficulty,
+    customDifficulty?: CustomDifficultyConfig,
+    timed?: boolean
+  ) => {
+    setPageState({ screen: "playing", difficulty, customDifficulty, timed });
   };
 
   const handleBack = () => {
@@ -26,8 +55,53 @@ export default function Page() {
     setPageState({ screen: "history" });
   };
 
-  const handleResolve = (cards: Card[], difficulty: Difficulty) => {
-    setPageState({ screen: "playing", difficulty, providedCards: cards });
+  const handleCreate = () => {
+    setPageState({ screen: "create" });
+  };
+
+  const handleStats = () => {
+    setPageState({ screen: "stats" });
+  };
+
+  const handleMultiplayer = () => {
+    setPageState({ screen: "multiplayer" });
+  };
+
+  const handleGems = () => {
+    setPageState({ screen: "gems" });
+  };
+
+  const handlePlayCreated = (
+    cards: Card[],
+    difficulty: Difficulty,
+    customDifficulty?: CustomDifficultyConfig
+  ) => {
+    setPageState({
+      screen: "playing",
+      difficulty,
+      providedCards: cards,
+      customDifficulty,
+      source: "created",
+    });
+  };
+
+  const handlePlayPack = (pack: PuzzlePack) => {
+    setPageState({ screen: "pack", pack });
+  };
+
+  const handleResolve = (
+    cards: Card[],
+    difficulty: Difficulty,
+    rules?: RuleSet,
+    customDifficulty?: CustomDifficultyConfig
+  ) => {
+    setPageState({
+      screen: "playing",
+      difficulty,
+      providedCards: cards,
+      rules,
+      customDifficulty,
+    });
   };
 
   return (
@@ -37,12 +111,39 @@ export default function Page() {
           difficulty={pageState.difficulty}
           onBack={handleBack}
           providedCards={pageState.providedCards}
-          puzzleSource={pageState.providedCards ? "shared" : "generated"}
+          puzzleSource={
+            pageState.source ??
+            (pageState.providedCards ? "shared" : "generated")
+          }
+          rules={pageState.rules}
+          customDifficulty={pageState.customDifficulty}
+          timed={pageState.timed}
         />
       ) : pageState.screen === "history" ? (
-        <PuzzleHistory onBack={handleBack} onResolve={handleResolve} />
+        <PuzzleHistory
+          onBack={handleBack}
+          onResolve={handleResolve}
+          onPlayPack={handlePlayPack}
+        />
+      ) : pageState.screen === "create" ? (
+        <PuzzleEditor onBack={handleBack} onPlay={handlePlayCreated} />
+      ) : pageState.screen === "pack" ? (
+        <PackPlayer pack={pageState.pack} onBack={handleHistory} />
+      ) : pageState.screen === "gems" ? (
+        <GemHistory onBack={handleBack} />
+      ) : pageState.screen === "stats" ? (
+        <StatsScreen onBack={handleBack} />
+      ) : pageState.screen === "multiplayer" ? (
+        <MultiplayerLobby onBack={handleBack} />
       ) : (
-        <HomeScreen onStart={handleStart} onHistory={handleHistory} />
+        <HomeScreen
+          onStart={handleStart}
+          onHistory={handleHistory}
+          onCreate={handleCreate}
+          onGems={handleGems}
+          onStats={handleStats}
+          onMultiplayer={handleMultiplayer}
+        />
       )}
     </main>
   );
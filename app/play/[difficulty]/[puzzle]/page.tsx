@@ -1,5 +1,9 @@
 import { notFound } from "next/navigation";
-import { decodePuzzleFromUrl } from "@/lib/puzzle-url";
+import {
+  CUSTOM_QUERY_PARAM,
+  decodePuzzleFromUrl,
+  RULES_QUERY_PARAM,
+} from "@/lib/puzzle-url";
 import { SharedPuzzleGame } from "@/components/game/shared-puzzle-game";
 
 interface PlayPageProps {
@@ -7,13 +11,23 @@ interface PlayPageProps {
     difficulty: string;
     puzzle: string;
   }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
 }
 
-export default async function PlayPage({ params }: PlayPageProps) {
+export default async function PlayPage({ params, searchParams }: PlayPageProps) {
   const { difficulty, puzzle } = await params;
+  const query = await searchParams;
+  const rulesParam = query[RULES_QUERY_PARAM];
+  const customParam = query[CUSTOM_QUERY_PARAM];
 
-  // Decode and validate the puzzle from URL
-  const decodedPuzzle = decodePuzzleFromUrl(difficulty, puzzle);
+  // Decode and validate the puzzle (and any rule variant or custom
+  // difficulty settings) from URL
+  const decodedPuzzle = decodePuzzleFromUrl(
+    difficulty,
+    puzzle,
+    typeof rulesParam === "string" ? rulesParam : undefined,
+    typeof customParam === "string" ? customParam : undefined
+  );
 
   if (!decodedPuzzle) {
     notFound();
@@ -27,6 +41,8 @@ export default async function PlayPage({ params }: PlayPageProps) {
         signature={decodedPuzzle.signature}
         duskValue={decodedPuzzle.duskValue}
         dawnValue={decodedPuzzle.dawnValue}
+        rules={decodedPuzzle.rules}
+        customDifficulty={decodedPuzzle.customDifficulty}
       />
     </main>
   );
@@ -0,0 +1,216 @@
+"use client";
+
+import type { CardRange, CustomDifficultyConfig, Operator } from "@/lib/types/game";
+import {
+  CUSTOM_CARD_COUNT,
+  CUSTOM_RANGE_LIMITS,
+  findCustomDifficultyProblems,
+} from "@/lib/game/custom-difficulty";
+import { OPERATOR_DEFINITIONS } from "@/lib/game/operators";
+import { cn } from "@/lib/utils";
+import { OPERATOR_COLORS } from "./operator-colors";
+
+export interface CustomDifficultyBuilderProps {
+  /** Current settings */
+  value: CustomDifficultyConfig;
+  /** Called with the updated settings */
+  onChange: (value: CustomDifficultyConfig) => void;
+}
+
+/** Operators the builder offers, with the widest range each may use */
+const BUILDER_OPERATORS = OPERATOR_DEFINITIONS.flatMap(({ symbol, display }) => {
+  const limit = CUSTOM_RANGE_LIMITS[symbol];
+  return limit ? [{ symbol, display, limit }] : [];
+});
+
+const CARD_COUNTS = Array.from(
+  { length: CUSTOM_CARD_COUNT.max - CUSTOM_CARD_COUNT.min + 1 },
+  (_, i) => CUSTOM_CARD_COUNT.min + i
+);
+
+export function CustomDifficultyBuilder({
+  value,
+  onChange,
+}: CustomDifficultyBuilderProps) {
+  const problems = findCustomDifficultyProblems(value);
+
+  const setRange = (operator: Operator, range: CardRange | undefined) => {
+    const ranges = { ...value.ranges };
+    if (range) {
+      ranges[operator] = range;
+    } else {
+      delete ranges[operator];
+    }
+    onChange({ ...value, ranges });
+  };
+
+  return (
+    <div className="flex flex-col gap-4 w-full p-4 rounded-xl border border-border bg-muted/20">
+      {/* Card count */}
+      <div className="flex flex-col gap-2">
+        <span className="text-sm font-medium">Cards</span>
+        <div className="flex gap-1">
+          {CARD_COUNTS.map((count) => (
+            <button
+              key={count}
+              onClick={() => onChange({ ...value, cards: count })}
+              className={cn(
+                "flex-1 py-1.5 rounded-md border text-sm tabular-nums transition-colors",
+                value.cards === count
+                  ? "border-primary bg-primary/10 text-primary font-semibold"
+                  : "border-border hover:bg-muted"
+              )}
+            >
+              {count}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Operator ranges */}
+      <div className="flex flex-col gap-2">
+        <span className="text-sm font-medium">Card ranges</span>
+        {BUILDER_OPERATORS.map(({ symbol, display, limit }) => {
+          const range = value.ranges[symbol];
+          const values = Array.from(
+            { length: limit.max - limit.min + 1 },
+            (_, i) => limit.min + i
+          );
+
+          return (
+            <div key={symbol} className="flex items-center gap-2 text-sm">
+              <button
+                role="switch"
+                aria-checked={range !== undefined}
+                aria-label={`Deal ${display} cards`}
+                onClick={() =>
+                  setRange(symbol, range ? undefined : { ...limit })
+                }
+                className={cn(
+                  "w-9 h-9 rounded-md border-2 font-bold transition-colors",
+                  range
+                    ? cn(OPERATOR_COLORS[symbol].text, "border-current")
+                    : "border-border text-muted-foreground opacity-50"
+                )}
+              >
+                {display}
+              </button>
+              {range ? (
+                <>
+                  <RangeSelect
+                    value={range.min}
+                    values={values.filter((v) => v <= range.max)}
+                    onChange={(min) => setRange(symbol, { ...range, min })}
+                    label={`Lowest ${display} card`}
+                  />
+                  <span className="text-muted-foreground">to</span>
+                  <RangeSelect
+                    value={range.max}
+                    values={values.filter((v) => v >= range.min)}
+                    onChange={(max) => setRange(symbol, { ...range, max })}
+                    label={`Highest ${display} card`}
+                  />
+                </>
+              ) : (
+                <span className="text-muted-foreground">Not dealt</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Flags */}
+      <div className="flex flex-col gap-2">
+        <BuilderToggle
+          label="Zero guarantee"
+          description="Zero is always reachable"
+          checked={value.zeroGuarantee}
+          onChange={(zeroGuarantee) => onChange({ ...value, zeroGuarantee })}
+        />
+        <BuilderToggle
+          label="Hints"
+          description="Allow directions and reveals"
+          checked={value.hintsAvailable}
+          onChange={(hintsAvailable) => onChange({ ...value, hintsAvailable })}
+        />
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="text-xs text-red-600 dark:text-red-400 space-y-0.5">
+          {problems.map((problem) => (
+            <li key={problem} className="first-letter:uppercase">
+              {problem}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function RangeSelect({
+  value,
+  values,
+  onChange,
+  label,
+}: {
+  value: number;
+  values: number[];
+  onChange: (value: number) => void;
+  label: string;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      aria-label={label}
+      className={cn(
+        "h-9 px-2 rounded-md border border-input bg-background text-sm tabular-nums",
+        "focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+      )}
+    >
+      {values.map((v) => (
+        <option key={v} value={v}>
+          {v}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function BuilderToggle({
+  label,
+  description,
+  checked,
+  onChange,
+}: {
+  label: string;
+  description: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div>
+        <div className="text-sm font-medium">{label}</div>
+        <div className="text-xs text-muted-foreground">{description}</div>
+      </div>
+      <button
+        role="switch"
+        aria-checked={checked}
+        onClick={() => onChange(!checked)}
+        className={cn(
+          "relative inline-flex h-6 w-11 shrink-0 items-center rounded-full transition-colors",
+          checked ? "bg-primary" : "bg-muted"
+        )}
+      >
+        <span
+          className={cn(
+            "inline-block h-4 w-4 transform rounded-full bg-white transition-transform",
+            checked ? "translate-x-6" : "translate-x-1"
+          )}
+        />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useCallback } from "react";
+import { useRouter } from "next/navigation";
+import type { DailyPuzzle } from "@/lib/types/game";
+import { getDailyDate } from "@/lib/game/daily";
+import { toCanonicalSignature } from "@/lib/game/signature";
+import { getStreakStatus } from "@/lib/game/streak";
+import { useDailyCompletions } from "@/lib/hooks/use-daily-completions";
+import { useGemLedger } from "@/lib/hooks/use-gem-ledger";
+import { useUserProfile } from "@/lib/hooks/use-user-profile";
+import { GameBoard, type GameCompletionSummary } from "./game-board";
+
+export interface DailyPuzzleGameProps {
+  /** Today's (or a past day's) puzzle for one difficulty */
+  daily: DailyPuzzle;
+}
+
+/**
+ * Client wrapper for GameBoard when playing a daily puzzle.
+ * Records a DailyCompletion when the daily cards are solved, and counts it
+ * towards the streak (crediting milestone gems) when solved on the day.
+ */
+export function DailyPuzzleGame({ daily }: DailyPuzzleGameProps) {
+  const router = useRouter();
+  const { recordCompletion } = useDailyCompletions();
+  const { profile, recordDailyStreak } = useUserProfile();
+  const { creditStreakMilestone } = useGemLedger();
+  const streak = getStreakStatus(profile);
+
+  const handleBack = useCallback(() => {
+    router.push("/");
+  }, [router]);
+
+  const handleComplete = useCallback(
+    (summary: GameCompletionSummary) => {
+      // "New" deals a random puzzle - only the daily cards count
+      if (toCanonicalSignature(summary.cards) !== daily.puzzleSignature) return;
+
+      recordCompletion({
+        date: daily.date,
+        difficulty: daily.difficulty,
+        completed: true,
+        attempts: summary.attempts,
+        hintsUsed: summary.hintsUsed,
+        durationMs: summary.durationMs,
+        completedAt: Date.now(),
+      });
+      const { currentStreak } = recordDailyStreak(daily.date);
+      // Archive plays don't move the streak, so they can't reach a milestone
+      if (daily.date === getDailyDate()) {
+        creditStreakMilestone(currentStreak, daily.date);
+      }
+    },
+    [daily, recordCompletion, recordDailyStreak, creditStreakMilestone]
+  );
+
+  return (
+    <GameBoard
+      difficulty={daily.difficulty}
+      onBack={handleBack}
+      providedCards={daily.cards}
+      puzzleSource="daily"
+      subtitle={`Daily ${capitalize(daily.difficulty)} · ${daily.date}`}
+      onComplete={handleComplete}
+      streak={streak.state === "done" ? streak : undefined}
+    />
+  );
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -1,25 +1,45 @@
 "use client";
 
-import type { Difficulty } from "@/lib/types/game";
-import { DIFFICULTY_CONFIG } from "@/lib/game/constants";
+import type { CustomDifficultyConfig, Difficulty } from "@/lib/types/game";
+import { CHALLENGER_UNLOCK_TIME_MS, DIFFICULTIES } from "@/lib/game/constants";
+import { getDifficultyConfig } from "@/lib/game/custom-difficulty";
+import { formatClock } from "@/lib/game/profile";
 import { cn } from "@/lib/utils";
+import { CustomDifficultyBuilder } from "./custom-difficulty-builder";
 
 export interface DifficultySelectorProps {
   value: Difficulty;
   onChange: (difficulty: Difficulty) => void;
   disabled?: boolean;
+  /** Settings for the custom difficulty (shown in a builder when selected) */
+  customDifficulty?: CustomDifficultyConfig;
+  /** Called when the custom settings change */
+  onCustomDifficultyChange?: (config: CustomDifficultyConfig) => void;
+  /** Whether the player has earned Challenger (see D006) */
+  challengerUnlocked?: boolean;
 }
 
-const DIFFICULTY_ORDER: Difficulty[] = ["easy", "medium", "hard", "challenger"];
+/** How to earn Challenger (see D006) */
+export const CHALLENGER_LOCKED_HINT = `Clear Hard in timed mode in under ${formatClock(
+  CHALLENGER_UNLOCK_TIME_MS
+)} without hints to unlock`;
 
 const DIFFICULTY_LABELS: Record<Difficulty, string> = {
   easy: "Easy",
   medium: "Medium",
   hard: "Hard",
   challenger: "Challenger",
+  custom: "Custom",
 };
 
-export function DifficultySelector({ value, onChange, disabled }: DifficultySelectorProps) {
+export function DifficultySelector({
+  value,
+  onChange,
+  disabled,
+  customDifficulty,
+  onCustomDifficultyChange,
+  challengerUnlocked = false,
+}: DifficultySelectorProps) {
   return (
     <div className="flex flex-col gap-2">
       <label className="text-sm font-medium text-muted-foreground">
@@ -27,15 +47,17 @@ export function DifficultySelector({ value, onChange, disabled }: DifficultySele
       </label>
       
       <div className="flex flex-wrap gap-1.5">
-        {DIFFICULTY_ORDER.map((difficulty) => {
-          const config = DIFFICULTY_CONFIG[difficulty];
+        {DIFFICULTIES.map((difficulty) => {
+          const config = getDifficultyConfig(difficulty, customDifficulty);
           const isSelected = value === difficulty;
+          const isLocked = difficulty === "challenger" && !challengerUnlocked;
           
           return (
             <button
               key={difficulty}
               onClick={() => onChange(difficulty)}
-              disabled={disabled}
+              disabled={disabled || isLocked}
+              title={isLocked ? CHALLENGER_LOCKED_HINT : undefined}
               className={cn(
                 "flex flex-col items-center gap-0.5 px-3 py-2 rounded-lg",
                 "border-2 transition-all duration-200",
@@ -43,17 +65,24 @@ export function DifficultySelector({ value, onChange, disabled }: DifficultySele
                 isSelected
                   ? "border-primary bg-primary/10 text-primary"
                   : "border-border bg-background hover:bg-muted hover:border-muted-foreground/50",
-                disabled && "opacity-50 cursor-not-allowed"
+                (disabled || isLocked) && "opacity-50 cursor-not-allowed"
               )}
             >
               <span>{DIFFICULTY_LABELS[difficulty]}</span>
               <span className="text-xs text-muted-foreground">
-                {config.cards} cards
+                {isLocked ? "Locked" : `${config.cards} cards`}
               </span>
             </button>
           );
         })}
       </div>
+
+      {value === "custom" && customDifficulty && onCustomDifficultyChange && (
+        <CustomDifficultyBuilder
+          value={customDifficulty}
+          onChange={onCustomDifficultyChange}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,171 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { describeDirectionalHint } from "@/lib/game/hints";
+import type { DirectionalHint, DistanceBucket } from "@/lib/types/game";
+
+export interface DirectionalHintPopoverProps {
+  /** Whether the popover is open */
+  isOpen: boolean;
+  /** Close the popover */
+  onClose: () => void;
+  /** The target being hinted (dusk or dawn) */
+  target: "dusk" | "dawn";
+  /** The target's full hint ladder */
+  ladder: DirectionalHint[];
+  /** Number of ladder steps unlocked so far */
+  unlockedCount: number;
+  /** Maximum hints allowed (based on settings) */
+  maxHints: number;
+  /** Distance bucket of the best attempt (null before any valid attempt) */
+  distance: DistanceBucket | null;
+  /** 💎 charged for the next step (0 while today's free hints last) */
+  hintCost: number;
+  /** Whether the gem balance covers the next step */
+  canAffordHint: boolean;
+  /** Callback when user unlocks the next step */
+  onReveal: () => void;
+}
+
+/** Labels for each ladder step, in the order they are unlocked */
+const STEP_LABELS: Record<DirectionalHint["kind"], string> = {
+  distance: "How far off",
+  placement: "Early or late",
+  opener: "Not first",
+};
+
+export function DirectionalHintPopover({
+  isOpen,
+  onClose,
+  target,
+  ladder,
+  unlockedCount,
+  maxHints,
+  distance,
+  hintCost,
+  canAffordHint,
+  onReveal,
+}: DirectionalHintPopoverProps) {
+  if (!isOpen) return null;
+
+  const isDusk = target === "dusk";
+  const availableSteps = Math.min(ladder.length, maxHints);
+  const isAtMax = unlockedCount >= availableSteps;
+  const nextHint = isAtMax ? null : ladder[unlockedCount];
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 z-50" onClick={onClose} />
+
+      {/* Popover */}
+      <div
+        className={cn(
+          "fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2",
+          "w-[320px] max-w-[90vw]",
+          "bg-card border rounded-xl shadow-xl z-50",
+          "animate-in fade-in zoom-in-95 duration-200",
+          isDusk ? "border-sky-500/50" : "border-amber-500/50"
+        )}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div
+          className={cn(
+            "flex items-center justify-between px-4 py-3 border-b",
+            isDusk
+              ? "border-sky-500/30 bg-sky-500/5"
+              : "border-amber-500/30 bg-amber-500/5"
+          )}
+        >
+          <h2
+            className={cn(
+              "font-semibold",
+              isDusk
+                ? "text-sky-600 dark:text-sky-400"
+                : "text-amber-600 dark:text-amber-400"
+            )}
+          >
+            {isDusk ? "Dusk" : "Dawn"} Directions
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-muted transition-colors"
+          >
+            <CloseIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-4">
+          {unlockedCount === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Directions point you toward {isDusk ? "dusk" : "dawn"} without
+              placing any cards. Each step is more specific than the last.
+            </p>
+          ) : (
+            <ol className="space-y-2">
+              {ladder.slice(0, unlockedCount).map((hint) => (
+                <li key={hint.kind} className="text-sm">
+                  <span className="block text-[10px] uppercase tracking-wider text-muted-foreground">
+                    {STEP_LABELS[hint.kind]}
+                  </span>
+                  <span className="font-medium">
+                    {describeDirectionalHint(hint, target, distance)}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {nextHint ? (
+            <Button
+              className={cn(
+                "w-full",
+                isDusk
+                  ? "bg-sky-500 hover:bg-sky-600 text-white"
+                  : "bg-amber-500 hover:bg-amber-600 text-white"
+              )}
+              onClick={onReveal}
+              disabled={!canAffordHint}
+            >
+              Show {STEP_LABELS[nextHint.kind]}
+              <span className="ml-2 text-xs opacity-80">
+                ({hintCost > 0 ? `${hintCost} 💎` : "free"}, {availableSteps - unlockedCount} remaining)
+              </span>
+            </Button>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-2">
+              {availableSteps < ladder.length
+                ? `Maximum hints reached (${maxHints})`
+                : "No more directions for this target"}
+            </p>
+          )}
+
+          {nextHint && !canAffordHint && (
+            <p className="text-xs text-muted-foreground text-center">
+              Not enough 💎 for another step
+            </p>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
+
+function CloseIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M18 6 6 18M6 6l12 12" />
+    </svg>
+  );
+}
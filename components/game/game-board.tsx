@@ -22,14 +22,28 @@ import type {
   Difficulty,
   AutoOrgMode,
   Card,
+  CustomDifficultyConfig,
+  GameRecord,
   HintMode,
   MaxHintLimit,
+  PuzzleSource,
+  RuleSet,
 } from "@/lib/types/game";
+import type { ReachableRange } from "@/lib/game/reachable";
+import { getDifficultyConfig } from "@/lib/game/custom-difficulty";
+import { earnsChallengerUnlock, formatClock } from "@/lib/game/profile";
+import type { GameRecordSink } from "@/lib/game/records";
+import type { StreakSummary } from "@/lib/game/streak";
 import { useGame } from "@/lib/hooks/use-game";
+import { useGameClock } from "@/lib/hooks/use-game-clock";
+import { useGameRecords } from "@/lib/hooks/use-game-records";
+import { useGemLedger } from "@/lib/hooks/use-gem-ledger";
+import { useUserProfile } from "@/lib/hooks/use-user-profile";
 import {
   usePuzzleHistory,
   createHistoryEntry,
 } from "@/lib/hooks/use-puzzle-history";
+import { BackIcon } from "./back-icon";
 import { GameCard } from "./game-card";
 import { Hand } from "./hand";
 import { TargetDisplay } from "./target-display";
@@ -38,8 +52,13 @@ import { SubmissionHistory } from "./submission-history";
 import { VictoryModal, VictoryBanner } from "./victory-modal";
 import { SlotGrid } from "./slot-grid";
 import { RevealPopover } from "./reveal-popover";
+import { DirectionalHintPopover } from "./directional-hint-popover";
 import { cardToString } from "@/lib/game/evaluate";
-import { OPERATOR_DISPLAY } from "@/lib/game/constants";
+import { getDistanceBucket } from "@/lib/game/hints";
+import {
+  CHALLENGER_UNLOCK_TIME_MS,
+  OPERATOR_DISPLAY,
+} from "@/lib/game/constants";
 import { cn } from "@/lib/utils";
 import { useSoundEffects } from "@/lib/hooks/use-sound-effects";
 
@@ -49,6 +68,7 @@ export interface GameSettings {
   autoSubmit: boolean;
   maxHistoryLength: number;
   highlightMatches: boolean;
+  showReachableRange: boolean;
   clearAfterSubmit: boolean;
   controlsStyle: "text-icons" | "icons-only";
   historyPlacement: "inline" | "drawer";
@@ -66,6 +86,7 @@ const DEFAULT_SETTINGS: GameSettings = {
   autoSubmit: false,
   maxHistoryLength: 10,
   highlightMatches: false,
+  showReachableRange: true,
   clearAfterSubmit: true,
   controlsStyle: "text-icons",
   historyPlacement: "drawer",
@@ -77,11 +98,11 @@ const DEFAULT_SETTINGS: GameSettings = {
   maxHintLimit: "half",
 };
 
-function getInitialSettings(difficulty: Difficulty): GameSettings {
+function getInitialSettings(hintsAvailable: boolean): GameSettings {
   if (typeof window === "undefined") {
     return {
       ...DEFAULT_SETTINGS,
-      hintMode: difficulty === "challenger" ? "disabled" : "reveals",
+      hintMode: hintsAvailable ? "reveals" : "disabled",
     };
   }
   try {
@@ -89,7 +110,7 @@ function getInitialSettings(difficulty: Difficulty): GameSettings {
     if (!stored) {
       return {
         ...DEFAULT_SETTINGS,
-        hintMode: difficulty === "challenger" ? "disabled" : "reveals",
+        hintMode: hintsAvailable ? "reveals" : "disabled",
       };
     }
     const parsed = JSON.parse(stored) as Partial<GameSettings> & {
@@ -103,8 +124,8 @@ function getInitialSettings(difficulty: Difficulty): GameSettings {
       ) {
         parsed.hintMode = parsed.showDirectionalHints ? "reveals" : "disabled";
       }
-      // If hintMode not explicitly set and Challenger, default to disabled
-      if (parsed.hintMode === undefined && difficulty === "challenger") {
+      // If hintMode not explicitly set and hints are off, default to disabled
+      if (parsed.hintMode === undefined && !hintsAvailable) {
         parsed.hintMode = "disabled";
       }
       // Set default maxHintLimit if not present
@@ -118,7 +139,7 @@ function getInitialSettings(difficulty: Difficulty): GameSettings {
   }
   return {
     ...DEFAULT_SETTINGS,
-    hintMode: difficulty === "challenger" ? "disabled" : "reveals",
+    hintMode: hintsAvailable ? "reveals" : "disabled",
   };
 };
 const SETTINGS_STORAGE_KEY = "zero-rush.gameSettings";
@@ -131,9 +152,35 @@ export interface GameBoardProps {
   /** Provided cards (for shared puzzles) */
   providedCards?: Card[];
   /** Source of the puzzle */
-  puzzleSource?: "generated" | "shared";
+  puzzleSource?: PuzzleSource;
   /** URL the puzzle was shared from */
   sharedFromUrl?: string;
+  /** Optional line shown under the title (e.g. "Daily Hard · 2026-01-15") */
+  subtitle?: string;
+  /** Callback when a puzzle is completed (both targets found) */
+  onComplete?: (summary: GameCompletionSummary) => void;
+  /** Evaluation rules (defaults to the standard rules) */
+  rules?: RuleSet;
+  /** The player's settings when the difficulty is "custom" */
+  customDifficulty?: CustomDifficultyConfig;
+  /** Show a clock; clearing Hard in time unlocks Challenger (see D006) */
+  timed?: boolean;
+  /** The player's daily streak, shown and shared on completion */
+  streak?: StreakSummary;
+  /** Also receives each game record (they're always stored locally) */
+  onGameRecord?: GameRecordSink;
+}
+
+/** Summary of a finished puzzle, passed to onComplete */
+export interface GameCompletionSummary {
+  /** The puzzle cards */
+  cards: Card[];
+  /** Number of attempts taken */
+  attempts: number;
+  /** Total hints used (revealed cards and directional steps, dusk + dawn) */
+  hintsUsed: number;
+  /** Time on the clock at completion (paused while the tab is hidden) */
+  durationMs: number;
 }
 
 export function GameBoard({
@@ -142,8 +189,20 @@ export function GameBoard({
   providedCards,
   puzzleSource = "generated",
   sharedFromUrl,
+  subtitle,
+  onComplete,
+  rules,
+  customDifficulty,
+  timed = false,
+  streak,
+  onGameRecord,
 }: GameBoardProps) {
-  const [settings, setSettings] = useState<GameSettings>(() => getInitialSettings(difficulty));
+  const { hintsAvailable } = getDifficultyConfig(difficulty, customDifficulty);
+  const [settings, setSettings] = useState<GameSettings>(() =>
+    getInitialSettings(hintsAvailable)
+  );
+  // A difficulty without hints overrides the player's hint setting
+  const hintMode = hintsAvailable ? settings.hintMode : "disabled";
   const [showVictoryModal, setShowVictoryModal] = useState(false);
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
   const [shakeSubmit, setShakeSubmit] = useState(false);
@@ -160,7 +219,19 @@ export function GameBoard({
 
   const { play } = useSoundEffects(settings.soundEffects);
   const { addEntry: addHistoryEntry } = usePuzzleHistory();
+  const { profile, unlockChallenger } = useUserProfile();
+  const { addRecord: addGameRecord } = useGameRecords();
+  const { balance: gemBalance, hintCost, spendHint } = useGemLedger();
+  const canAffordHint = gemBalance >= hintCost;
+  const handleGameRecord = useCallback(
+    (record: GameRecord) => {
+      addGameRecord(record);
+      onGameRecord?.(record);
+    },
+    [addGameRecord, onGameRecord]
+  );
   const historySavedRef = useRef(false);
+  const completionReportedRef = useRef(false);
 
   const {
     handCards,
@@ -174,30 +245,60 @@ export function GameBoard({
     attempts,
     currentResult,
     rawResult,
+    reachableRange,
+    reachableRangeError,
     isComplete,
     submissions,
     hints,
+    directionalHints,
+    directionalHintLadders,
+    hintsRemaining,
+    isLoading,
+    loadError,
+    startedAt,
     generateNewPuzzle,
+    retryLoad,
     addToArrangement,
     removeFromArrangement,
     reorderArrangement,
     submitAttempt,
     clearArrangement,
+    loadArrangement,
     canSubmit,
     setMaxHistoryLength,
     cardCount,
     setAutoOrgMode,
     setUseCardSlots,
+    setReachableRangeEnabled,
+    setMaxHintLimit,
     addToTableAtSlot,
     removeFromTableAtSlot,
     swapWithinTable,
     swapWithinHand,
     revealNextHint,
+    revealDirectionalHint,
     resumeHints,
     clearHints,
     clearNonHintedCards,
     getHintedCards,
-  } = useGame({ difficulty, providedCards });
+  } = useGame({
+    difficulty,
+    providedCards,
+    rules,
+    customDifficulty,
+    mode: puzzleSource === "daily" ? "daily" : "practice",
+    onGameRecord: handleGameRecord,
+  });
+
+  const { elapsedMs, getElapsedMs } = useGameClock(
+    !isLoading && !isComplete,
+    startedAt
+  );
+  // Whether this puzzle's run is the one that unlocked Challenger
+  const unlockedChallengerNow =
+    profile.challengerUnlockedAt !== undefined &&
+    startedAt !== null &&
+    profile.challengerUnlockedAt >= startedAt;
 
   // Detect mobile viewport
   useEffect(() => {
@@ -218,6 +319,13 @@ export function GameBoard({
     }
   }, [isComplete]);
 
+  // Revealed cards and directional steps both count as hints
+  const hintsUsed = useMemo(() => {
+    const dusk = hints.dusk.length + directionalHints.dusk;
+    const dawn = hints.dawn.length + directionalHints.dawn;
+    return { dusk, dawn, total: dusk + dawn };
+  }, [hints, directionalHints]);
+
   // Save to history when puzzle is completed
   useEffect(() => {
     if (isComplete && settings.autoSaveHistory && !historySavedRef.current) {
@@ -246,13 +354,24 @@ export function GameBoard({
               result: dawnSubmission.result,
             }
           : undefined,
+        invalidSubmissions: submissions.flatMap((s) =>
+          s.invalidReason
+            ? [
+                {
+                  arrangement: s.arrangement,
+                  result: s.result,
+                  invalidReason: s.invalidReason,
+                },
+              ]
+            : []
+        ),
         source: puzzleSource,
         sharedFromUrl,
-        hintsUsed: {
-          dusk: hints.dusk.length,
-          dawn: hints.dawn.length,
-          total: hints.dusk.length + hints.dawn.length,
-        },
+        hintsUsed,
+        rules,
+        rating: puzzleResult.rating,
+        customDifficulty,
+        durationMs: getElapsedMs(),
       });
 
       addHistoryEntry(entry);
@@ -265,18 +384,61 @@ export function GameBoard({
     attempts,
     puzzleResult.dusk.result,
     puzzleResult.dawn.result,
+    puzzleResult.rating,
     foundDusk,
     foundDawn,
     submissions,
     puzzleSource,
     sharedFromUrl,
     addHistoryEntry,
-    hints,
+    hintsUsed,
+    rules,
+    customDifficulty,
+    getElapsedMs,
+  ]);
+
+  // Check the Challenger unlock and report completion to the parent (e.g.
+  // daily puzzle tracking)
+  useEffect(() => {
+    if (!isComplete || completionReportedRef.current) return;
+    completionReportedRef.current = true;
+
+    const durationMs = getElapsedMs();
+    if (
+      !profile.challengerUnlocked &&
+      earnsChallengerUnlock({
+        difficulty,
+        timed,
+        durationMs,
+        hintsUsed: hintsUsed.total,
+      })
+    ) {
+      unlockChallenger();
+    }
+
+    onComplete?.({
+      cards: puzzleCards,
+      attempts,
+      hintsUsed: hintsUsed.total,
+      durationMs,
+    });
+  }, [
+    isComplete,
+    onComplete,
+    puzzleCards,
+    attempts,
+    hintsUsed,
+    getElapsedMs,
+    difficulty,
+    timed,
+    profile.challengerUnlocked,
+    unlockChallenger,
   ]);
 
   // Reset history saved flag when generating new puzzle
   useEffect(() => {
     historySavedRef.current = false;
+    completionReportedRef.current = false;
   }, [puzzleCards]);
 
   // Sync settings with hook
@@ -292,6 +454,14 @@ export function GameBoard({
     setUseCardSlots(settings.useCardSlots);
   }, [settings.useCardSlots, setUseCardSlots]);
 
+  useEffect(() => {
+    setReachableRangeEnabled(settings.showReachableRange);
+  }, [settings.showReachableRange, setReachableRangeEnabled]);
+
+  useEffect(() => {
+    setMaxHintLimit(settings.maxHintLimit);
+  }, [settings.maxHintLimit, setMaxHintLimit]);
+
   // Persist settings to localStorage
   useEffect(() => {
     try {
@@ -322,13 +492,20 @@ export function GameBoard({
     };
   }, [submissions]);
 
-  // Calculate max hints based on settings
-  const maxHints = useMemo(() => {
-    if (settings.maxHintLimit === "all") {
-      return Math.max(cardCount - 2, 1); // Nearly all (n-2), min 1
-    }
-    return Math.floor(cardCount / 2); // Half the cards
-  }, [cardCount, settings.maxHintLimit]);
+  // How far each best attempt is from its target (for directional hints)
+  const bestDistances = useMemo(
+    () => ({
+      dusk:
+        bestAttempts.lowest === null
+          ? null
+          : getDistanceBucket(bestAttempts.lowest, puzzleResult.dusk.result),
+      dawn:
+        bestAttempts.highest === null
+          ? null
+          : getDistanceBucket(bestAttempts.highest, puzzleResult.dawn.result),
+    }),
+    [bestAttempts, puzzleResult]
+  );
 
   // Get hinted cards for display
   const hintedCards = useMemo(() => getHintedCards(), [getHintedCards]);
@@ -497,16 +674,27 @@ export function GameBoard({
   // Handle reveal popover actions
   const handleRevealClick = useCallback(
     (target: "dusk" | "dawn") => {
-      if (settings.hintMode !== "reveals") return;
+      if (hintMode === "disabled") return;
       setRevealPopoverTarget(target);
     },
-    [settings.hintMode]
+    [hintMode]
   );
 
+  // Hints past the day's free ones cost gems: refused when the balance is
+  // short, and charged only once the hint is actually shown
   const handleReveal = useCallback(() => {
-    if (!revealPopoverTarget) return;
-    revealNextHint(revealPopoverTarget);
-  }, [revealPopoverTarget, revealNextHint]);
+    if (!revealPopoverTarget || !canAffordHint) return;
+    if (revealNextHint(revealPopoverTarget)) {
+      spendHint({ target: revealPopoverTarget, kind: "card" });
+    }
+  }, [revealPopoverTarget, canAffordHint, revealNextHint, spendHint]);
+
+  const handleRevealDirection = useCallback(() => {
+    if (!revealPopoverTarget || !canAffordHint) return;
+    if (revealDirectionalHint(revealPopoverTarget)) {
+      spendHint({ target: revealPopoverTarget, kind: "direction" });
+    }
+  }, [revealPopoverTarget, canAffordHint, revealDirectionalHint, spendHint]);
 
   const handleResume = useCallback(() => {
     if (!revealPopoverTarget) return;
@@ -570,16 +758,17 @@ export function GameBoard({
     })
     .join("");
 
-  // Determine if current result is invalid (negative or non-integer)
-  const isInvalidResult =
-    rawResult !== null && (rawResult < 0 || !Number.isInteger(rawResult));
+  // Determine if current result is invalid (not an answer the rules allow)
+  const isInvalidResult = rawResult !== null && currentResult === null;
 
-  // Format the display result
+  // Format the display result (NaN means a step had no defined result)
   const displayResult =
     rawResult !== null
-      ? Number.isInteger(rawResult)
-        ? rawResult
-        : rawResult.toFixed(2)
+      ? Number.isNaN(rawResult)
+        ? "—"
+        : Number.isInteger(rawResult)
+          ? rawResult
+          : rawResult.toFixed(2)
       : null;
 
   // Determine result styling
@@ -617,17 +806,47 @@ export function GameBoard({
         dawnSubmission={submissions.find((s) => s.isDawn)}
         difficulty={difficulty}
         puzzleCards={puzzleCards}
+        rules={rules}
+        customDifficulty={customDifficulty}
+        puzzleResult={puzzleResult}
+        submissions={submissions}
+        onLoadArrangement={loadArrangement}
+        timeMs={timed ? elapsedMs : undefined}
+        unlockedChallenger={unlockedChallengerNow}
+        streak={streak}
       />
 
       {/* Reveal Popover */}
-      {revealPopoverTarget && (
+      {revealPopoverTarget && hintMode === "directions" && (
+        <DirectionalHintPopover
+          isOpen={true}
+          onClose={() => setRevealPopoverTarget(null)}
+          target={revealPopoverTarget}
+          ladder={directionalHintLadders[revealPopoverTarget]}
+          unlockedCount={directionalHints[revealPopoverTarget]}
+          maxHints={
+            directionalHints[revealPopoverTarget] +
+            hintsRemaining[revealPopoverTarget]
+          }
+          distance={bestDistances[revealPopoverTarget]}
+          hintCost={hintCost}
+          canAffordHint={canAffordHint}
+          onReveal={handleRevealDirection}
+        />
+      )}
+      {revealPopoverTarget && hintMode === "reveals" && (
         <RevealPopover
           isOpen={true}
           onClose={() => setRevealPopoverTarget(null)}
           target={revealPopoverTarget}
           revealedCount={hints[revealPopoverTarget].length}
           totalCards={cardCount}
-          maxHints={maxHints}
+          maxHints={
+            hints[revealPopoverTarget].length +
+            hintsRemaining[revealPopoverTarget]
+          }
+          hintCost={hintCost}
+          canAffordHint={canAffordHint}
           onReveal={handleReveal}
           onResume={handleResume}
           isActiveTarget={hints.activeTarget === revealPopoverTarget}
@@ -658,6 +877,18 @@ export function GameBoard({
             <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">
               Zero Rush
             </h1>
+            {subtitle && (
+              <p className="text-xs text-muted-foreground mt-0.5">{subtitle}</p>
+            )}
+            {timed && (
+              <TimedClock
+                elapsedMs={elapsedMs}
+                showUnlockTarget={
+                  difficulty === "hard" && !profile.challengerUnlocked
+                }
+                isPaused={isLoading || isComplete}
+              />
+            )}
           </div>
           <div className="flex items-center gap-2">
             {settings.historyPlacement === "drawer" && (
@@ -687,6 +918,7 @@ export function GameBoard({
             <SettingsDialog
               settings={settings}
               onSettingsChange={setSettings}
+              hintsAvailable={hintsAvailable}
             />
           </div>
         </div>
@@ -697,18 +929,20 @@ export function GameBoard({
             type="dusk"
             value={puzzleResult.dusk.result}
             found={foundDusk}
-            showValue={settings.showTargetValues}
+            showValue={settings.showTargetValues && !isLoading}
             bestAttempt={bestAttempts.lowest}
-            hintMode={settings.hintMode}
+            hintMode={hintMode}
+            distance={directionalHints.dusk > 0 ? bestDistances.dusk : null}
             onRevealClick={() => handleRevealClick("dusk")}
           />
           <TargetDisplay
             type="dawn"
             value={puzzleResult.dawn.result}
             found={foundDawn}
-            showValue={settings.showTargetValues}
+            showValue={settings.showTargetValues && !isLoading}
             bestAttempt={bestAttempts.highest}
-            hintMode={settings.hintMode}
+            hintMode={hintMode}
+            distance={directionalHints.dawn > 0 ? bestDistances.dawn : null}
             onRevealClick={() => handleRevealClick("dawn")}
           />
         </div>
@@ -832,6 +1066,19 @@ export function GameBoard({
               </>
             )}
           </div>
+
+          {/* Values still reachable from the cards on the table */}
+          {settings.showReachableRange &&
+            !isComplete &&
+            arrangementCards.length > 0 &&
+            handCards.length > 0 && (
+              <ReachableRangeIndicator
+                range={reachableRange}
+                error={reachableRangeError}
+                needsDusk={!foundDusk}
+                needsDawn={!foundDawn}
+              />
+            )}
         </div>
 
         {/* Game controls */}
@@ -863,23 +1110,143 @@ export function GameBoard({
             shouldScaleCards ? "min-h-[70px]" : "min-h-[100px]"
           )}
         >
-          <Hand
-            cards={handCards}
-            onCardTap={handleAddCard}
-            disabled={isComplete}
-            size={shouldScaleCards ? "small" : "hand"}
-            slots={settings.useCardSlots ? handSlots : undefined}
-            totalSlots={settings.useCardSlots ? cardCount : undefined}
-            useSlots={settings.useCardSlots}
-            onSlotClick={handleHandSlotClick}
-            onSwapSlots={settings.enableHandDrag ? handleHandSwap : undefined}
-          />
+          {loadError ? (
+            <div className="flex flex-col items-center justify-center gap-2 min-h-[100px] text-sm text-center">
+              <span className="text-destructive">
+                Couldn&apos;t deal this puzzle: {loadError}
+              </span>
+              <button
+                onClick={retryLoad}
+                className="text-primary hover:underline underline-offset-2"
+              >
+                Retry
+              </button>
+            </div>
+          ) : isLoading && handCards.length === 0 ? (
+            <div className="flex items-center justify-center gap-2 min-h-[100px] text-sm text-muted-foreground">
+              <div className="animate-spin w-4 h-4 border-2 border-primary border-t-transparent rounded-full" />
+              <span>Dealing cards...</span>
+            </div>
+          ) : (
+            <Hand
+              cards={handCards}
+              onCardTap={handleAddCard}
+              disabled={isComplete}
+              size={shouldScaleCards ? "small" : "hand"}
+              slots={settings.useCardSlots ? handSlots : undefined}
+              totalSlots={settings.useCardSlots ? cardCount : undefined}
+              useSlots={settings.useCardSlots}
+              onSlotClick={handleHandSlotClick}
+              onSwapSlots={settings.enableHandDrag ? handleHandSwap : undefined}
+            />
+          )}
         </div>
       </div>
     </>
   );
 }
 
+// Clock shown under the title in timed mode
+function TimedClock({
+  elapsedMs,
+  showUnlockTarget,
+  isPaused,
+}: {
+  elapsedMs: number;
+  showUnlockTarget: boolean;
+  isPaused: boolean;
+}) {
+  const isOverTarget = elapsedMs >= CHALLENGER_UNLOCK_TIME_MS;
+
+  return (
+    <p
+      className={cn(
+        "text-sm font-mono tabular-nums mt-0.5",
+        isPaused ? "text-muted-foreground" : "text-foreground",
+        showUnlockTarget && isOverTarget && "text-muted-foreground line-through"
+      )}
+      aria-label="Time"
+      title={
+        showUnlockTarget
+          ? `Finish under ${formatClock(CHALLENGER_UNLOCK_TIME_MS)} to unlock Challenger`
+          : undefined
+      }
+    >
+      <ClockIcon className="inline w-3.5 h-3.5 mr-1 -mt-0.5" />
+      {formatClock(elapsedMs)}
+      {showUnlockTarget && (
+        <span className="text-xs text-muted-foreground">
+          {" "}
+          / {formatClock(CHALLENGER_UNLOCK_TIME_MS)}
+        </span>
+      )}
+    </p>
+  );
+}
+
+// Reachable range shown under the equation while arranging
+interface ReachableRangeIndicatorProps {
+  range: ReachableRange | null;
+  error: string | null;
+  needsDusk: boolean;
+  needsDawn: boolean;
+}
+
+function ReachableRangeIndicator({
+  range,
+  error,
+  needsDusk,
+  needsDawn,
+}: ReachableRangeIndicatorProps) {
+  if (error) {
+    return (
+      <div className="text-xs text-muted-foreground min-h-[16px]">
+        Reachable: couldn&apos;t work it out ({error})
+      </div>
+    );
+  }
+
+  if (!range) {
+    return (
+      <div className="text-xs text-muted-foreground min-h-[16px]">
+        Reachable: …
+      </div>
+    );
+  }
+
+  if (range.min === null || range.max === null) {
+    return (
+      <div className="text-xs font-medium text-red-600 dark:text-red-400 min-h-[16px]">
+        No valid answer can be reached from here
+      </div>
+    );
+  }
+
+  // Warn only about targets the player still has to find
+  const isDeadEnd =
+    (needsDusk || needsDawn) &&
+    !(needsDusk && range.canReachDusk) &&
+    !(needsDawn && range.canReachDawn);
+
+  return (
+    <div className="flex flex-col items-center text-xs min-h-[16px]">
+      <span className="text-muted-foreground">
+        Reachable:{" "}
+        <span className="font-semibold tabular-nums text-foreground">
+          {range.min === range.max ? range.min : `${range.min} … ${range.max}`}
+        </span>
+      </span>
+      {isDeadEnd && (
+        <span className="font-medium text-red-600 dark:text-red-400">
+          {needsDusk && needsDawn
+            ? "Neither dusk nor dawn can be reached from here"
+            : `${needsDusk ? "Dusk" : "Dawn"} can't be reached from here`}
+        </span>
+      )}
+    </div>
+  );
+}
+
 // Compact controls component for the new layout
 interface GameControlsCompactProps {
   onSubmit: () => void;
@@ -1056,7 +1423,7 @@ function HistoryDrawer({
 }
 
 // Icons
-function BackIcon({ className }: { className?: string }) {
+function ClockIcon({ className }: { className?: string }) {
   return (
     <svg
       className={className}
@@ -1067,7 +1434,8 @@ function BackIcon({ className }: { className?: string }) {
       strokeLinecap="round"
       strokeLinejoin="round"
     >
-      <path d="M19 12H5M12 19l-7-7 7-7" />
+      <circle cx="12" cy="12" r="9" />
+      <path d="M12 7v5l3 2" />
     </svg>
   );
 }
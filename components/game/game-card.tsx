@@ -5,6 +5,7 @@ import { CSS } from "@dnd-kit/utilities";
 import type { Card } from "@/lib/types/game";
 import { OPERATOR_DISPLAY } from "@/lib/game/constants";
 import { cn } from "@/lib/utils";
+import { OPERATOR_COLORS } from "./operator-colors";
 
 export interface GameCardProps {
   card: Card;
@@ -100,18 +101,7 @@ export function GameCard({
           "cursor-pointer hover:scale-105 hover:shadow-xl",
         onClick && effectiveDraggable && !effectiveDisabled && "cursor-pointer",
         // Operator-based coloring (override for hinted cards)
-        !isHinted &&
-          card.operator === "+" &&
-          "border-emerald-500 dark:border-emerald-400",
-        !isHinted &&
-          card.operator === "-" &&
-          "border-rose-500 dark:border-rose-400",
-        !isHinted &&
-          card.operator === "*" &&
-          "border-violet-500 dark:border-violet-400",
-        !isHinted &&
-          card.operator === "÷" &&
-          "border-amber-500 dark:border-amber-400",
+        !isHinted && OPERATOR_COLORS[card.operator].border,
         // Hint theme styling (overrides operator coloring)
         isHinted &&
           hintTheme === "dusk" &&
@@ -151,18 +141,7 @@ export function GameCard({
           // Muted on first card since operator is ignored in evaluation
           isFirst ? "text-muted-foreground/40" : "text-foreground",
           // Normal operator colors (unless hinted)
-          !isHinted &&
-            card.operator === "+" &&
-            "text-emerald-600 dark:text-emerald-400",
-          !isHinted &&
-            card.operator === "-" &&
-            "text-rose-600 dark:text-rose-400",
-          !isHinted &&
-            card.operator === "*" &&
-            "text-violet-600 dark:text-violet-400",
-          !isHinted &&
-            card.operator === "÷" &&
-            "text-amber-600 dark:text-amber-400",
+          !isHinted && OPERATOR_COLORS[card.operator].text,
           // Hinted card operator color follows theme
           isHinted && hintTheme === "dusk" && "text-sky-600 dark:text-sky-400",
           isHinted &&
@@ -207,21 +186,13 @@ export function StaticCard({
         "rounded-lg border-2 shadow-sm",
         "bg-card text-card-foreground",
         // Operator-based coloring
-        card.operator === "+" &&
-          "border-emerald-500/50 dark:border-emerald-400/50",
-        card.operator === "-" && "border-rose-500/50 dark:border-rose-400/50",
-        card.operator === "*" &&
-          "border-violet-500/50 dark:border-violet-400/50",
-        card.operator === "÷" && "border-amber-500/50 dark:border-amber-400/50"
+        OPERATOR_COLORS[card.operator].mutedBorder
       )}
     >
       <div
         className={cn(
           "text-sm font-semibold leading-none",
-          card.operator === "+" && "text-emerald-600 dark:text-emerald-400",
-          card.operator === "-" && "text-rose-600 dark:text-rose-400",
-          card.operator === "*" && "text-violet-600 dark:text-violet-400",
-          card.operator === "÷" && "text-amber-600 dark:text-amber-400",
+          OPERATOR_COLORS[card.operator].text,
           isFirst && "opacity-50"
         )}
       >
@@ -0,0 +1,151 @@
+"use client";
+
+import type { Transaction, TransactionReason } from "@/lib/types/game";
+import {
+  FREE_HINTS_PER_DAY,
+  GEMS_PER_ACCEPTED_SUBMISSION,
+  GEMS_PER_STREAK_MILESTONE,
+  STREAK_MILESTONE_INTERVAL,
+} from "@/lib/game/constants";
+import { GEM_COSTS } from "@/lib/game/gems";
+import { useGemLedger } from "@/lib/hooks/use-gem-ledger";
+import { cn } from "@/lib/utils";
+import { BackIcon } from "./back-icon";
+
+export interface GemHistoryProps {
+  /** Leave the gem history */
+  onBack: () => void;
+}
+
+const REASON_LABELS: Record<TransactionReason, string> = {
+  streak_milestone: "Streak milestone",
+  puzzle_submission: "Puzzle accepted",
+  purchase: "Purchase",
+  hint: "Hint",
+  skin: "Skin",
+  streak_save: "Streak save",
+};
+
+/**
+ * The gem balance and every transaction in the ledger, newest first
+ */
+export function GemHistory({ onBack }: GemHistoryProps) {
+  const { transactions, balance } = useGemLedger();
+  const newestFirst = [...transactions].reverse();
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-border">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <BackIcon className="w-4 h-4" />
+          <span>Back</span>
+        </button>
+        <h1 className="text-xl font-semibold">Gems</h1>
+        <div className="w-16" /> {/* Spacer for centering */}
+      </div>
+
+      <div className="flex flex-col gap-6 w-full max-w-md mx-auto p-4">
+        {/* Balance */}
+        <div className="flex flex-col items-center gap-1 p-6 rounded-xl border border-border bg-muted/30">
+          <span className="text-4xl font-bold tabular-nums">💎 {balance}</span>
+          <span className="text-sm text-muted-foreground">Balance</span>
+        </div>
+
+        {/* Rates */}
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <div className="flex flex-col gap-1">
+            <div className="text-xs font-semibold uppercase text-muted-foreground tracking-wider">
+              Earn
+            </div>
+            <div>
+              Every {STREAK_MILESTONE_INTERVAL} day streak: +
+              {GEMS_PER_STREAK_MILESTONE}
+            </div>
+            <div>Accepted puzzle: +{GEMS_PER_ACCEPTED_SUBMISSION}</div>
+          </div>
+          <div className="flex flex-col gap-1">
+            <div className="text-xs font-semibold uppercase text-muted-foreground tracking-wider">
+              Spend
+            </div>
+            <div>Streak save: {GEM_COSTS.streak_save}</div>
+            <div>
+              Hint: {GEM_COSTS.hint} ({FREE_HINTS_PER_DAY} free a day)
+            </div>
+            <div>Skin: {GEM_COSTS.skin}</div>
+          </div>
+        </div>
+
+        {/* Transactions */}
+        <div className="flex flex-col gap-2">
+          <h2 className="text-lg font-semibold">History</h2>
+          {newestFirst.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No gems yet. Keep a daily streak going to earn your first.
+            </p>
+          ) : (
+            <ul className="flex flex-col divide-y divide-border rounded-xl border border-border">
+              {newestFirst.map((transaction) => (
+                <TransactionRow key={transaction.id} transaction={transaction} />
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function TransactionRow({ transaction }: { transaction: Transaction }) {
+  const isEarn = transaction.type === "earn";
+  const detail = describeMetadata(transaction);
+
+  return (
+    <li className="flex items-center justify-between gap-3 p-3">
+      <div className="flex flex-col min-w-0">
+        <span className="text-sm font-medium">
+          {REASON_LABELS[transaction.reason]}
+        </span>
+        <span className="text-xs text-muted-foreground truncate">
+          {new Date(transaction.createdAt).toLocaleDateString(undefined, {
+            month: "short",
+            day: "numeric",
+            year: "numeric",
+          })}
+          {detail && ` · ${detail}`}
+        </span>
+      </div>
+      <span
+        className={cn(
+          "font-mono font-semibold tabular-nums",
+          isEarn
+            ? "text-emerald-600 dark:text-emerald-400"
+            : "text-muted-foreground"
+        )}
+      >
+        {isEarn ? "+" : "−"}
+        {transaction.amount}
+      </span>
+    </li>
+  );
+}
+
+/**
+ * Summarize what a transaction was for, from its metadata
+ */
+function describeMetadata(transaction: Transaction): string | null {
+  const { metadata } = transaction;
+  if (typeof metadata?.streakDays === "number") {
+    return `${metadata.streakDays} day streak`;
+  }
+  if (typeof metadata?.signature === "string") {
+    return metadata.signature;
+  }
+  if (transaction.reason === "hint" && transaction.amount === 0) {
+    return "Free";
+  }
+  return null;
+}
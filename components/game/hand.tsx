@@ -4,6 +4,7 @@ import type { Card, Slot } from "@/lib/types/game";
 import { OPERATOR_DISPLAY } from "@/lib/game/constants";
 import { cn } from "@/lib/utils";
 import { SlotGrid } from "./slot-grid";
+import { OPERATOR_COLORS } from "./operator-colors";
 
 export interface HandProps {
   /** Cards available in hand */
@@ -147,10 +148,7 @@ function HandCard({
         isHand && "w-12 h-15 sm:w-14 sm:h-18",
         !isSmall && !isHand && "w-14 h-18 sm:w-16 sm:h-20",
         // Operator-based coloring
-        card.operator === "+" && "border-emerald-500 dark:border-emerald-400",
-        card.operator === "-" && "border-rose-500 dark:border-rose-400",
-        card.operator === "*" && "border-violet-500 dark:border-violet-400",
-        card.operator === "÷" && "border-amber-500 dark:border-amber-400",
+        OPERATOR_COLORS[card.operator].border,
         // Disabled state
         disabled && "opacity-50 cursor-not-allowed hover:scale-100"
       )}
@@ -162,10 +160,7 @@ function HandCard({
           isSmall && "text-lg sm:text-xl",
           isHand && "text-base sm:text-lg",
           !isSmall && !isHand && "text-lg sm:text-xl",
-          card.operator === "+" && "text-emerald-600 dark:text-emerald-400",
-          card.operator === "-" && "text-rose-600 dark:text-rose-400",
-          card.operator === "*" && "text-violet-600 dark:text-violet-400",
-          card.operator === "÷" && "text-amber-600 dark:text-amber-400"
+          OPERATOR_COLORS[card.operator].text
         )}
       >
         {operatorSymbol}
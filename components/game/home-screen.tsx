@@ -1,29 +1,84 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import type { Difficulty } from "@/lib/types/game";
-import { DIFFICULTY_CONFIG } from "@/lib/game/constants";
+import Link from "next/link";
+import type {
+  CustomDifficultyConfig,
+  Difficulty,
+  UserProfile,
+} from "@/lib/types/game";
+import {
+  DAILY_DIFFICULTIES,
+  DIFFICULTIES,
+  STREAK_SAVE_COST,
+} from "@/lib/game/constants";
+import {
+  DEFAULT_CUSTOM_DIFFICULTY,
+  decodeCustomDifficulty,
+  encodeCustomDifficulty,
+  findCustomDifficultyProblems,
+  getDifficultyConfig,
+} from "@/lib/game/custom-difficulty";
+import { getDailyDate } from "@/lib/game/daily";
+import {
+  canSaveStreak,
+  formatStreak,
+  getStreakStatus,
+} from "@/lib/game/streak";
+import { useDailyCompletions } from "@/lib/hooks/use-daily-completions";
+import { useGemLedger } from "@/lib/hooks/use-gem-ledger";
+import { useUserProfile } from "@/lib/hooks/use-user-profile";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import { CustomDifficultyBuilder } from "./custom-difficulty-builder";
+import { CHALLENGER_LOCKED_HINT } from "./difficulty-selector";
 
 export interface HomeScreenProps {
   /** Callback when difficulty is selected and player starts */
-  onStart: (difficulty: Difficulty) => void;
+  onStart: (
+    difficulty: Difficulty,
+    customDifficulty?: CustomDifficultyConfig,
+    timed?: boolean
+  ) => void;
   /** Callback to open puzzle history */
   onHistory?: () => void;
+  /** Callback to open the puzzle creator */
+  onCreate?: () => void;
+  /** Callback to open the gem history */
+  onGems?: () => void;
+  /** Callback to open the stats screen */
+  onStats?: () => void;
+  /** Callback to open multiplayer rooms */
+  onMultiplayer?: () => void;
 }
 
-const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard", "challenger"];
 const LAST_DIFFICULTY_KEY = "zero-rush.lastDifficulty";
+const CUSTOM_DIFFICULTY_KEY = "zero-rush.customDifficulty";
+const TIMED_MODE_KEY = "zero-rush.timedMode";
 
-export function HomeScreen({ onStart, onHistory }: HomeScreenProps) {
+export function HomeScreen({
+  onStart,
+  onHistory,
+  onCreate,
+  onGems,
+  onStats,
+  onMultiplayer,
+}: HomeScreenProps) {
   const [state, setState] = useState<{
     selectedDifficulty: Difficulty | null;
+    customDifficulty: CustomDifficultyConfig;
+    timed: boolean;
     isHydrated: boolean;
   }>({
     selectedDifficulty: null,
+    customDifficulty: DEFAULT_CUSTOM_DIFFICULTY,
+    timed: false,
     isHydrated: false,
   });
+  const { profile, saveStreak } = useUserProfile();
+  const { balance: gemBalance, spend: spendGems } = useGemLedger();
+  // The profile lives in localStorage - treat Challenger as locked until hydrated
+  const challengerUnlocked = state.isHydrated && profile.challengerUnlocked;
 
   // Hydrate saved difficulty from localStorage after mount
   useEffect(() => {
@@ -33,16 +88,24 @@ export function HomeScreen({ onStart, onHistory }: HomeScreenProps) {
     const isValid =
       stored &&
       DIFFICULTIES.includes(stored as Difficulty) &&
-      stored !== "challenger";
+      (stored !== "challenger" || profile.challengerUnlocked);
+    const storedCustom = decodeCustomDifficulty(
+      localStorage.getItem(CUSTOM_DIFFICULTY_KEY) ?? ""
+    );
     
     // eslint-disable-next-line react-hooks/set-state-in-effect
     setState({
       selectedDifficulty: isValid ? (stored as Difficulty) : "medium",
+      customDifficulty: storedCustom ?? DEFAULT_CUSTOM_DIFFICULTY,
+      timed: localStorage.getItem(TIMED_MODE_KEY) === "true",
       isHydrated: true,
     });
-  }, [state.isHydrated]);
+  }, [state.isHydrated, profile.challengerUnlocked]);
 
-  const { selectedDifficulty, isHydrated } = state;
+  const { selectedDifficulty, customDifficulty, timed, isHydrated } = state;
+  const canStart =
+    selectedDifficulty !== "custom" ||
+    findCustomDifficultyProblems(customDifficulty).length === 0;
 
   const setSelectedDifficulty = (difficulty: Difficulty) => {
     setState((prev) => ({
@@ -51,10 +114,41 @@ export function HomeScreen({ onStart, onHistory }: HomeScreenProps) {
     }));
   };
 
+  const setCustomDifficulty = (config: CustomDifficultyConfig) => {
+    setState((prev) => ({
+      ...prev,
+      customDifficulty: config,
+    }));
+  };
+
+  const setTimed = (value: boolean) => {
+    setState((prev) => ({
+      ...prev,
+      timed: value,
+    }));
+  };
+
+  const handleSaveStreak = () => {
+    if (!canSaveStreak(profile, gemBalance)) return;
+    // Only charge for a save that went through
+    if (saveStreak()) {
+      spendGems("streak_save", { streakDays: profile.currentStreak });
+    }
+  };
+
   const handleStart = () => {
     const difficulty = selectedDifficulty || "medium";
     localStorage.setItem(LAST_DIFFICULTY_KEY, difficulty);
-    onStart(difficulty);
+    localStorage.setItem(TIMED_MODE_KEY, String(timed));
+    if (difficulty === "custom") {
+      localStorage.setItem(
+        CUSTOM_DIFFICULTY_KEY,
+        encodeCustomDifficulty(customDifficulty)
+      );
+      onStart(difficulty, customDifficulty, timed);
+    } else {
+      onStart(difficulty, undefined, timed);
+    }
   };
 
   return (
@@ -75,30 +169,32 @@ export function HomeScreen({ onStart, onHistory }: HomeScreenProps) {
 
         <div className="grid grid-cols-2 gap-3 w-full">
           {DIFFICULTIES.map((diff) => {
-            const config = DIFFICULTY_CONFIG[diff];
+            const config = getDifficultyConfig(diff, customDifficulty);
             const isSelected = selectedDifficulty === diff;
-            const isChallenger = diff === "challenger";
+            const isLocked = diff === "challenger" && !challengerUnlocked;
 
             return (
               <button
                 key={diff}
                 onClick={() => setSelectedDifficulty(diff)}
-                disabled={isChallenger}
+                disabled={isLocked}
+                title={isLocked ? CHALLENGER_LOCKED_HINT : undefined}
                 className={cn(
                   "flex flex-col items-start gap-1 p-4 rounded-xl border-2 transition-all",
                   "text-left relative overflow-hidden",
+                  diff === "custom" && "col-span-2",
                   isSelected &&
-                    !isChallenger &&
+                    !isLocked &&
                     "border-primary bg-primary/10 shadow-md",
                   !isSelected &&
-                    !isChallenger &&
+                    !isLocked &&
                     "border-border hover:border-primary/50 hover:bg-muted/50",
-                  isChallenger &&
+                  isLocked &&
                     "opacity-50 cursor-not-allowed border-border bg-muted/30"
                 )}
               >
                 {/* Subtle loading shimmer */}
-                {!isHydrated && !isChallenger && (
+                {!isHydrated && !isLocked && (
                   <div className="absolute inset-0 -translate-x-full animate-shimmer bg-gradient-to-r from-transparent via-white/5 to-transparent" />
                 )}
                 
@@ -106,12 +202,12 @@ export function HomeScreen({ onStart, onHistory }: HomeScreenProps) {
                   <span
                     className={cn(
                       "font-bold capitalize",
-                      isSelected && !isChallenger && "text-primary"
+                      isSelected && !isLocked && "text-primary"
                     )}
                   >
                     {diff}
                   </span>
-                  {isChallenger && (
+                  {isLocked && (
                     <span className="text-xs bg-muted px-1.5 py-0.5 rounded">
                       Locked
                     </span>
@@ -121,18 +217,36 @@ export function HomeScreen({ onStart, onHistory }: HomeScreenProps) {
                   {config.cards} cards
                 </span>
                 <span className="text-xs text-muted-foreground">
-                  {config.description}
+                  {isLocked ? CHALLENGER_LOCKED_HINT : config.description}
                 </span>
               </button>
             );
           })}
         </div>
+
+        {selectedDifficulty === "custom" && (
+          <CustomDifficultyBuilder
+            value={customDifficulty}
+            onChange={setCustomDifficulty}
+          />
+        )}
+
+        <TimedModeToggle checked={timed} onChange={setTimed} />
       </div>
 
+      {/* Daily puzzles */}
+      <DailyEntry
+        isHydrated={isHydrated}
+        profile={profile}
+        gemBalance={gemBalance}
+        onSaveStreak={handleSaveStreak}
+      />
+
       {/* Start Button */}
       <div className="flex flex-col items-center gap-3">
         <Button
           onClick={handleStart}
+          disabled={!canStart}
           size="lg"
           className="min-w-[200px] text-lg h-14"
         >
@@ -149,6 +263,54 @@ export function HomeScreen({ onStart, onHistory }: HomeScreenProps) {
             <span>Puzzle History</span>
           </Button>
         )}
+
+        {onCreate && (
+          <Button
+            variant="outline"
+            onClick={onCreate}
+            className="flex items-center gap-2"
+          >
+            <CreateIcon className="w-4 h-4" />
+            <span>Create Puzzle</span>
+          </Button>
+        )}
+
+        {onMultiplayer && (
+          <Button
+            variant="outline"
+            onClick={onMultiplayer}
+            className="flex items-center gap-2"
+          >
+            <MultiplayerIcon className="w-4 h-4" />
+            <span>Multiplayer</span>
+          </Button>
+        )}
+
+        {onStats && (
+          <Button
+            variant="outline"
+            onClick={onStats}
+            className="flex items-center gap-2"
+          >
+            <StatsIcon className="w-4 h-4" />
+            <span>Stats</span>
+          </Button>
+        )}
+
+        {onGems && (
+          <Button
+            variant="ghost"
+            onClick={onGems}
+            className="flex items-center gap-2"
+          >
+            <span>💎</span>
+            {/* The ledger lives in localStorage - wait for hydration */}
+            <span className="tabular-nums">
+              {isHydrated ? gemBalance : "–"}
+            </span>
+            <span className="text-muted-foreground">Gems</span>
+          </Button>
+        )}
       </div>
 
       {/* Quick info */}
@@ -175,6 +337,186 @@ export function HomeScreen({ onStart, onHistory }: HomeScreenProps) {
   );
 }
 
+/**
+ * Switch for playing against the clock (needed to unlock Challenger)
+ */
+function TimedModeToggle({
+  checked,
+  onChange,
+}: {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-4 w-full p-4 rounded-xl border border-border">
+      <div>
+        <div className="text-sm font-medium">Timed mode</div>
+        <div className="text-xs text-muted-foreground">
+          Show a clock while you play. It pauses when you switch tabs.
+        </div>
+      </div>
+      <button
+        role="switch"
+        aria-checked={checked}
+        aria-label="Timed mode"
+        onClick={() => onChange(!checked)}
+        className={cn(
+          "relative inline-flex h-6 w-11 shrink-0 items-center rounded-full transition-colors",
+          checked ? "bg-primary" : "bg-muted"
+        )}
+      >
+        <span
+          className={cn(
+            "inline-block h-4 w-4 transform rounded-full bg-white transition-transform",
+            checked ? "translate-x-6" : "translate-x-1"
+          )}
+        />
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Links to today's daily puzzles, with a check once each is completed
+ */
+function DailyEntry({
+  isHydrated,
+  profile,
+  gemBalance,
+  onSaveStreak,
+}: {
+  isHydrated: boolean;
+  profile: UserProfile;
+  gemBalance: number;
+  onSaveStreak: () => void;
+}) {
+  const { getCompletion } = useDailyCompletions();
+  const today = getDailyDate();
+
+  return (
+    <div className="flex flex-col items-center gap-3 w-full max-w-md">
+      <div className="flex items-baseline justify-between w-full">
+        <h2 className="text-lg font-semibold">Daily</h2>
+        <span className="text-xs text-muted-foreground">
+          New puzzles at midnight GMT
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 w-full">
+        {DAILY_DIFFICULTIES.map((diff) => {
+          // Completions live in localStorage - wait for hydration to show them
+          const completion = isHydrated ? getCompletion(today, diff) : undefined;
+          const isCompleted = completion?.completed ?? false;
+
+          return (
+            <Link
+              key={diff}
+              href={`/daily/${today}/${diff}`}
+              className={cn(
+                "flex items-center justify-center gap-1.5 p-3 rounded-xl border-2 transition-all",
+                isCompleted
+                  ? "border-emerald-500/50 bg-emerald-500/10 text-emerald-600 dark:text-emerald-400"
+                  : "border-border hover:border-primary/50 hover:bg-muted/50"
+              )}
+            >
+              <span className="font-bold capitalize">{diff}</span>
+              {isCompleted && <CheckIcon className="w-4 h-4" />}
+            </Link>
+          );
+        })}
+      </div>
+
+      {/* The streak lives in localStorage - wait for hydration to show it */}
+      {isHydrated && (
+        <StreakStatusLine
+          profile={profile}
+          gemBalance={gemBalance}
+          onSave={onSaveStreak}
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * The daily streak, with the save offer after exactly one missed day (D021)
+ */
+function StreakStatusLine({
+  profile,
+  gemBalance,
+  onSave,
+}: {
+  profile: UserProfile;
+  gemBalance: number;
+  onSave: () => void;
+}) {
+  const status = getStreakStatus(profile);
+  const best = profile.longestStreak;
+
+  switch (status.state) {
+    case "none":
+      return (
+        <p className="text-sm text-muted-foreground">
+          Complete a daily puzzle to start a streak
+        </p>
+      );
+    case "done":
+    case "pending":
+      return (
+        <p className="text-sm text-center">
+          <span className="font-medium">{formatStreak(status)}</span>
+          <span className="text-muted-foreground">
+            {status.state === "pending"
+              ? " · Play today to keep it going"
+              : ` · Best ${best}`}
+          </span>
+        </p>
+      );
+    case "saveable": {
+      const canAfford = gemBalance >= STREAK_SAVE_COST;
+      return (
+        <div className="flex flex-col items-center gap-2 w-full p-3 rounded-xl border border-amber-500/40 bg-amber-500/10 text-center">
+          <p className="text-sm">
+            You missed yesterday. Save your{" "}
+            <span className="font-medium">{status.days} day streak</span>?
+          </p>
+          <Button size="sm" onClick={onSave} disabled={!canAfford}>
+            Save for {STREAK_SAVE_COST} 💎
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            {canAfford
+              ? "Saves are shown next to your streak"
+              : `You have ${gemBalance} 💎`}
+          </p>
+        </div>
+      );
+    }
+    case "lost":
+      return (
+        <p className="text-sm text-center text-muted-foreground">
+          Your {status.days} day streak ended (best {best}). Start a new one
+          today!
+        </p>
+      );
+  }
+}
+
+function CheckIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M20 6 9 17l-5-5" />
+    </svg>
+  );
+}
+
 function HistoryIcon({ className }: { className?: string }) {
   return (
     <svg
@@ -191,3 +533,55 @@ function HistoryIcon({ className }: { className?: string }) {
     </svg>
   );
 }
+
+function StatsIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M3 3v18h18" />
+      <path d="M7 16v-4M12 16V8M17 16v-7" />
+    </svg>
+  );
+}
+
+function MultiplayerIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2" />
+      <circle cx="9" cy="7" r="4" />
+      <path d="M22 21v-2a4 4 0 0 0-3-3.87M16 3.13a4 4 0 0 1 0 7.75" />
+    </svg>
+  );
+}
+
+function CreateIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M12 20h9" />
+      <path d="M16.5 3.5a2.12 2.12 0 0 1 3 3L7 19l-4 1 1-4Z" />
+    </svg>
+  );
+}
@@ -3,6 +3,7 @@ export { GameCard, StaticCard } from "./game-card";
 export { CardSlot } from "./card-slot";
 export { TargetDisplay } from "./target-display";
 export { DifficultySelector } from "./difficulty-selector";
+export { CustomDifficultyBuilder } from "./custom-difficulty-builder";
 export { GameControls } from "./game-controls";
 export { SettingsDialog } from "./settings-dialog";
 export { Hand } from "./hand";
@@ -11,6 +12,15 @@ export { HomeScreen } from "./home-screen";
 export { VictoryModal, VictoryBanner } from "./victory-modal";
 export { PuzzleHistory } from "./puzzle-history";
 export { PuzzleHistoryItem } from "./puzzle-history-item";
+export { PuzzleEditor } from "./puzzle-editor";
+export { PackPlayer } from "./pack-player";
+export { GemHistory } from "./gem-history";
+export { StatsScreen } from "./stats-screen";
+export { MultiplayerLobby } from "./multiplayer-lobby";
+export { MultiplayerRoom, RoomSettings } from "./multiplayer-room";
 export { SharedPuzzleGame } from "./shared-puzzle-game";
+export { DailyPuzzleGame } from "./daily-puzzle-game";
 export { RevealPopover } from "./reveal-popover";
+export { SolutionExplorer } from "./solution-explorer";
+export { DirectionalHintPopover } from "./directional-hint-popover";
 export { SlotGrid } from "./slot-grid";
@@ -0,0 +1,226 @@
+"use client";
+
+import { useState } from "react";
+import type { RoomConfig } from "@/lib/types/game";
+import { DEFAULT_ROOM_CONFIG } from "@/lib/game/constants";
+import { ROOM_PLAYER_NAME_MAX } from "@/lib/game/room";
+import { useMultiplayerRoom } from "@/lib/hooks/use-multiplayer-room";
+import { useUserProfile } from "@/lib/hooks/use-user-profile";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { BackIcon } from "./back-icon";
+import { MultiplayerRoom, RoomSettings } from "./multiplayer-room";
+
+export interface MultiplayerLobbyProps {
+  /** Leave multiplayer */
+  onBack: () => void;
+}
+
+/**
+ * Multiplayer: create or join a room, then play it
+ *
+ * Rooms live on the room server (`npm run rooms` during development); this
+ * screen holds the connection for as long as it's open.
+ */
+export function MultiplayerLobby({ onBack }: MultiplayerLobbyProps) {
+  const {
+    status,
+    room,
+    playerId,
+    publicRooms,
+    error,
+    timeLeftMs,
+    listRooms,
+    createRoom,
+    joinRoom,
+    configure,
+    start,
+    submit,
+    rematch,
+    leave,
+    clearError,
+  } = useMultiplayerRoom();
+  const { profile, updateProfile } = useUserProfile();
+  const [name, setName] = useState(profile.displayName);
+  const [code, setCode] = useState("");
+  const [config, setConfig] = useState<RoomConfig>(DEFAULT_ROOM_CONFIG);
+
+  const isConnected = status === "open";
+  const trimmedName = name.trim();
+
+  const rememberName = () => {
+    if (trimmedName && trimmedName !== profile.displayName) {
+      updateProfile((prev) => ({ ...prev, displayName: trimmedName }));
+    }
+  };
+
+  const handleCreate = () => {
+    rememberName();
+    clearError();
+    createRoom(trimmedName, config);
+  };
+
+  const handleJoin = (roomCode: string) => {
+    rememberName();
+    clearError();
+    joinRoom(roomCode, trimmedName);
+  };
+
+  const inRoom = room !== null && playerId !== null;
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-border">
+        <button
+          onClick={inRoom ? leave : onBack}
+          className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <BackIcon className="w-4 h-4" />
+          <span>{inRoom ? "Leave" : "Back"}</span>
+        </button>
+        <h1 className="text-xl font-semibold">Multiplayer</h1>
+        <div className="w-16" /> {/* Spacer for centering */}
+      </div>
+
+      <div className="flex flex-col gap-6 w-full max-w-md mx-auto p-4">
+        {status !== "open" && (
+          <div className="p-3 rounded-xl border border-border bg-muted/30 text-sm text-center text-muted-foreground">
+            {status === "connecting"
+              ? "Connecting to the room server…"
+              : "Can't reach the room server - retrying. Start one with npm run rooms."}
+          </div>
+        )}
+
+        {error && (
+          <button
+            onClick={clearError}
+            className="p-3 rounded-xl border border-destructive/40 bg-destructive/10 text-sm text-destructive text-left"
+          >
+            {error}
+          </button>
+        )}
+
+        {inRoom ? (
+          <MultiplayerRoom
+            room={room}
+            playerId={playerId}
+            timeLeftMs={timeLeftMs}
+            onConfigure={configure}
+            onStart={start}
+            onSubmit={submit}
+            onRematch={rematch}
+          />
+        ) : (
+          <>
+            {/* Name */}
+            <div className="flex flex-col gap-2">
+              <label
+                htmlFor="player-name"
+                className="text-xs font-semibold uppercase text-muted-foreground tracking-wider"
+              >
+                Your name
+              </label>
+              <Input
+                id="player-name"
+                value={name}
+                maxLength={ROOM_PLAYER_NAME_MAX}
+                onChange={(event) => setName(event.target.value)}
+              />
+            </div>
+
+            {/* Join */}
+            <div className="flex flex-col gap-2">
+              <h2 className="text-xs font-semibold uppercase text-muted-foreground tracking-wider">
+                Join a room
+              </h2>
+              <div className="flex gap-2">
+                <Input
+                  value={code}
+                  placeholder="Room code"
+                  className="font-mono uppercase"
+                  onChange={(event) => setCode(event.target.value)}
+                />
+                <Button
+                  onClick={() => handleJoin(code)}
+                  disabled={!isConnected || !trimmedName || !code.trim()}
+                >
+                  Join
+                </Button>
+              </div>
+            </div>
+
+            {/* Public rooms */}
+            <div className="flex flex-col gap-2">
+              <div className="flex items-center justify-between">
+                <h2 className="text-xs font-semibold uppercase text-muted-foreground tracking-wider">
+                  Public rooms
+                </h2>
+                <button
+                  onClick={listRooms}
+                  disabled={!isConnected}
+                  className="text-xs text-muted-foreground hover:text-foreground disabled:opacity-50"
+                >
+                  Refresh
+                </button>
+              </div>
+              {publicRooms.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No public rooms right now.
+                </p>
+              ) : (
+                <ul className="flex flex-col divide-y divide-border rounded-xl border border-border">
+                  {publicRooms.map((summary) => (
+                    <li
+                      key={summary.code}
+                      className="flex items-center justify-between gap-3 p-3"
+                    >
+                      <div className="flex flex-col min-w-0">
+                        <span className="text-sm font-medium truncate">
+                          {summary.hostName}&apos;s room
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          {summary.players}/{summary.config.maxPlayers} players
+                          · {summary.config.handSize} cards ·{" "}
+                          {summary.config.timeLimitMinutes} min ·{" "}
+                          {summary.config.maxRounds} rounds
+                        </span>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleJoin(summary.code)}
+                        disabled={!isConnected || !trimmedName}
+                      >
+                        Join
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Create */}
+            <div className="flex flex-col gap-3">
+              <h2 className="text-xs font-semibold uppercase text-muted-foreground tracking-wider">
+                Create a room
+              </h2>
+              <RoomSettings
+                config={config}
+                onChange={(changes) => setConfig({ ...config, ...changes })}
+              />
+              <Button
+                onClick={handleCreate}
+                disabled={!isConnected || !trimmedName}
+                size="lg"
+                className="h-12"
+              >
+                Create Room
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
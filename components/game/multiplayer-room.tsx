@@ -0,0 +1,680 @@
+"use client";
+
+import { useState } from "react";
+import type { Card, RoomConfig } from "@/lib/types/game";
+import {
+  MULTIPLAYER_HAND_SIZES,
+  MULTIPLAYER_MAX_PLAYERS,
+  MULTIPLAYER_MIN_PLAYERS,
+  MULTIPLAYER_ROUND_OPTIONS,
+  MULTIPLAYER_TIME_LIMITS,
+} from "@/lib/game/constants";
+import { evaluate, isValidResult } from "@/lib/game/evaluate";
+import { formatClock } from "@/lib/game/profile";
+import type { RoomPlayerView, RoomView } from "@/lib/game/room";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { StaticCard } from "./game-card";
+import { Hand } from "./hand";
+
+export interface MultiplayerRoomProps {
+  /** The room as the server last sent it */
+  room: RoomView;
+  /** This player's ID */
+  playerId: string;
+  /** Time left in the current phase */
+  timeLeftMs: number | null;
+  onConfigure: (config: Partial<RoomConfig>) => void;
+  onStart: () => void;
+  onSubmit: (duskArrangement?: Card[], dawnArrangement?: Card[]) => void;
+  onRematch: () => void;
+}
+
+/**
+ * One multiplayer room, from the waiting room to the final results
+ *
+ * Everything shown comes from the server's RoomView; the only local state
+ * is the arrangement being built during a round.
+ */
+export function MultiplayerRoom({
+  room,
+  playerId,
+  timeLeftMs,
+  onConfigure,
+  onStart,
+  onSubmit,
+  onRematch,
+}: MultiplayerRoomProps) {
+  const isHost = room.hostId === playerId;
+  const round = room.round;
+
+  if (room.state === "waiting" || !round) {
+    const connected = room.players.filter((player) => player.connected).length;
+    return (
+      <div className="flex flex-col gap-6">
+        <div className="flex flex-col items-center gap-1">
+          <span className="text-xs text-muted-foreground uppercase tracking-wider">
+            Room code
+          </span>
+          <span className="text-4xl font-mono font-bold tracking-[0.3em]">
+            {room.code}
+          </span>
+        </div>
+
+        <Section title={`Players (${room.players.length}/${room.config.maxPlayers})`}>
+          <PlayerList players={room.players} />
+        </Section>
+
+        <Section title="Settings">
+          <RoomSettings
+            config={room.config}
+            onChange={onConfigure}
+            disabled={!isHost}
+          />
+        </Section>
+
+        {isHost ? (
+          <Button
+            onClick={onStart}
+            disabled={connected < MULTIPLAYER_MIN_PLAYERS}
+            size="lg"
+            className="h-12"
+          >
+            {connected < MULTIPLAYER_MIN_PLAYERS
+              ? "Waiting for players…"
+              : "Start Game"}
+          </Button>
+        ) : (
+          <p className="text-center text-sm text-muted-foreground">
+            Waiting for the host to start…
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const roundLabel = `Round ${round.number} of ${room.config.maxRounds}`;
+
+  if (room.state === "starting") {
+    return (
+      <div className="flex flex-col items-center gap-4 py-16">
+        <span className="text-sm text-muted-foreground">{roundLabel}</span>
+        <span className="text-7xl font-bold tabular-nums">
+          {Math.max(1, Math.ceil((timeLeftMs ?? 0) / 1000))}
+        </span>
+        <span className="text-sm text-muted-foreground">Dealing cards…</span>
+      </div>
+    );
+  }
+
+  if (room.state === "thinking" && round.hand) {
+    const ownSubmission = round.submissions.find(
+      (submission) => submission.playerId === playerId
+    );
+    const waitingOn = room.players.filter(
+      (player) => player.connected && !player.submitted
+    ).length;
+
+    return (
+      <div className="flex flex-col gap-6">
+        <PhaseHeader label={roundLabel} timeLeftMs={timeLeftMs} />
+        {ownSubmission ? (
+          <div className="flex flex-col items-center gap-3 p-6 rounded-xl border border-border bg-muted/30 text-center">
+            <span className="font-semibold">Answers locked in</span>
+            <div className="flex gap-6 text-sm">
+              <AnswerValue label="Dusk" arrangement={ownSubmission.duskArrangement} />
+              <AnswerValue label="Dawn" arrangement={ownSubmission.dawnArrangement} />
+            </div>
+            <span className="text-sm text-muted-foreground">
+              Waiting for {waitingOn} more player{waitingOn === 1 ? "" : "s"}…
+            </span>
+          </div>
+        ) : (
+          <RoundBuilder
+            key={round.number}
+            hand={round.hand}
+            onSubmit={onSubmit}
+          />
+        )}
+        <Section title="Players">
+          <PlayerList players={room.players} showSubmitted />
+        </Section>
+      </div>
+    );
+  }
+
+  if (room.state === "reveal" && round.targets) {
+    const { targets } = round;
+    return (
+      <div className="flex flex-col gap-6">
+        <PhaseHeader label={`${roundLabel} · Reveal`} timeLeftMs={timeLeftMs} />
+        <div className="grid grid-cols-2 gap-3">
+          <TargetAnswer
+            label="Dusk"
+            value={targets.dusk}
+            arrangement={targets.duskArrangement}
+            className="text-sky-600 dark:text-sky-400"
+          />
+          <TargetAnswer
+            label="Dawn"
+            value={targets.dawn}
+            arrangement={targets.dawnArrangement}
+            className="text-amber-600 dark:text-amber-400"
+          />
+        </div>
+        <Section title="Answers">
+          <ul className="flex flex-col divide-y divide-border rounded-xl border border-border">
+            {room.players.map((player) => {
+              const submission = round.submissions.find(
+                (s) => s.playerId === player.id
+              );
+              const score = round.scores.find((s) => s.playerId === player.id);
+              return (
+                <li
+                  key={player.id}
+                  className="flex items-center justify-between gap-3 p-3 text-sm"
+                >
+                  <span className="font-medium truncate">{player.name}</span>
+                  <div className="flex items-center gap-4 tabular-nums">
+                    <RevealedAnswer
+                      arrangement={submission?.duskArrangement}
+                      found={score?.foundDusk ?? false}
+                    />
+                    <RevealedAnswer
+                      arrangement={submission?.dawnArrangement}
+                      found={score?.foundDawn ?? false}
+                    />
+                    <span className="w-8 text-right font-semibold">
+                      +{score?.points ?? 0}
+                    </span>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </Section>
+      </div>
+    );
+  }
+
+  // Scoring and finished both show the standings
+  const isFinished = room.state === "finished";
+  const standings = [...room.players].sort((a, b) => b.points - a.points);
+  const leaders = standings.filter(
+    (player) => player.points === standings[0]?.points
+  );
+
+  return (
+    <div className="flex flex-col gap-6">
+      {isFinished ? (
+        <div className="flex flex-col items-center gap-1 py-4">
+          <span className="text-4xl">🏆</span>
+          <span className="text-xl font-semibold">
+            {leaders.length === 1
+              ? `${leaders[0].name} wins!`
+              : "It's a tie!"}
+          </span>
+        </div>
+      ) : (
+        <PhaseHeader
+          label={
+            round.number < room.config.maxRounds
+              ? `${roundLabel} · Next round in`
+              : `${roundLabel} · Final results in`
+          }
+          timeLeftMs={timeLeftMs}
+        />
+      )}
+
+      <Section title={isFinished ? "Final standings" : "Standings"}>
+        <ol className="flex flex-col divide-y divide-border rounded-xl border border-border">
+          {standings.map((player, index) => {
+            const roundPoints =
+              round.scores.find((score) => score.playerId === player.id)
+                ?.points ?? 0;
+            return (
+              <li
+                key={player.id}
+                className={cn(
+                  "flex items-center gap-3 p-3 text-sm",
+                  player.id === playerId && "bg-primary/5"
+                )}
+              >
+                <span className="w-5 text-muted-foreground tabular-nums">
+                  {index + 1}
+                </span>
+                <span className="flex-1 font-medium truncate">
+                  {player.name}
+                  {!player.connected && (
+                    <span className="text-muted-foreground font-normal">
+                      {" "}
+                      (left)
+                    </span>
+                  )}
+                </span>
+                {!isFinished && (
+                  <span className="text-muted-foreground tabular-nums">
+                    +{roundPoints}
+                  </span>
+                )}
+                <span className="w-10 text-right font-bold tabular-nums">
+                  {player.points}
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+      </Section>
+
+      {isFinished &&
+        (isHost ? (
+          <Button onClick={onRematch} size="lg" className="h-12">
+            Play Again
+          </Button>
+        ) : (
+          <p className="text-center text-sm text-muted-foreground">
+            Waiting for the host to start a rematch…
+          </p>
+        ))}
+    </div>
+  );
+}
+
+/**
+ * Pickers for every room setting
+ */
+export function RoomSettings({
+  config,
+  onChange,
+  disabled = false,
+}: {
+  config: RoomConfig;
+  onChange: (config: Partial<RoomConfig>) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex flex-col gap-3">
+      <SettingRow label="Cards">
+        <OptionChips
+          options={MULTIPLAYER_HAND_SIZES}
+          value={config.handSize}
+          onChange={(handSize) => onChange({ handSize })}
+          disabled={disabled}
+        />
+      </SettingRow>
+      <SettingRow label="Minutes">
+        <OptionChips
+          options={MULTIPLAYER_TIME_LIMITS}
+          value={config.timeLimitMinutes}
+          onChange={(timeLimitMinutes) => onChange({ timeLimitMinutes })}
+          disabled={disabled}
+        />
+      </SettingRow>
+      <SettingRow label="Rounds">
+        <OptionChips
+          options={MULTIPLAYER_ROUND_OPTIONS}
+          value={config.maxRounds}
+          onChange={(maxRounds) => onChange({ maxRounds })}
+          disabled={disabled}
+        />
+      </SettingRow>
+      <SettingRow label="Players">
+        <OptionChips
+          options={MULTIPLAYER_MAX_PLAYERS}
+          value={config.maxPlayers}
+          onChange={(maxPlayers) => onChange({ maxPlayers })}
+          disabled={disabled}
+        />
+      </SettingRow>
+      <SettingRow label="Zero">
+        <OptionChips
+          options={["guaranteed", "open"] as const}
+          value={config.zeroMode}
+          onChange={(zeroMode) => onChange({ zeroMode })}
+          disabled={disabled}
+        />
+      </SettingRow>
+      <SettingRow label="Room">
+        <OptionChips
+          options={["private", "public"] as const}
+          value={config.visibility}
+          onChange={(visibility) => onChange({ visibility })}
+          disabled={disabled}
+        />
+      </SettingRow>
+    </div>
+  );
+}
+
+/**
+ * Build dusk and dawn arrangements from the round's hand, then lock them in
+ */
+function RoundBuilder({
+  hand,
+  onSubmit,
+}: {
+  hand: Card[];
+  onSubmit: (duskArrangement?: Card[], dawnArrangement?: Card[]) => void;
+}) {
+  // Hand positions, in the order they were placed
+  const [placed, setPlaced] = useState<number[]>([]);
+  const [dusk, setDusk] = useState<Card[] | null>(null);
+  const [dawn, setDawn] = useState<Card[] | null>(null);
+
+  const arrangement = placed.map((index) => hand[index]);
+  const remaining = hand.filter((_, index) => !placed.includes(index));
+  const result = evaluate(arrangement);
+  const isComplete = placed.length === hand.length;
+  const isValid = isComplete && isValidResult(result);
+
+  const handleCardTap = (card: Card) => {
+    const index = hand.findIndex(
+      (c, i) =>
+        !placed.includes(i) &&
+        c.operator === card.operator &&
+        c.value === card.value
+    );
+    if (index !== -1) setPlaced([...placed, index]);
+  };
+
+  const keep = (setTarget: (cards: Card[]) => void) => {
+    setTarget(arrangement);
+    setPlaced([]);
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      {/* Arrangement being built */}
+      <div className="flex flex-col items-center gap-2 p-4 min-h-[100px] rounded-2xl border-2 border-dashed border-border">
+        {arrangement.length === 0 ? (
+          <span className="text-sm text-muted-foreground my-auto">
+            Tap cards to arrange them
+          </span>
+        ) : (
+          <>
+            <div className="flex flex-wrap justify-center gap-1.5">
+              {arrangement.map((card, position) => (
+                <button
+                  key={`${placed[position]}`}
+                  onClick={() =>
+                    setPlaced(placed.filter((_, i) => i !== position))
+                  }
+                  aria-label="Remove card"
+                >
+                  <StaticCard card={card} isFirst={position === 0} />
+                </button>
+              ))}
+            </div>
+            <span
+              className={cn(
+                "text-lg font-semibold tabular-nums",
+                isComplete && !isValid && "text-destructive"
+              )}
+            >
+              = {Number.isFinite(result.answer) ? result.answer : "?"}
+            </span>
+          </>
+        )}
+      </div>
+
+      <Hand cards={remaining} onCardTap={handleCardTap} size="small" />
+
+      <div className="grid grid-cols-3 gap-2">
+        <Button variant="outline" disabled={!isValid} onClick={() => keep(setDusk)}>
+          Use as dusk
+        </Button>
+        <Button
+          variant="outline"
+          disabled={placed.length === 0}
+          onClick={() => setPlaced([])}
+        >
+          Clear
+        </Button>
+        <Button variant="outline" disabled={!isValid} onClick={() => keep(setDawn)}>
+          Use as dawn
+        </Button>
+      </div>
+
+      {/* Kept answers */}
+      <div className="grid grid-cols-2 gap-3">
+        <KeptAnswer label="Dusk" arrangement={dusk} onClear={() => setDusk(null)} />
+        <KeptAnswer label="Dawn" arrangement={dawn} onClear={() => setDawn(null)} />
+      </div>
+
+      <Button
+        size="lg"
+        className="h-12"
+        disabled={!dusk && !dawn}
+        onClick={() => onSubmit(dusk ?? undefined, dawn ?? undefined)}
+      >
+        Lock In Answers
+      </Button>
+    </div>
+  );
+}
+
+function KeptAnswer({
+  label,
+  arrangement,
+  onClear,
+}: {
+  label: string;
+  arrangement: Card[] | null;
+  onClear: () => void;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-2 p-3 rounded-xl border border-border bg-muted/30">
+      <div className="flex flex-col">
+        <span className="text-xs text-muted-foreground">{label}</span>
+        <span className="text-xl font-bold tabular-nums">
+          {arrangement ? evaluate(arrangement).answer : "–"}
+        </span>
+      </div>
+      {arrangement && (
+        <button
+          onClick={onClear}
+          className="text-xs text-muted-foreground hover:text-foreground"
+        >
+          Clear
+        </button>
+      )}
+    </div>
+  );
+}
+
+function PhaseHeader({
+  label,
+  timeLeftMs,
+}: {
+  label: string;
+  timeLeftMs: number | null;
+}) {
+  return (
+    <div className="flex items-center justify-between">
+      <span className="text-sm text-muted-foreground">{label}</span>
+      {timeLeftMs !== null && (
+        <span className="font-mono text-lg font-semibold tabular-nums">
+          {formatClock(Math.ceil(timeLeftMs / 1000) * 1000)}
+        </span>
+      )}
+    </div>
+  );
+}
+
+function PlayerList({
+  players,
+  showSubmitted = false,
+}: {
+  players: RoomPlayerView[];
+  showSubmitted?: boolean;
+}) {
+  return (
+    <ul className="flex flex-col divide-y divide-border rounded-xl border border-border">
+      {players.map((player) => (
+        <li
+          key={player.id}
+          className={cn(
+            "flex items-center justify-between gap-3 p-3 text-sm",
+            !player.connected && "text-muted-foreground"
+          )}
+        >
+          <span className="truncate">
+            {player.name}
+            {player.isHost && (
+              <span className="ml-2 text-xs text-muted-foreground">host</span>
+            )}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            {!player.connected
+              ? "disconnected"
+              : showSubmitted
+                ? player.submitted
+                  ? "✓ locked in"
+                  : "thinking…"
+                : ""}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function AnswerValue({
+  label,
+  arrangement,
+}: {
+  label: string;
+  arrangement?: Card[];
+}) {
+  return (
+    <span>
+      <span className="text-muted-foreground">{label}: </span>
+      <span className="font-semibold tabular-nums">
+        {arrangement ? evaluate(arrangement).answer : "–"}
+      </span>
+    </span>
+  );
+}
+
+function TargetAnswer({
+  label,
+  value,
+  arrangement,
+  className,
+}: {
+  label: string;
+  value: number;
+  arrangement: Card[];
+  className: string;
+}) {
+  return (
+    <div className="flex flex-col items-center gap-2 p-3 rounded-xl border border-border bg-muted/30">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <span className={cn("text-3xl font-bold tabular-nums", className)}>
+        {value}
+      </span>
+      <div className="flex flex-wrap justify-center gap-1 scale-90">
+        {arrangement.map((card, position) => (
+          <StaticCard
+            key={`${card.operator}${card.value}-${position}`}
+            card={card}
+            isFirst={position === 0}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function RevealedAnswer({
+  arrangement,
+  found,
+}: {
+  arrangement?: Card[];
+  found: boolean;
+}) {
+  if (!arrangement) {
+    return <span className="w-12 text-right text-muted-foreground">–</span>;
+  }
+  return (
+    <span
+      className={cn(
+        "w-12 text-right",
+        found
+          ? "text-emerald-600 dark:text-emerald-400"
+          : "text-muted-foreground line-through"
+      )}
+    >
+      {evaluate(arrangement).answer}
+      {found ? " ✓" : ""}
+    </span>
+  );
+}
+
+function Section({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="flex flex-col gap-2">
+      <h2 className="text-xs font-semibold uppercase text-muted-foreground tracking-wider">
+        {title}
+      </h2>
+      {children}
+    </div>
+  );
+}
+
+function SettingRow({
+  label,
+  children,
+}: {
+  label: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="flex items-start gap-3">
+      <span className="w-16 shrink-0 pt-1 text-sm text-muted-foreground">
+        {label}
+      </span>
+      {children}
+    </div>
+  );
+}
+
+function OptionChips<T extends string | number>({
+  options,
+  value,
+  onChange,
+  disabled,
+}: {
+  options: readonly T[];
+  value: T;
+  onChange: (value: T) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {options.map((option) => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          disabled={disabled}
+          className={cn(
+            "min-w-8 px-2.5 py-1 rounded-full border text-sm capitalize tabular-nums transition-colors",
+            option === value
+              ? "border-primary bg-primary/10 text-primary"
+              : "border-border text-muted-foreground hover:bg-muted/50",
+            disabled && option !== value && "opacity-40 pointer-events-none",
+            disabled && option === value && "pointer-events-none"
+          )}
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  );
+}
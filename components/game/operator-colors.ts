@@ -0,0 +1,62 @@
+import type { Operator } from "@/lib/types/game";
+
+/** Tailwind classes for one operator's card accents */
+export interface OperatorColorClasses {
+  /** Full-strength card border */
+  border: string;
+  /** Border for static (display-only) cards */
+  mutedBorder: string;
+  /** Border for the tiny submission-history chips */
+  faintBorder: string;
+  /** Operator glyph color */
+  text: string;
+}
+
+/**
+ * Card colors for every operator.
+ * Class names are spelled out in full so Tailwind can find them.
+ */
+export const OPERATOR_COLORS: Record<Operator, OperatorColorClasses> = {
+  "+": {
+    border: "border-emerald-500 dark:border-emerald-400",
+    mutedBorder: "border-emerald-500/50 dark:border-emerald-400/50",
+    faintBorder: "border-emerald-500/30",
+    text: "text-emerald-600 dark:text-emerald-400",
+  },
+  "-": {
+    border: "border-rose-500 dark:border-rose-400",
+    mutedBorder: "border-rose-500/50 dark:border-rose-400/50",
+    faintBorder: "border-rose-500/30",
+    text: "text-rose-600 dark:text-rose-400",
+  },
+  "*": {
+    border: "border-violet-500 dark:border-violet-400",
+    mutedBorder: "border-violet-500/50 dark:border-violet-400/50",
+    faintBorder: "border-violet-500/30",
+    text: "text-violet-600 dark:text-violet-400",
+  },
+  "÷": {
+    border: "border-amber-500 dark:border-amber-400",
+    mutedBorder: "border-amber-500/50 dark:border-amber-400/50",
+    faintBorder: "border-amber-500/30",
+    text: "text-amber-600 dark:text-amber-400",
+  },
+  "^": {
+    border: "border-fuchsia-500 dark:border-fuchsia-400",
+    mutedBorder: "border-fuchsia-500/50 dark:border-fuchsia-400/50",
+    faintBorder: "border-fuchsia-500/30",
+    text: "text-fuchsia-600 dark:text-fuchsia-400",
+  },
+  "%": {
+    border: "border-teal-500 dark:border-teal-400",
+    mutedBorder: "border-teal-500/50 dark:border-teal-400/50",
+    faintBorder: "border-teal-500/30",
+    text: "text-teal-600 dark:text-teal-400",
+  },
+  "&": {
+    border: "border-indigo-500 dark:border-indigo-400",
+    mutedBorder: "border-indigo-500/50 dark:border-indigo-400/50",
+    faintBorder: "border-indigo-500/30",
+    text: "text-indigo-600 dark:text-indigo-400",
+  },
+};
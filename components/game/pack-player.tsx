@@ -0,0 +1,159 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import type { PuzzlePack } from "@/lib/game/pack";
+import { toCanonicalSignature } from "@/lib/game/signature";
+import { usePackProgress } from "@/lib/hooks/use-pack-progress";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { BackIcon } from "./back-icon";
+import { GameBoard, type GameCompletionSummary } from "./game-board";
+
+export interface PackPlayerProps {
+  /** The imported pack */
+  pack: PuzzlePack;
+  /** Leave the pack */
+  onBack: () => void;
+}
+
+/**
+ * Plays a puzzle pack in order, remembering which puzzles are completed
+ */
+export function PackPlayer({ pack, onBack }: PackPlayerProps) {
+  const [playingIndex, setPlayingIndex] = useState<number | null>(null);
+  const { completed, markCompleted } = usePackProgress(pack.id);
+
+  const total = pack.puzzles.length;
+  const nextIndex = pack.puzzles.findIndex((_, i) => !completed.includes(i));
+  const playing = playingIndex === null ? null : pack.puzzles[playingIndex];
+
+  const handleComplete = useCallback(
+    (summary: GameCompletionSummary) => {
+      // "New" deals a random puzzle - only the pack's cards count
+      if (playingIndex === null) return;
+      const { signature } = pack.puzzles[playingIndex];
+      if (toCanonicalSignature(summary.cards) !== signature) return;
+      markCompleted(playingIndex);
+    },
+    [pack, playingIndex, markCompleted]
+  );
+
+  if (playing && playingIndex !== null) {
+    return (
+      <GameBoard
+        key={playingIndex}
+        difficulty={playing.difficulty}
+        onBack={() => setPlayingIndex(null)}
+        providedCards={playing.cards}
+        puzzleSource="shared"
+        subtitle={`${pack.title} · Puzzle ${playingIndex + 1} of ${total}`}
+        onComplete={handleComplete}
+        rules={playing.rules}
+        customDifficulty={playing.customDifficulty}
+      />
+    );
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-border">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <BackIcon className="w-4 h-4" />
+          <span>Back</span>
+        </button>
+        <h1 className="text-xl font-semibold truncate px-2">{pack.title}</h1>
+        <div className="w-16" /> {/* Spacer for centering */}
+      </div>
+
+      <div className="flex flex-col gap-4 w-full max-w-md mx-auto p-4">
+        {/* Progress */}
+        <div className="flex flex-col gap-2">
+          <div className="flex items-baseline justify-between text-sm">
+            <span className="text-muted-foreground">
+              {pack.author ? `by ${pack.author}` : "Puzzle pack"}
+            </span>
+            <span className="tabular-nums">
+              {completed.length} / {total} complete
+            </span>
+          </div>
+          <div className="h-2 rounded-full bg-muted overflow-hidden">
+            <div
+              className="h-full bg-emerald-500 transition-all"
+              style={{ width: `${(completed.length / total) * 100}%` }}
+            />
+          </div>
+        </div>
+
+        {nextIndex === -1 ? (
+          <p className="text-center text-sm font-medium text-emerald-600 dark:text-emerald-400">
+            Pack complete!
+          </p>
+        ) : (
+          <Button size="lg" onClick={() => setPlayingIndex(nextIndex)}>
+            {completed.length === 0 ? "Start" : "Continue"}: Puzzle{" "}
+            {nextIndex + 1}
+          </Button>
+        )}
+
+        {/* Puzzle list */}
+        <ol className="flex flex-col gap-2">
+          {pack.puzzles.map((puzzle, index) => {
+            const isCompleted = completed.includes(index);
+            return (
+              <li key={index}>
+                <button
+                  onClick={() => setPlayingIndex(index)}
+                  className={cn(
+                    "flex items-center gap-3 w-full p-3 rounded-xl border text-left transition-colors",
+                    isCompleted
+                      ? "border-emerald-500/50 bg-emerald-500/10"
+                      : "border-border hover:bg-muted/50",
+                    index === nextIndex && "ring-1 ring-primary/60"
+                  )}
+                >
+                  <span className="w-6 text-sm text-muted-foreground tabular-nums">
+                    {index + 1}
+                  </span>
+                  <span className="flex-1 text-sm">
+                    <span className="font-medium capitalize">
+                      {puzzle.difficulty}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {" "}
+                      · {puzzle.cards.length} cards
+                    </span>
+                  </span>
+                  {isCompleted && (
+                    <CheckIcon className="w-4 h-4 text-emerald-600 dark:text-emerald-400" />
+                  )}
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+    </div>
+  );
+}
+
+// Icons
+
+function CheckIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M20 6 9 17l-5-5" />
+    </svg>
+  );
+}
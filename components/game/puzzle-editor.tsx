@@ -0,0 +1,411 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type {
+  Card,
+  CustomDifficultyConfig,
+  Difficulty,
+  Operator,
+  PuzzleQuality,
+  PuzzleResult,
+} from "@/lib/types/game";
+import { getPuzzleQuality } from "@/lib/types/game";
+import { DEFAULT_RULE_SET, OPERATOR_DISPLAY } from "@/lib/game/constants";
+import {
+  CUSTOM_CARD_COUNT,
+  CUSTOM_RANGE_LIMITS,
+  getDifficultyForCards,
+} from "@/lib/game/custom-difficulty";
+import { OPERATOR_DEFINITIONS } from "@/lib/game/operators";
+import { getPuzzleWarnings } from "@/lib/game/warnings";
+import type { PuzzleWarningSeverity } from "@/lib/game/warnings";
+import { analyzePuzzleAsync, isAbortError } from "@/lib/puzzle-worker";
+import { getShareUrl } from "@/lib/puzzle-url";
+import {
+  createHistoryEntry,
+  usePuzzleHistory,
+} from "@/lib/hooks/use-puzzle-history";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { BackIcon } from "./back-icon";
+import { StaticCard } from "./game-card";
+import { OPERATOR_COLORS } from "./operator-colors";
+
+export interface PuzzleEditorProps {
+  /** Return to the home screen */
+  onBack: () => void;
+  /** Play the hand as built */
+  onPlay: (
+    cards: Card[],
+    difficulty: Difficulty,
+    customDifficulty?: CustomDifficultyConfig
+  ) => void;
+}
+
+/** Operators the editor offers, with the values each may take */
+const EDITOR_OPERATORS = OPERATOR_DEFINITIONS.flatMap(({ symbol, display }) => {
+  const limit = CUSTOM_RANGE_LIMITS[symbol];
+  if (!limit) return [];
+  const values = Array.from(
+    { length: limit.max - limit.min + 1 },
+    (_, i) => limit.min + i
+  );
+  return [{ symbol, display, values }];
+});
+
+/** Wait after the last change before analyzing (each analysis restarts the worker) */
+const ANALYSIS_DELAY_MS = 250;
+
+const QUALITY_LABELS: Record<PuzzleQuality, string> = {
+  perfect: "Perfect",
+  hasZero: "Zero dusk",
+  isGood: "Unique dawn",
+  playable: "Playable",
+  invalid: "Unplayable",
+};
+
+const SEVERITY_STYLES: Record<PuzzleWarningSeverity, string> = {
+  error: "border-red-500/30 bg-red-500/5 text-red-600 dark:text-red-400",
+  warning:
+    "border-amber-500/30 bg-amber-500/5 text-amber-700 dark:text-amber-400",
+  info: "border-border bg-muted/30 text-muted-foreground",
+};
+
+export function PuzzleEditor({ onBack, onPlay }: PuzzleEditorProps) {
+  const [cards, setCards] = useState<Card[]>([]);
+  const [operator, setOperator] = useState<Operator>(
+    EDITOR_OPERATORS[0].symbol
+  );
+  // Analysis of the hand it was computed for (stale once the hand changes)
+  const [analysis, setAnalysis] = useState<{
+    cards: Card[];
+    puzzleResult: PuzzleResult;
+  } | null>(null);
+  // Why analyzing a hand failed, for the hand it failed on
+  const [analysisError, setAnalysisError] = useState<{
+    cards: Card[];
+    message: string;
+  } | null>(null);
+  const [isSaved, setIsSaved] = useState(false);
+  const [isCopied, setIsCopied] = useState(false);
+  const { addEntry } = usePuzzleHistory();
+
+  const isComplete = cards.length >= CUSTOM_CARD_COUNT.min;
+  const isFull = cards.length >= CUSTOM_CARD_COUNT.max;
+  const puzzleResult =
+    analysis && analysis.cards === cards ? analysis.puzzleResult : null;
+  const failure =
+    analysisError && analysisError.cards === cards
+      ? analysisError.message
+      : null;
+  const canUse = puzzleResult?.hasValidAnswers ?? false;
+
+  // Analyze the hand whenever it changes
+  useEffect(() => {
+    if (cards.length < CUSTOM_CARD_COUNT.min) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      analyzePuzzleAsync(cards, controller.signal)
+        .then(({ puzzleResult }) => setAnalysis({ cards, puzzleResult }))
+        .catch((error: unknown) => {
+          if (isAbortError(error)) return;
+          setAnalysisError({
+            cards,
+            message: error instanceof Error ? error.message : String(error),
+          });
+        });
+    }, ANALYSIS_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [cards]);
+
+  const updateCards = (next: Card[]) => {
+    setCards(next);
+    setIsSaved(false);
+  };
+
+  const hasCard = (value: number) =>
+    cards.some((card) => card.operator === operator && card.value === value);
+
+  const handleAdd = (value: number) => {
+    if (isFull || hasCard(value)) return;
+    updateCards([...cards, { operator, value }]);
+  };
+
+  const handleRemove = (index: number) => {
+    updateCards(cards.filter((_, i) => i !== index));
+  };
+
+  const handlePlay = () => {
+    const { difficulty, customDifficulty } = getDifficultyForCards(cards);
+    onPlay(cards, difficulty, customDifficulty);
+  };
+
+  const handleSave = () => {
+    if (!puzzleResult) return;
+    const { difficulty, customDifficulty } = getDifficultyForCards(cards);
+    addEntry(
+      createHistoryEntry({
+        cards,
+        difficulty,
+        attempts: 0,
+        duskValue: puzzleResult.dusk.result,
+        dawnValue: puzzleResult.dawn.result,
+        foundDusk: false,
+        foundDawn: false,
+        source: "created",
+        rating: puzzleResult.rating,
+        customDifficulty,
+      })
+    );
+    setIsSaved(true);
+  };
+
+  const handleCopyLink = useCallback(async () => {
+    const { difficulty, customDifficulty } = getDifficultyForCards(cards);
+    const url = getShareUrl(cards, difficulty, DEFAULT_RULE_SET, customDifficulty);
+    try {
+      await navigator.clipboard.writeText(url);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch {
+      // Ignore clipboard failures
+    }
+  }, [cards]);
+
+  const selectedOperator = EDITOR_OPERATORS.find(
+    (option) => option.symbol === operator
+  );
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-border">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <BackIcon className="w-4 h-4" />
+          <span>Back</span>
+        </button>
+        <h1 className="text-xl font-semibold">Create Puzzle</h1>
+        <div className="w-16" /> {/* Spacer for centering */}
+      </div>
+
+      <div className="flex flex-col gap-6 w-full max-w-md mx-auto p-4">
+        {/* Hand */}
+        <section className="flex flex-col gap-2">
+          <div className="flex items-baseline justify-between">
+            <h2 className="text-sm font-medium">Hand</h2>
+            <span className="text-xs text-muted-foreground tabular-nums">
+              {cards.length} / {CUSTOM_CARD_COUNT.max} cards
+            </span>
+          </div>
+          <div className="flex flex-wrap gap-1.5 min-h-14 p-2 rounded-xl border border-dashed border-border">
+            {cards.map((card, index) => (
+              <button
+                key={`${card.operator}${card.value}`}
+                onClick={() => handleRemove(index)}
+                aria-label={`Remove ${OPERATOR_DISPLAY[card.operator]}${card.value}`}
+                className="rounded-lg transition-opacity hover:opacity-60"
+              >
+                <StaticCard card={card} />
+              </button>
+            ))}
+            {cards.length === 0 && (
+              <span className="self-center mx-auto text-xs text-muted-foreground">
+                Pick at least {CUSTOM_CARD_COUNT.min} cards below
+              </span>
+            )}
+          </div>
+          {cards.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Tap a card to remove it
+            </p>
+          )}
+        </section>
+
+        {/* Card picker */}
+        <section className="flex flex-col gap-2">
+          <div className="flex gap-1">
+            {EDITOR_OPERATORS.map(({ symbol, display }) => (
+              <button
+                key={symbol}
+                onClick={() => setOperator(symbol)}
+                aria-pressed={operator === symbol}
+                className={cn(
+                  "flex-1 h-9 rounded-md border-2 font-bold transition-colors",
+                  operator === symbol
+                    ? cn(OPERATOR_COLORS[symbol].text, "border-current")
+                    : "border-border text-muted-foreground hover:bg-muted"
+                )}
+              >
+                {display}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-6 gap-1">
+            {selectedOperator?.values.map((value) => {
+              const isTaken = hasCard(value);
+              return (
+                <button
+                  key={value}
+                  onClick={() => handleAdd(value)}
+                  disabled={isFull || isTaken}
+                  className={cn(
+                    "h-9 rounded-md border text-sm tabular-nums transition-colors",
+                    "border-border hover:bg-muted disabled:opacity-40 disabled:hover:bg-transparent",
+                    isTaken && "line-through"
+                  )}
+                >
+                  {selectedOperator.display}
+                  {value}
+                </button>
+              );
+            })}
+          </div>
+        </section>
+
+        {/* Analysis */}
+        {isComplete && (
+          <section className="flex flex-col gap-3">
+            <h2 className="text-sm font-medium">Analysis</h2>
+            {puzzleResult ? (
+              <PuzzleAnalysisSummary puzzleResult={puzzleResult} />
+            ) : failure ? (
+              <p
+                className={cn(
+                  "px-2 py-1.5 rounded-md border text-xs",
+                  SEVERITY_STYLES.error
+                )}
+              >
+                Analysis failed: {failure}
+              </p>
+            ) : (
+              <p className="text-xs text-muted-foreground">Analyzing…</p>
+            )}
+          </section>
+        )}
+
+        {/* Actions */}
+        <div className="flex flex-col gap-2">
+          <Button onClick={handlePlay} disabled={!canUse} size="lg">
+            Play
+          </Button>
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              variant="outline"
+              onClick={handleSave}
+              disabled={!canUse || isSaved}
+            >
+              {isSaved ? "Saved" : "Save to History"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleCopyLink}
+              disabled={!canUse}
+            >
+              {isCopied ? "Copied!" : "Copy Link"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function PuzzleAnalysisSummary({
+  puzzleResult,
+}: {
+  puzzleResult: PuzzleResult;
+}) {
+  const warnings = getPuzzleWarnings(puzzleResult);
+  const quality = getPuzzleQuality(puzzleResult);
+
+  return (
+    <>
+      {puzzleResult.hasValidAnswers && (
+        <div className="grid grid-cols-2 gap-2">
+          <TargetSummary
+            label="Dusk"
+            value={puzzleResult.dusk.result}
+            permutationCount={puzzleResult.dusk.permutationCount}
+            className="border-sky-500/30 bg-sky-500/5 text-sky-600 dark:text-sky-400"
+          />
+          <TargetSummary
+            label="Dawn"
+            value={puzzleResult.dawn.result}
+            permutationCount={puzzleResult.dawn.permutationCount}
+            className="border-amber-500/30 bg-amber-500/5 text-amber-600 dark:text-amber-400"
+          />
+        </div>
+      )}
+
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+        <dt className="text-muted-foreground">Quality</dt>
+        <dd className="text-right font-medium">{QUALITY_LABELS[quality]}</dd>
+        <dt className="text-muted-foreground">Rating</dt>
+        <dd className="text-right tabular-nums">{puzzleResult.rating} / 100</dd>
+        <dt className="text-muted-foreground">Distinct answers</dt>
+        <dd className="text-right tabular-nums">{puzzleResult.uniqueAnswers}</dd>
+        <dt className="text-muted-foreground">Arrangements</dt>
+        <dd className="text-right tabular-nums">
+          {puzzleResult.totalPermutations.toLocaleString()}
+        </dd>
+        <dt className="text-muted-foreground">Invalid arrangements</dt>
+        <dd className="text-right tabular-nums">
+          {puzzleResult.invalidPermutations.toLocaleString()}
+        </dd>
+        <dt className="text-muted-foreground">Undefined arrangements</dt>
+        <dd className="text-right tabular-nums">
+          {puzzleResult.undefinedPermutations.toLocaleString()}
+        </dd>
+      </dl>
+
+      {warnings.length > 0 && (
+        <ul className="flex flex-col gap-1">
+          {warnings.map((warning) => (
+            <li
+              key={warning.id}
+              className={cn(
+                "px-2 py-1.5 rounded-md border text-xs",
+                SEVERITY_STYLES[warning.severity]
+              )}
+            >
+              {warning.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+}
+
+function TargetSummary({
+  label,
+  value,
+  permutationCount,
+  className,
+}: {
+  label: string;
+  value: number;
+  permutationCount: number;
+  className: string;
+}) {
+  return (
+    <div className={cn("flex flex-col p-3 rounded-lg border", className)}>
+      <span className="text-xs font-medium uppercase tracking-wider">
+        {label}
+      </span>
+      <span className="text-2xl font-bold tabular-nums">{value}</span>
+      <span className="text-[10px] text-muted-foreground">
+        {permutationCount}{" "}
+        {permutationCount === 1 ? "arrangement" : "arrangements"}
+      </span>
+    </div>
+  );
+}
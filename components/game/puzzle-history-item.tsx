@@ -65,6 +65,8 @@ export function PuzzleHistoryItem({
       foundDusk: entry.foundDusk,
       foundDawn: entry.foundDawn,
       attempts: entry.attempts,
+      rules: entry.rules,
+      customDifficulty: entry.customDifficulty,
     });
 
     try {
@@ -141,11 +143,29 @@ export function PuzzleHistoryItem({
             <span className="text-xs text-muted-foreground">
               {entry.cards.length} cards
             </span>
+            {entry.rating !== undefined && (
+              <span
+                className="text-xs text-muted-foreground"
+                title="Difficulty rating (0–100)"
+              >
+                Rating {entry.rating}
+              </span>
+            )}
             {entry.source === "shared" && (
               <span className="text-xs px-1.5 py-0.5 rounded bg-primary/10 text-primary">
                 Shared
               </span>
             )}
+            {entry.source === "daily" && (
+              <span className="text-xs px-1.5 py-0.5 rounded bg-primary/10 text-primary">
+                Daily
+              </span>
+            )}
+            {entry.source === "created" && (
+              <span className="text-xs px-1.5 py-0.5 rounded bg-primary/10 text-primary">
+                Created
+              </span>
+            )}
           </div>
           <div className="flex items-center gap-3 mt-1 text-sm">
             {/* Dusk/Dawn values */}
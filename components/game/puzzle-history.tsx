@@ -1,20 +1,40 @@
 "use client";
 
-import { useState, useMemo } from "react";
-import type { PuzzleHistoryEntry, Difficulty } from "@/lib/types/game";
+import { useState, useMemo, useRef } from "react";
+import type {
+  PuzzleHistoryEntry,
+  CustomDifficultyConfig,
+  Difficulty,
+  RuleSet,
+} from "@/lib/types/game";
+import { exportPuzzlePack, type PuzzlePack } from "@/lib/game/pack";
+import { importPuzzlePackAsync } from "@/lib/puzzle-worker";
 import { usePuzzleHistory } from "@/lib/hooks/use-puzzle-history";
+import { BackIcon } from "./back-icon";
 import { PuzzleHistoryItem } from "./puzzle-history-item";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
 
 export interface PuzzleHistoryProps {
   onBack: () => void;
-  onResolve: (cards: PuzzleHistoryEntry["cards"], difficulty: Difficulty) => void;
+  onResolve: (
+    cards: PuzzleHistoryEntry["cards"],
+    difficulty: Difficulty,
+    rules?: RuleSet,
+    customDifficulty?: CustomDifficultyConfig
+  ) => void;
+  /** Play an imported puzzle pack */
+  onPlayPack?: (pack: PuzzlePack) => void;
 }
 
 type Tab = "all" | "favorites";
 
-export function PuzzleHistory({ onBack, onResolve }: PuzzleHistoryProps) {
+export function PuzzleHistory({
+  onBack,
+  onResolve,
+  onPlayPack,
+}: PuzzleHistoryProps) {
   const [activeTab, setActiveTab] = useState<Tab>("all");
   const { entries, favorites, toggleFavorite, deleteEntry, isLoading } =
     usePuzzleHistory();
@@ -25,7 +45,7 @@ export function PuzzleHistory({ onBack, onResolve }: PuzzleHistoryProps) {
   );
 
   const handleResolve = (entry: PuzzleHistoryEntry) => {
-    onResolve(entry.cards, entry.difficulty);
+    onResolve(entry.cards, entry.difficulty, entry.rules, entry.customDifficulty);
   };
 
   return (
@@ -69,6 +89,15 @@ export function PuzzleHistory({ onBack, onResolve }: PuzzleHistoryProps) {
         </button>
       </div>
 
+      {/* Puzzle packs */}
+      {onPlayPack && (
+        <PackTools
+          entries={displayedEntries}
+          defaultTitle={activeTab === "favorites" ? "My favorites" : "My puzzles"}
+          onPlayPack={onPlayPack}
+        />
+      )}
+
       {/* Content */}
       <div className="flex-1 overflow-y-auto p-4">
         {isLoading ? (
@@ -123,23 +152,134 @@ export function PuzzleHistory({ onBack, onResolve }: PuzzleHistoryProps) {
   );
 }
 
-// Icons
-function BackIcon({ className }: { className?: string }) {
+/**
+ * Import a pack file to play, or export the listed puzzles as one
+ */
+function PackTools({
+  entries,
+  defaultTitle,
+  onPlayPack,
+}: {
+  entries: PuzzleHistoryEntry[];
+  defaultTitle: string;
+  onPlayPack: (pack: PuzzlePack) => void;
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [title, setTitle] = useState("");
+  const [author, setAuthor] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+  const [importProblems, setImportProblems] = useState<string[]>([]);
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true);
+    setImportProblems([]);
+    try {
+      const { pack, problems } = await importPuzzlePackAsync(await file.text());
+      if (pack) {
+        onPlayPack(pack);
+      } else {
+        setImportProblems(problems);
+      }
+    } catch {
+      setImportProblems(["the file could not be read"]);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleExport = () => {
+    const packTitle = title.trim() || defaultTitle;
+    const json = exportPuzzlePack(packTitle, author, entries);
+    const url = URL.createObjectURL(
+      new Blob([json], { type: "application/json" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${slugify(packTitle) || "puzzle-pack"}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    setIsExporting(false);
+  };
+
   return (
-    <svg
-      className={className}
-      viewBox="0 0 24 24"
-      fill="none"
-      stroke="currentColor"
-      strokeWidth={2}
-      strokeLinecap="round"
-      strokeLinejoin="round"
-    >
-      <path d="M19 12H5M12 19l-7-7 7-7" />
-    </svg>
+    <div className="flex flex-col gap-2 mx-4 mt-3">
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting}
+        >
+          {isImporting ? "Checking pack…" : "Import pack"}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setIsExporting((prev) => !prev)}
+          disabled={entries.length === 0}
+        >
+          Export pack
+        </Button>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) handleImport(file);
+        }}
+      />
+
+      {importProblems.length > 0 && (
+        <div className="p-3 rounded-lg border border-red-500/30 bg-red-500/5 text-xs text-red-600 dark:text-red-400">
+          <p className="font-medium mb-1">This pack can&apos;t be played:</p>
+          <ul className="space-y-0.5">
+            {importProblems.map((problem) => (
+              <li key={problem} className="first-letter:uppercase">
+                {problem}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {isExporting && (
+        <div className="flex flex-col gap-2 p-3 rounded-lg border border-border bg-muted/20">
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder={defaultTitle}
+            aria-label="Pack title"
+          />
+          <Input
+            value={author}
+            onChange={(e) => setAuthor(e.target.value)}
+            placeholder="Your name"
+            aria-label="Pack author"
+          />
+          <Button size="sm" onClick={handleExport}>
+            Download {entries.length}{" "}
+            {entries.length === 1 ? "puzzle" : "puzzles"}
+          </Button>
+        </div>
+      )}
+    </div>
   );
 }
 
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+// Icons
+
 function StarIcon({ className }: { className?: string }) {
   return (
     <svg
@@ -17,6 +17,10 @@ export interface RevealPopoverProps {
   totalCards: number;
   /** Maximum hints allowed (based on settings) */
   maxHints: number;
+  /** 💎 charged for the next card (0 while today's free hints last) */
+  hintCost: number;
+  /** Whether the gem balance covers the next card */
+  canAffordHint: boolean;
   /** Callback when user confirms reveal of next card */
   onReveal: () => void;
   /** Callback when user wants to resume/switch to this target without revealing more */
@@ -32,6 +36,8 @@ export function RevealPopover({
   revealedCount,
   totalCards,
   maxHints,
+  hintCost,
+  canAffordHint,
   onReveal,
   onResume,
   isActiveTarget,
@@ -44,6 +50,7 @@ export function RevealPopover({
   const isFirstReveal = revealedCount === 0;
   const isAtMax = revealedCount >= maxHints;
   const remainingHints = maxHints - revealedCount;
+  const costLabel = hintCost > 0 ? `${hintCost} 💎` : "free";
   const hasProgressButNotActive = revealedCount > 0 && !isActiveTarget;
 
   const handleReveal = () => {
@@ -111,13 +118,14 @@ export function RevealPopover({
                 <Button
                   size="sm"
                   onClick={handleReveal}
+                  disabled={!canAffordHint}
                   className={cn(
                     isDusk
                       ? "bg-sky-500 hover:bg-sky-600 text-white"
                       : "bg-amber-500 hover:bg-amber-600 text-white"
                   )}
                 >
-                  Reveal
+                  Reveal ({costLabel})
                 </Button>
               </div>
             </div>
@@ -178,10 +186,11 @@ export function RevealPopover({
                       : "bg-amber-500 hover:bg-amber-600 text-white"
                   )}
                   onClick={handleReveal}
+                  disabled={!canAffordHint}
                 >
                   Reveal Next Card
                   <span className="ml-2 text-xs opacity-80">
-                    ({remainingHints} remaining)
+                    ({costLabel}, {remainingHints} remaining)
                   </span>
                 </Button>
               )}
@@ -227,16 +236,23 @@ export function RevealPopover({
                       : "bg-amber-500 hover:bg-amber-600 text-white"
                   )}
                   onClick={handleReveal}
+                  disabled={!canAffordHint}
                 >
                   Reveal Next Card
                   <span className="ml-2 text-xs opacity-80">
-                    ({remainingHints} remaining)
+                    ({costLabel}, {remainingHints} remaining)
                   </span>
                 </Button>
               )}
             </div>
           )}
 
+          {!canAffordHint && !isAtMax && (
+            <p className="text-xs text-muted-foreground text-center">
+              Not enough 💎 for another hint
+            </p>
+          )}
+
           {/* Learn about reveals - collapsible */}
           <div className="border-t pt-3 mt-3">
             <button
@@ -260,6 +276,7 @@ export function RevealPopover({
                 <li className="list-disc">
                   You can reveal up to {maxHints} cards (half of {totalCards})
                 </li>
+                <li className="list-disc">Each card costs {hintCost} 💎</li>
                 <li className="list-disc">
                   Switching between dusk and dawn clears current hints, but your
                   progress is saved
@@ -9,11 +9,14 @@ import { cn } from "@/lib/utils";
 export interface SettingsDialogProps {
   settings: GameSettings;
   onSettingsChange: (settings: GameSettings) => void;
+  /** Whether the difficulty being played allows hints */
+  hintsAvailable?: boolean;
 }
 
 export function SettingsDialog({
   settings,
   onSettingsChange,
+  hintsAvailable = true,
 }: SettingsDialogProps) {
   const [isOpen, setIsOpen] = useState(false);
 
@@ -70,19 +73,28 @@ export function SettingsDialog({
               />
 
               {/* Hint Mode */}
-              <SettingOptionGroup
-                label="Hint Display"
-                description="What hints to show for targets"
-                value={settings.hintMode}
-                options={[
-                  { value: "disabled", label: "Disabled" },
-                  { value: "directions", label: "Directions" },
-                  { value: "reveals", label: "Directions & Reveals" },
-                ]}
-                onChange={(value) =>
-                  onSettingsChange({ ...settings, hintMode: value as HintMode })
-                }
-              />
+              {hintsAvailable ? (
+                <SettingOptionGroup
+                  label="Hint Display"
+                  description="What hints to show for targets"
+                  value={settings.hintMode}
+                  options={[
+                    { value: "disabled", label: "Disabled" },
+                    { value: "directions", label: "Directions" },
+                    { value: "reveals", label: "Directions & Reveals" },
+                  ]}
+                  onChange={(value) =>
+                    onSettingsChange({ ...settings, hintMode: value as HintMode })
+                  }
+                />
+              ) : (
+                <div>
+                  <div className="font-medium">Hint Display</div>
+                  <div className="text-sm text-muted-foreground">
+                    Hints are off for this difficulty
+                  </div>
+                </div>
+              )}
 
               {/* Highlight matches toggle */}
               <SettingToggle
@@ -94,6 +106,16 @@ export function SettingsDialog({
                 }
               />
 
+              {/* Reachable range toggle */}
+              <SettingToggle
+                label="Reachable Range"
+                description="Show which values the cards on the table can still reach"
+                checked={settings.showReachableRange}
+                onChange={(checked) =>
+                  onSettingsChange({ ...settings, showReachableRange: checked })
+                }
+              />
+
               {/* Auto-submit toggle */}
               <SettingToggle
                 label="Auto-Submit"
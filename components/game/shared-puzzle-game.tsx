@@ -2,7 +2,12 @@
 
 import { useCallback } from "react";
 import { useRouter } from "next/navigation";
-import type { Card, Difficulty } from "@/lib/types/game";
+import type {
+  Card,
+  CustomDifficultyConfig,
+  Difficulty,
+  RuleSet,
+} from "@/lib/types/game";
 import { GameBoard } from "./game-board";
 
 export interface SharedPuzzleGameProps {
@@ -11,6 +16,8 @@ export interface SharedPuzzleGameProps {
   signature: string;
   duskValue: number;
   dawnValue: number;
+  rules: RuleSet;
+  customDifficulty?: CustomDifficultyConfig;
 }
 
 /**
@@ -21,6 +28,8 @@ export interface SharedPuzzleGameProps {
 export function SharedPuzzleGame({
   cards,
   difficulty,
+  rules,
+  customDifficulty,
 }: SharedPuzzleGameProps) {
   const router = useRouter();
   // Capture URL directly without setState in effect
@@ -37,6 +46,8 @@ export function SharedPuzzleGame({
       providedCards={cards}
       puzzleSource="shared"
       sharedFromUrl={sharedFromUrl}
+      rules={rules}
+      customDifficulty={customDifficulty}
     />
   );
 }
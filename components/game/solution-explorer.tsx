@@ -0,0 +1,229 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { Card, PuzzleResult, RuleSet, Target } from "@/lib/types/game";
+import type { Submission } from "@/lib/hooks/use-game";
+import { getEvaluationDisplay } from "@/lib/game/evaluate";
+import { getAnswerRank } from "@/lib/game/generate";
+import { cn } from "@/lib/utils";
+import { MiniCard } from "./submission-history";
+
+/** Rows shown before "Show more" (hard puzzles can reach hundreds of values) */
+const PAGE_SIZE = 25;
+
+export interface SolutionExplorerProps {
+  /** Full puzzle analysis (every achievable value) */
+  puzzleResult: PuzzleResult;
+  /** The player's submissions */
+  submissions: Submission[];
+  /** Rule set the puzzle was played under */
+  rules?: RuleSet;
+  /** Lay an arrangement out on the table to study it */
+  onLoadArrangement?: (arrangement: Card[]) => void;
+}
+
+export function SolutionExplorer({
+  puzzleResult,
+  submissions,
+  rules,
+  onLoadArrangement,
+}: SolutionExplorerProps) {
+  const [onlyMine, setOnlyMine] = useState(false);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [expandedValue, setExpandedValue] = useState<number | null>(null);
+
+  const { distribution } = puzzleResult;
+
+  // Ranks (1 = dusk) of every value the player reached with a valid submission
+  const submittedRanks = useMemo(() => {
+    const ranks = new Set<number>();
+    for (const submission of submissions) {
+      if (submission.isInvalid) continue;
+      const rank = getAnswerRank(puzzleResult, submission.result);
+      if (rank !== null) ranks.add(rank);
+    }
+    return Array.from(ranks).sort((a, b) => a - b);
+  }, [submissions, puzzleResult]);
+
+  const rows = useMemo(() => {
+    const ranked = distribution.map((target, index) => ({
+      target,
+      rank: index + 1,
+    }));
+    return onlyMine
+      ? ranked.filter(({ rank }) => submittedRanks.includes(rank))
+      : ranked;
+  }, [distribution, onlyMine, submittedRanks]);
+
+  if (distribution.length === 0) return null;
+
+  const visibleRows = rows.slice(0, visibleCount);
+
+  return (
+    <div className="flex flex-col gap-2">
+      {/* Summary of where the player's answers rank */}
+      <p className="text-xs text-muted-foreground text-center">
+        {distribution.length} possible values
+        {submittedRanks.length > 0 && (
+          <>
+            {" "}
+            · you reached {submittedRanks.length} (rank
+            {submittedRanks.length === 1 ? " " : "s "}
+            {submittedRanks.join(", ")})
+          </>
+        )}
+      </p>
+
+      {/* Filter */}
+      <div className="flex gap-1 p-1 rounded-lg bg-muted">
+        {[
+          { value: false, label: "All values" },
+          { value: true, label: "Your answers" },
+        ].map((option) => (
+          <button
+            key={option.label}
+            onClick={() => {
+              setOnlyMine(option.value);
+              setVisibleCount(PAGE_SIZE);
+            }}
+            className={cn(
+              "flex-1 px-3 py-1 rounded-md text-xs transition-colors",
+              onlyMine === option.value
+                ? "bg-background text-foreground shadow-sm"
+                : "text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Value list */}
+      <div className="flex flex-col gap-1 max-h-[280px] overflow-y-auto pr-1">
+        {visibleRows.map(({ target, rank }) => (
+          <SolutionRow
+            key={target.result}
+            target={target}
+            rank={rank}
+            isDusk={rank === 1}
+            isDawn={rank === distribution.length}
+            isSubmitted={submittedRanks.includes(rank)}
+            isExpanded={expandedValue === target.result}
+            onToggle={() =>
+              setExpandedValue((prev) =>
+                prev === target.result ? null : target.result
+              )
+            }
+            rules={rules}
+            onLoad={
+              onLoadArrangement
+                ? () => onLoadArrangement(target.arrangement)
+                : undefined
+            }
+          />
+        ))}
+        {rows.length === 0 && (
+          <p className="text-xs text-muted-foreground text-center py-2">
+            No valid submissions yet
+          </p>
+        )}
+      </div>
+
+      {rows.length > visibleCount && (
+        <button
+          onClick={() => setVisibleCount((prev) => prev + PAGE_SIZE)}
+          className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+        >
+          Show more ({rows.length - visibleCount} left)
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface SolutionRowProps {
+  target: Target;
+  rank: number;
+  isDusk: boolean;
+  isDawn: boolean;
+  isSubmitted: boolean;
+  isExpanded: boolean;
+  onToggle: () => void;
+  rules?: RuleSet;
+  onLoad?: () => void;
+}
+
+function SolutionRow({
+  target,
+  rank,
+  isDusk,
+  isDawn,
+  isSubmitted,
+  isExpanded,
+  onToggle,
+  rules,
+  onLoad,
+}: SolutionRowProps) {
+  return (
+    <div
+      className={cn(
+        "rounded-md border px-2 py-1.5 text-xs",
+        isDusk && "border-sky-500/30 bg-sky-500/5",
+        isDawn && "border-amber-500/30 bg-amber-500/5",
+        !isDusk && !isDawn && "border-border/50 bg-muted/20",
+        isSubmitted && "ring-1 ring-primary/60"
+      )}
+    >
+      <button
+        onClick={onToggle}
+        className="flex items-center gap-2 w-full text-left"
+      >
+        <span className="w-7 shrink-0 text-muted-foreground tabular-nums">
+          #{rank}
+        </span>
+        <span
+          className={cn(
+            "w-10 shrink-0 font-bold tabular-nums",
+            isDusk && "text-sky-600 dark:text-sky-400",
+            isDawn && "text-amber-600 dark:text-amber-400"
+          )}
+        >
+          {target.result}
+        </span>
+        <span className="flex items-center gap-0.5 flex-wrap flex-1">
+          {target.arrangement.map((card, index) => (
+            <MiniCard key={index} card={card} isFirst={index === 0} />
+          ))}
+        </span>
+        {isSubmitted && (
+          <span className="shrink-0 text-[10px] font-semibold text-primary">
+            YOU
+          </span>
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-2 space-y-2 pl-9">
+          <p className="font-mono text-[11px] text-muted-foreground break-words">
+            {getEvaluationDisplay(target.arrangement, rules)}
+          </p>
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-[10px] text-muted-foreground">
+              {target.permutationCount}{" "}
+              {target.permutationCount === 1 ? "arrangement" : "arrangements"}{" "}
+              reach this value
+            </span>
+            {onLoad && (
+              <button
+                onClick={onLoad}
+                className="px-2 py-1 rounded-md border border-input bg-background hover:bg-accent transition-colors text-[11px] font-medium"
+              >
+                Load on table
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { Difficulty } from "@/lib/types/game";
+import { formatClock } from "@/lib/game/profile";
+import {
+  collectStatsGames,
+  summarizeStats,
+  type StatsFilter,
+  type TargetSuccess,
+} from "@/lib/game/stats";
+import { useGameRecords } from "@/lib/hooks/use-game-records";
+import { usePuzzleHistory } from "@/lib/hooks/use-puzzle-history";
+import { cn } from "@/lib/utils";
+import { BackIcon } from "./back-icon";
+
+export interface StatsScreenProps {
+  /** Leave the stats screen */
+  onBack: () => void;
+}
+
+type DifficultyFilter = Difficulty | "all";
+type RangeFilter = "7d" | "30d" | "90d" | "all";
+
+const DIFFICULTY_FILTERS: DifficultyFilter[] = [
+  "all",
+  "easy",
+  "medium",
+  "hard",
+  "challenger",
+  "custom",
+];
+
+const RANGE_FILTERS: { value: RangeFilter; label: string; days?: number }[] = [
+  { value: "7d", label: "7 days", days: 7 },
+  { value: "30d", label: "30 days", days: 30 },
+  { value: "90d", label: "90 days", days: 90 },
+  { value: "all", label: "All time" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Most recent days shown in the hint usage chart */
+const HINT_CHART_DAYS = 30;
+
+/**
+ * Statistics computed from game records and puzzle history, filterable by
+ * difficulty and date range
+ */
+export function StatsScreen({ onBack }: StatsScreenProps) {
+  const { entries } = usePuzzleHistory();
+  const { records } = useGameRecords();
+  const [difficulty, setDifficulty] = useState<DifficultyFilter>("all");
+  const [range, setRange] = useState<RangeFilter>("all");
+  // Fixed when the screen opens so the range doesn't drift while it's open
+  const [openedAt] = useState(() => Date.now());
+
+  const games = useMemo(
+    () => collectStatsGames(entries, records),
+    [entries, records]
+  );
+
+  const summary = useMemo(() => {
+    const days = RANGE_FILTERS.find((option) => option.value === range)?.days;
+    const filter: StatsFilter = {
+      difficulty: difficulty === "all" ? undefined : difficulty,
+      from: days === undefined ? undefined : openedAt - days * DAY_MS,
+    };
+    const starred = entries.filter(
+      (entry) =>
+        entry.isFavorite &&
+        (filter.difficulty === undefined ||
+          entry.difficulty === filter.difficulty) &&
+        (filter.from === undefined || entry.completedAt >= filter.from)
+    ).length;
+    return summarizeStats(games, filter, starred);
+  }, [games, entries, difficulty, range, openedAt]);
+
+  const { stats, wins, attemptsDistribution, hintUsage, dusk, dawn } = summary;
+  const shownDifficulties = (
+    difficulty === "all" ? DIFFICULTY_FILTERS.slice(1) : [difficulty]
+  ) as Difficulty[];
+  const timedDifficulties = shownDifficulties.filter(
+    (diff) => stats.bestTimes[diff] > 0
+  );
+  const bestTime =
+    timedDifficulties.length === 0
+      ? null
+      : Math.min(...timedDifficulties.map((diff) => stats.bestTimes[diff]));
+  const maxAttemptsCount = Math.max(
+    1,
+    ...attemptsDistribution.map((bucket) => bucket.count)
+  );
+  const recentHintDays = hintUsage.slice(-HINT_CHART_DAYS);
+  const maxHints = Math.max(1, ...recentHintDays.map((day) => day.hints));
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-border">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <BackIcon className="w-4 h-4" />
+          <span>Back</span>
+        </button>
+        <h1 className="text-xl font-semibold">Stats</h1>
+        <div className="w-16" /> {/* Spacer for centering */}
+      </div>
+
+      <div className="flex flex-col gap-6 w-full max-w-md mx-auto p-4">
+        {/* Filters */}
+        <div className="flex flex-col gap-2">
+          <FilterChips
+            options={DIFFICULTY_FILTERS.map((value) => ({
+              value,
+              label: value === "all" ? "All" : value,
+            }))}
+            value={difficulty}
+            onChange={setDifficulty}
+          />
+          <FilterChips
+            options={RANGE_FILTERS}
+            value={range}
+            onChange={setRange}
+          />
+        </div>
+
+        {stats.totalGamesPlayed === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-8">
+            No games match these filters yet.
+          </p>
+        ) : (
+          <>
+            {/* Overview */}
+            <div className="grid grid-cols-2 gap-3">
+              <StatTile label="Games" value={String(stats.totalGamesPlayed)} />
+              <StatTile
+                label="Win rate"
+                value={formatPercent(wins / stats.totalGamesPlayed)}
+              />
+              <StatTile
+                label="Best time"
+                value={bestTime === null ? "–" : formatClock(bestTime)}
+              />
+              <StatTile label="Starred" value={String(stats.puzzlesStarred)} />
+            </div>
+
+            {/* Per difficulty */}
+            <Section title="By difficulty">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-muted-foreground text-right">
+                    <th className="text-left font-medium pb-1">Difficulty</th>
+                    <th className="font-medium pb-1">Games</th>
+                    <th className="font-medium pb-1">Win</th>
+                    <th className="font-medium pb-1">Avg</th>
+                    <th className="font-medium pb-1">Best</th>
+                  </tr>
+                </thead>
+                <tbody className="tabular-nums">
+                  {shownDifficulties
+                    .filter((diff) => stats.gamesPerDifficulty[diff] > 0)
+                    .map((diff) => (
+                      <tr key={diff} className="text-right">
+                        <td className="text-left capitalize py-0.5">{diff}</td>
+                        <td>{stats.gamesPerDifficulty[diff]}</td>
+                        <td>{formatPercent(stats.winRate[diff])}</td>
+                        <td>{formatTime(stats.averageSolveTime[diff])}</td>
+                        <td>{formatTime(stats.bestTimes[diff])}</td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </Section>
+
+            {/* Dusk vs dawn */}
+            <Section title="Dusk vs dawn">
+              <div className="flex flex-col gap-3">
+                <TargetRow label="Dusk" success={dusk} className="bg-sky-500" />
+                <TargetRow
+                  label="Dawn"
+                  success={dawn}
+                  className="bg-amber-500"
+                />
+              </div>
+            </Section>
+
+            {/* Attempts distribution */}
+            <Section title="Attempts to solve">
+              <div className="flex flex-col gap-1">
+                {attemptsDistribution.map((bucket) => (
+                  <div
+                    key={bucket.label}
+                    className="flex items-center gap-2 text-sm"
+                  >
+                    <span className="w-7 text-right text-muted-foreground tabular-nums">
+                      {bucket.label}
+                    </span>
+                    <div className="flex-1">
+                      <div
+                        className="h-5 min-w-6 rounded bg-primary/70 px-1.5 text-xs leading-5 text-primary-foreground text-right tabular-nums"
+                        style={{
+                          width: `${(bucket.count / maxAttemptsCount) * 100}%`,
+                        }}
+                      >
+                        {bucket.count}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </Section>
+
+            {/* Hint usage over time */}
+            <Section title="Hints per day">
+              <div className="flex items-end gap-0.5 h-24">
+                {recentHintDays.map((day) => (
+                  <div
+                    key={day.date}
+                    className="flex-1 rounded-t bg-amber-500/70 min-h-0.5"
+                    style={{ height: `${(day.hints / maxHints) * 100}%` }}
+                    title={`${day.date}: ${day.hints} hint${
+                      day.hints === 1 ? "" : "s"
+                    } in ${day.games} game${day.games === 1 ? "" : "s"}`}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                <span>{recentHintDays[0]?.date}</span>
+                <span>{recentHintDays.at(-1)?.date}</span>
+              </div>
+            </Section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function FilterChips<T extends string>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {options.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={cn(
+            "px-3 py-1 rounded-full border text-sm capitalize transition-colors",
+            option.value === value
+              ? "border-primary bg-primary/10 text-primary"
+              : "border-border text-muted-foreground hover:bg-muted/50"
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function StatTile({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex flex-col items-center gap-0.5 p-3 rounded-xl border border-border bg-muted/30">
+      <span className="text-2xl font-bold tabular-nums">{value}</span>
+      <span className="text-xs text-muted-foreground">{label}</span>
+    </div>
+  );
+}
+
+function Section({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="flex flex-col gap-2">
+      <h2 className="text-xs font-semibold uppercase text-muted-foreground tracking-wider">
+        {title}
+      </h2>
+      {children}
+    </div>
+  );
+}
+
+function TargetRow({
+  label,
+  success,
+  className,
+}: {
+  label: string;
+  success: TargetSuccess;
+  className: string;
+}) {
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-baseline justify-between text-sm">
+        <span className="font-medium">{label}</span>
+        <span className="text-muted-foreground tabular-nums">
+          {success.found}/{success.games} · {formatPercent(success.rate)} ·{" "}
+          {success.hints} hint{success.hints === 1 ? "" : "s"}
+        </span>
+      </div>
+      <div className="h-2 rounded-full bg-muted overflow-hidden">
+        <div
+          className={cn("h-full", className)}
+          style={{ width: `${success.rate * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+function formatPercent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function formatTime(ms: number): string {
+  return ms > 0 ? formatClock(ms) : "–";
+}
@@ -4,7 +4,9 @@ import { useState } from "react";
 import type { Card } from "@/lib/types/game";
 import type { Submission } from "@/lib/hooks/use-game";
 import { OPERATOR_DISPLAY } from "@/lib/game/constants";
+import { describeInvalidReason } from "@/lib/game/evaluate";
 import { cn } from "@/lib/utils";
+import { OPERATOR_COLORS } from "./operator-colors";
 
 export interface SubmissionHistoryProps {
   /** List of submissions (newest first) */
@@ -69,7 +71,8 @@ interface SubmissionEntryProps {
 }
 
 function SubmissionEntry({ submission }: SubmissionEntryProps) {
-  const { arrangement, result, isDusk, isDawn, isInvalid } = submission;
+  const { arrangement, result, isDusk, isDawn, isInvalid, invalidReason } =
+    submission;
   
   // Determine the color coding
   const getColorClass = () => {
@@ -79,36 +82,49 @@ function SubmissionEntry({ submission }: SubmissionEntryProps) {
     return "bg-muted/30 border-transparent";
   };
 
-  // Format result for display
-  const displayResult = Number.isInteger(result) ? result : result.toFixed(2);
+  // Format result for display (NaN means a step had no defined result)
+  const displayResult = Number.isNaN(result)
+    ? "—"
+    : Number.isInteger(result)
+      ? result
+      : result.toFixed(2);
 
   return (
     <div
       className={cn(
-        "flex items-center justify-between gap-1.5 px-2 py-1 rounded border text-xs",
+        "flex flex-col gap-0.5 px-2 py-1 rounded border text-xs",
         getColorClass()
       )}
     >
-      {/* Mini card display */}
-      <div className="flex items-center gap-0.5 flex-wrap">
-        {arrangement.map((card, index) => (
-          <MiniCard key={index} card={card} isFirst={index === 0} />
-        ))}
-      </div>
-      
-      {/* Result */}
-      <div className="flex items-center gap-1 shrink-0">
-        <span className="text-muted-foreground">=</span>
-        <span className={cn(
-          "font-semibold tabular-nums",
-          isInvalid && "text-red-600 dark:text-red-400",
-          isDusk && "text-sky-600 dark:text-sky-400",
-          isDawn && "text-amber-600 dark:text-amber-400",
-          !isInvalid && !isDusk && !isDawn && "text-muted-foreground"
-        )}>
-          {displayResult}
-        </span>
+      <div className="flex items-center justify-between gap-1.5">
+        {/* Mini card display */}
+        <div className="flex items-center gap-0.5 flex-wrap">
+          {arrangement.map((card, index) => (
+            <MiniCard key={index} card={card} isFirst={index === 0} />
+          ))}
+        </div>
+
+        {/* Result */}
+        <div className="flex items-center gap-1 shrink-0">
+          <span className="text-muted-foreground">=</span>
+          <span className={cn(
+            "font-semibold tabular-nums",
+            isInvalid && "text-red-600 dark:text-red-400",
+            isDusk && "text-sky-600 dark:text-sky-400",
+            isDawn && "text-amber-600 dark:text-amber-400",
+            !isInvalid && !isDusk && !isDawn && "text-muted-foreground"
+          )}>
+            {displayResult}
+          </span>
+        </div>
       </div>
+
+      {/* Where an invalid result went wrong */}
+      {invalidReason && (
+        <p className="text-[10px] text-red-600/80 dark:text-red-400/80">
+          {describeInvalidReason(invalidReason)}
+        </p>
+      )}
     </div>
   );
 }
@@ -122,18 +138,12 @@ export function MiniCard({ card, isFirst }: { card: Card; isFirst: boolean }) {
         "inline-flex items-center",
         "px-1 py-0.5 rounded text-[10px] font-medium",
         "bg-card/50 border",
-        card.operator === "+" && "border-emerald-500/30",
-        card.operator === "-" && "border-rose-500/30",
-        card.operator === "*" && "border-violet-500/30",
-        card.operator === "÷" && "border-amber-500/30"
+        OPERATOR_COLORS[card.operator].faintBorder
       )}
     >
       <span className={cn(
         "text-[10px]",
-        card.operator === "+" && "text-emerald-600 dark:text-emerald-400",
-        card.operator === "-" && "text-rose-600 dark:text-rose-400",
-        card.operator === "*" && "text-violet-600 dark:text-violet-400",
-        card.operator === "÷" && "text-amber-600 dark:text-amber-400",
+        OPERATOR_COLORS[card.operator].text,
         isFirst && "opacity-40"
       )}>
         {operatorSymbol}
@@ -1,7 +1,7 @@
 "use client";
 
 import { cn } from "@/lib/utils";
-import type { HintMode } from "@/lib/types/game";
+import type { DistanceBucket, HintMode } from "@/lib/types/game";
 
 export interface TargetDisplayProps {
   /** The target type */
@@ -20,8 +20,18 @@ export interface TargetDisplayProps {
   onRevealClick?: () => void;
   /** Hint display mode */
   hintMode?: HintMode;
+  /** Unlocked directional distance hint for the best attempt */
+  distance?: DistanceBucket | null;
 }
 
+/** Short labels for the distance hint under the best attempt */
+const DISTANCE_LABELS: Record<DistanceBucket, string> = {
+  "very-close": "very close",
+  close: "close",
+  far: "far",
+  "very-far": "very far",
+};
+
 export function TargetDisplay({
   type,
   value,
@@ -31,6 +41,7 @@ export function TargetDisplay({
   showHint = true,
   onRevealClick,
   hintMode = "reveals",
+  distance = null,
 }: TargetDisplayProps) {
   const isDusk = type === "dusk";
   const ArrowIcon = isDusk ? ChevronDownIcon : ChevronUpIcon;
@@ -46,8 +57,8 @@ export function TargetDisplay({
   const showPlaceholder = !found && bestAttempt === null;
   const showQuestionMark = showReveals && showPlaceholder;
 
-  // Whether the best attempt area is clickable
-  const isClickable = showReveals && !found && onRevealClick;
+  // Whether the best attempt area is clickable (reveals or directional hints)
+  const isClickable = showDirectionalHints && !found && onRevealClick;
 
   const handleClick = () => {
     if (isClickable && onRevealClick) {
@@ -127,6 +138,13 @@ export function TargetDisplay({
           </>
         )}
       </div>
+
+      {/* Directional distance hint */}
+      {distance && !found && (
+        <div className="text-[10px] font-medium uppercase tracking-wider text-muted-foreground">
+          {DISTANCE_LABELS[distance]}
+        </div>
+      )}
     </div>
   );
 }
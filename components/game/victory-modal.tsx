@@ -4,10 +4,20 @@ import { useEffect, useCallback, useState } from "react";
 import confetti from "canvas-confetti";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import type { Card, Difficulty, SharePreset } from "@/lib/types/game";
+import type {
+  Card,
+  CustomDifficultyConfig,
+  Difficulty,
+  PuzzleResult,
+  RuleSet,
+  SharePreset,
+} from "@/lib/types/game";
 import type { Submission } from "@/lib/hooks/use-game";
 import { MiniCard } from "./submission-history";
+import { SolutionExplorer } from "./solution-explorer";
 import { OPERATOR_DISPLAY } from "@/lib/game/constants";
+import { formatClock } from "@/lib/game/profile";
+import { formatStreak, type StreakSummary } from "@/lib/game/streak";
 import { generateShareMessage, getPresetLabel } from "@/lib/share-messages";
 
 // Confetti colors for canvas-confetti
@@ -96,6 +106,22 @@ export interface VictoryModalProps {
   difficulty?: Difficulty;
   /** The original puzzle cards (for sharing) */
   puzzleCards?: Card[];
+  /** Rule set the puzzle was played under (for sharing) */
+  rules?: RuleSet;
+  /** Settings of a custom difficulty puzzle (for sharing) */
+  customDifficulty?: CustomDifficultyConfig;
+  /** Full puzzle analysis (for the solution explorer) */
+  puzzleResult?: PuzzleResult;
+  /** Every submission this game (for the solution explorer) */
+  submissions?: Submission[];
+  /** Lay an arrangement out on the table to study it */
+  onLoadArrangement?: (arrangement: Card[]) => void;
+  /** Time on the clock (timed mode only) */
+  timeMs?: number;
+  /** Whether this run unlocked Challenger */
+  unlockedChallenger?: boolean;
+  /** The player's daily streak (daily puzzles only) */
+  streak?: StreakSummary;
 }
 
 const SHARE_PRESETS: SharePreset[] = ["challenge", "teaser", "wordle"];
@@ -111,8 +137,17 @@ export function VictoryModal({
   dawnSubmission,
   difficulty = "medium",
   puzzleCards,
+  rules,
+  customDifficulty,
+  puzzleResult,
+  submissions = [],
+  onLoadArrangement,
+  timeMs,
+  unlockedChallenger = false,
+  streak,
 }: VictoryModalProps) {
   const [isEditing, setIsEditing] = useState(false);
+  const [showExplorer, setShowExplorer] = useState(false);
   const [copied, setCopied] = useState(false);
   const [shareText, setShareText] = useState("");
   const [selectedPreset, setSelectedPreset] = useState<SharePreset>("challenge");
@@ -138,10 +173,13 @@ export function VictoryModal({
         attempts,
         duskArrangement: duskSubmission?.arrangement,
         dawnArrangement: dawnSubmission?.arrangement,
+        rules,
+        customDifficulty,
+        streak,
       });
       setShareText(message);
     },
-    [puzzleCards, difficulty, duskValue, dawnValue, duskSubmission, dawnSubmission, attempts]
+    [puzzleCards, difficulty, duskValue, dawnValue, duskSubmission, dawnSubmission, attempts, rules, customDifficulty, streak]
   );
 
   // Update share text when preset changes
@@ -241,8 +279,32 @@ export function VictoryModal({
             Found both targets in{" "}
             <span className="font-bold text-foreground">{attempts}</span>{" "}
             {attempts === 1 ? "attempt" : "attempts"}
+            {timeMs !== undefined && (
+              <>
+                {" "}
+                in{" "}
+                <span className="font-bold text-foreground tabular-nums">
+                  {formatClock(timeMs)}
+                </span>
+              </>
+            )}
           </p>
 
+          {streak && (
+            <p className="text-center text-sm font-medium mb-4">
+              {formatStreak(streak)}
+            </p>
+          )}
+
+          {unlockedChallenger && (
+            <div className="mb-6 px-4 py-3 rounded-xl border border-primary/40 bg-primary/10 text-center">
+              <p className="font-semibold text-primary">Challenger unlocked!</p>
+              <p className="text-xs text-muted-foreground">
+                10 cards, no zero guarantee, no hints. Pick it from the home screen.
+              </p>
+            </div>
+          )}
+
           {/* Target values */}
           <div className="flex justify-center gap-6 mb-4">
             <div className="flex flex-col items-center gap-1 px-4 py-3 rounded-xl bg-sky-500/10 border border-sky-500/30">
@@ -387,6 +449,41 @@ export function VictoryModal({
             </div>
           )}
 
+          {/* Solution Explorer */}
+          {puzzleResult && puzzleResult.distribution.length > 0 && (
+            <div className="mb-6 border-t border-border pt-4">
+              <button
+                onClick={() => setShowExplorer(!showExplorer)}
+                className="flex items-center justify-center gap-1.5 w-full text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <ChevronIcon
+                  className={cn(
+                    "w-4 h-4 transition-transform",
+                    showExplorer && "rotate-90"
+                  )}
+                />
+                <span>Explore all solutions</span>
+              </button>
+              {showExplorer && (
+                <div className="mt-3">
+                  <SolutionExplorer
+                    puzzleResult={puzzleResult}
+                    submissions={submissions}
+                    rules={rules}
+                    onLoadArrangement={
+                      onLoadArrangement
+                        ? (arrangement) => {
+                            onLoadArrangement(arrangement);
+                            onClose();
+                          }
+                        : undefined
+                    }
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex gap-3">
             <Button variant="outline" className="flex-1" onClick={onClose}>
@@ -578,3 +675,19 @@ function EditIcon({ className }: { className?: string }) {
     </svg>
   );
 }
+
+function ChevronIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="m9 18 6-6-6-6" />
+    </svg>
+  );
+}
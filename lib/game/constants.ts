@@ -2,7 +2,8 @@
  * Game constants and configuration for Zero Rush v2
  */
 
-import type { Difficulty, DifficultyConfig, Operator, UserSettings } from '../types/game';
+import type { CardRanges, Difficulty, DifficultyConfig, DistanceBucket, Operator, RoomConfig, RuleSet, UserSettings } from '../types/game';
+import { OPERATOR_DEFINITIONS, getCardRanges, mapOperators } from './operators';
 
 // =============================================================================
 // Difficulty Configuration
@@ -34,8 +35,29 @@ export const DIFFICULTY_CONFIG: Record<Difficulty, DifficultyConfig> = {
     hintsAvailable: false,
     description: 'Must be unlocked; brutal',
   },
+  // Starting point for the builder; the player's settings replace it
+  custom: {
+    cards: 6,
+    zeroGuarantee: true,
+    hintsAvailable: true,
+    description: 'Your cards, your ranges',
+  },
 } as const;
 
+/**
+ * Every difficulty, easiest first
+ *
+ * Share codes store a difficulty as its index here (see share-code.ts), so
+ * append only, never reorder.
+ */
+export const DIFFICULTIES: readonly Difficulty[] = [
+  'easy',
+  'medium',
+  'hard',
+  'challenger',
+  'custom',
+];
+
 /** Permutation counts for reference */
 export const PERMUTATION_COUNTS: Record<number, number> = {
   4: 24,
@@ -51,44 +73,38 @@ export const PERMUTATION_COUNTS: Record<number, number> = {
 // Operator Configuration
 // =============================================================================
 
-/** All valid operators */
-export const OPERATORS: readonly Operator[] = ['+', '-', '*', '÷'] as const;
+/** All valid operators, in canonical order (see operators.ts) */
+export const OPERATORS: readonly Operator[] = OPERATOR_DEFINITIONS.map(
+  (definition) => definition.symbol
+);
+
+/** Operators dealt in the standard game */
+export const STANDARD_OPERATORS: readonly Operator[] = OPERATOR_DEFINITIONS.filter(
+  (definition) => definition.standard
+).map((definition) => definition.symbol);
 
 /** Operator order for canonical sorting */
-export const OPERATOR_ORDER: Record<Operator, number> = {
-  '+': 0,
-  '-': 1,
-  '*': 2,
-  '÷': 3,
-} as const;
+export const OPERATOR_ORDER: Record<Operator, number> = mapOperators(
+  (definition) => definition.order
+);
 
 /** Display symbols for operators (for UI) */
-export const OPERATOR_DISPLAY: Record<Operator, string> = {
-  '+': '+',
-  '-': '−', // minus sign (not hyphen)
-  '*': '×',
-  '÷': '÷',
-} as const;
+export const OPERATOR_DISPLAY: Record<Operator, string> = mapOperators(
+  (definition) => definition.display
+);
 
 // =============================================================================
 // Card Generation Ranges
 // =============================================================================
 
-/** Default number ranges for card generation */
-export const DEFAULT_CARD_RANGES = {
-  plus: { min: 1, max: 9 },
-  minus: { min: 1, max: 9 },
-  multiply: { min: 2, max: 9 },
-  divide: { min: 2, max: 9 },
-} as const;
+/** Default number ranges for card generation (standard operators only) */
+export const DEFAULT_CARD_RANGES: CardRanges = getCardRanges(STANDARD_OPERATORS);
 
-/** Extended ranges (for harder puzzles) */
-export const EXTENDED_CARD_RANGES = {
-  plus: { min: 1, max: 18 },
-  minus: { min: 1, max: 18 },
-  multiply: { min: 2, max: 12 },
-  divide: { min: 2, max: 12 },
-} as const;
+/** Extended ranges (for harder puzzles; the limits of the custom difficulty builder) */
+export const EXTENDED_CARD_RANGES: CardRanges = getCardRanges(STANDARD_OPERATORS, true);
+
+/** Default ranges for every operator, including the ^ % & variant cards */
+export const VARIANT_CARD_RANGES: CardRanges = getCardRanges(OPERATORS);
 
 // =============================================================================
 // Puzzle Quality Thresholds
@@ -106,6 +122,52 @@ export const MAX_GENERATION_ATTEMPTS = 100;
 /** Relaxed threshold after MAX_GENERATION_ATTEMPTS */
 export const RELAXED_QUALITY_THRESHOLD = 10;
 
+/**
+ * Permutation count the quality ratio is measured against, capped at the
+ * 6-card total (720). Larger hands collide on answers far more often, so an
+ * uncapped ratio would reject nearly every 7+ card puzzle.
+ */
+export const QUALITY_RATIO_MAX_PERMUTATIONS = 720;
+
+/**
+ * Largest hand size where a unique dawn is required for generated puzzles.
+ * Beyond 6 cards a unique dawn is vanishingly rare.
+ */
+export const UNIQUE_DAWN_MAX_CARDS = 6;
+
+// =============================================================================
+// Difficulty Rating
+// =============================================================================
+
+/** How much each factor contributes to a puzzle's difficulty score (sums to 1) */
+export const DIFFICULTY_RATING_WEIGHTS = {
+  searchSpace: 0.15,
+  targetScarcity: 0.25,
+  runnerUpCloseness: 0.2,
+  division: 0.1,
+  nonIntegerSteps: 0.15,
+  uniqueZero: 0.15,
+} as const;
+
+/** Permutation count treated as the largest search space (10 cards) */
+export const RATING_MAX_PERMUTATIONS = 3_628_800;
+
+// =============================================================================
+// Rules
+// =============================================================================
+
+/**
+ * The standard Zero Rush rules: left-to-right, first operator ignored,
+ * only non-negative whole numbers count.
+ */
+export const DEFAULT_RULE_SET: RuleSet = {
+  precedence: 'left-to-right',
+  firstCard: 'ignore-operator',
+  allowNegative: false,
+  allowNonInteger: false,
+  forbidNonIntegerSteps: false,
+};
+
 // =============================================================================
 // Game Limits
 // =============================================================================
@@ -116,6 +178,24 @@ export const MAX_ATTEMPTS = 10;
 /** Maximum search history size (for back navigation) */
 export const MAX_SEARCH_HISTORY = 4;
 
+// =============================================================================
+// Directional Hints
+// =============================================================================
+
+/** Largest distance from the target in each bucket, closest first (beyond the last: 'very-far') */
+export const HINT_DISTANCE_BUCKETS: ReadonlyArray<{ max: number; bucket: DistanceBucket }> = [
+  { max: 2, bucket: 'very-close' },
+  { max: 5, bucket: 'close' },
+  { max: 15, bucket: 'far' },
+];
+
+// =============================================================================
+// Daily Puzzles
+// =============================================================================
+
+/** Difficulties with a daily puzzle (see D003) */
+export const DAILY_DIFFICULTIES: readonly Difficulty[] = ['easy', 'medium', 'hard'];
+
 // =============================================================================
 // Timing Configuration
 // =============================================================================
@@ -123,6 +203,9 @@ export const MAX_SEARCH_HISTORY = 4;
 /** Challenger unlock threshold (in milliseconds) */
 export const CHALLENGER_UNLOCK_TIME_MS = 5 * 60 * 1000; // 5 minutes
 
+/** Longest gap between moves still counted as active play in game records */
+export const GAME_IDLE_TIMEOUT_MS = 30 * 1000; // 30 seconds
+
 /** Default multiplayer time limits (in minutes) */
 export const MULTIPLAYER_TIME_LIMITS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10] as const;
 
@@ -132,6 +215,21 @@ export const MULTIPLAYER_ROUND_OPTIONS = [3, 5, 8, 10] as const;
 /** Default multiplayer max players */
 export const MULTIPLAYER_MAX_PLAYERS = [2, 3, 4, 5, 6, 7, 8] as const;
 
+/** Multiplayer hand sizes */
+export const MULTIPLAYER_HAND_SIZES = [4, 5, 6, 7, 8, 9, 10] as const;
+
+/** Players needed to start a multiplayer game */
+export const MULTIPLAYER_MIN_PLAYERS = 2;
+
+/** Countdown before each multiplayer round (in milliseconds) */
+export const MULTIPLAYER_COUNTDOWN_MS = 3 * 1000; // 3 seconds
+
+/** How long answers stay on screen after a multiplayer round (in milliseconds) */
+export const MULTIPLAYER_REVEAL_MS = 10 * 1000; // 10 seconds
+
+/** How long round scores stay on screen before the next round (in milliseconds) */
+export const MULTIPLAYER_SCORING_MS = 6 * 1000; // 6 seconds
+
 // =============================================================================
 // Economy Configuration
 // =============================================================================
@@ -142,9 +240,15 @@ export const GEMS_PER_STREAK_MILESTONE = 10;
 /** Streak milestone interval */
 export const STREAK_MILESTONE_INTERVAL = 10;
 
+/** Gems earned per accepted puzzle submission (amount pending - see P004) */
+export const GEMS_PER_ACCEPTED_SUBMISSION = 10;
+
 /** Cost of a hint in gems */
 export const HINT_COST = 5;
 
+/** Hints each day that cost nothing, so a player without gems still gets help */
+export const FREE_HINTS_PER_DAY = 3;
+
 /** Cost of a streak save in gems */
 export const STREAK_SAVE_COST = 10;
 
@@ -181,6 +285,16 @@ export const DEFAULT_USER_SETTINGS: UserSettings = {
   relockChallenger: 'never',
 } as const;
 
+/** Default multiplayer room settings */
+export const DEFAULT_ROOM_CONFIG: RoomConfig = {
+  handSize: 6,
+  timeLimitMinutes: 3,
+  zeroMode: 'guaranteed',
+  visibility: 'private',
+  maxPlayers: 4,
+  maxRounds: 5,
+} as const;
+
 // =============================================================================
 // UI Colors
 // =============================================================================
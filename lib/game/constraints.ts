@@ -0,0 +1,346 @@
+/**
+ * Declarative puzzle constraints for Zero Rush v2
+ *
+ * Curated sets (dailies, themed packs) need more than a card count: an exact
+ * dawn, a minimum spread of answers, a ÷ card in every hand, no repeats of
+ * earlier puzzles and so on. A PuzzleConstraints spec describes those
+ * requirements; findGoodPuzzle deals until a hand meets all of them.
+ *
+ * Hand constraints (operators, values, signatures) are checked before the
+ * hand is analyzed, so they cost almost nothing. Result constraints (dusk,
+ * dawn, answers, rating) are checked against the analysis.
+ *
+ * Every rejection is tallied, so a spec that can't be met comes back with a
+ * report of which constraints failed and how often.
+ */
+
+import type { Card, CardRanges, Operator, PuzzleResult, RuleSet } from '../types/game';
+import { DEFAULT_RULE_SET, PERMUTATION_COUNTS } from './constants';
+import { toCanonicalSignature } from './signature';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Inclusive bounds; either side may be left open */
+export interface ValueBounds {
+  min?: number;
+  max?: number;
+}
+
+/** An exact value or a range of acceptable values */
+export type ValueConstraint = number | ValueBounds;
+
+/** Requirements a generated puzzle must meet */
+export interface PuzzleConstraints {
+  /** Exact dusk value or dusk range */
+  dusk?: ValueConstraint;
+  /** Exact dawn value or dawn range */
+  dawn?: ValueConstraint;
+  /** Minimum number of distinct valid answers */
+  minUniqueAnswers?: number;
+  /** Minimum number of cards per operator, e.g. { '÷': 1 } */
+  minOperatorCounts?: Partial<Record<Operator, number>>;
+  /** No two cards may share a value (regardless of operator) */
+  distinctValues?: boolean;
+  /** Exact difficulty score or score range (0–100) */
+  rating?: ValueConstraint;
+  /** Canonical signatures the puzzle must not match (e.g. past dailies) */
+  excludeSignatures?: readonly string[];
+}
+
+/** What rejected a candidate: a spec constraint or a built-in requirement */
+export type ConstraintName =
+  | keyof PuzzleConstraints
+  | 'validAnswers'
+  | 'quality'
+  | 'requireZero'
+  | 'requireGood';
+
+/** One reason generation could not (or could rarely) satisfy the request */
+export interface ConstraintFailure {
+  /** The constraint or requirement that rejected candidates */
+  constraint: ConstraintName;
+  /** Human-readable description of the requirement or conflict */
+  reason: string;
+  /** Number of candidate hands it rejected */
+  rejections: number;
+  /** Whether the spec can never be met, so no hands were dealt */
+  impossible: boolean;
+}
+
+/** Outcome of a constrained search */
+export interface ConstraintReport {
+  /** Whether the returned puzzle meets every constraint in the spec */
+  satisfied: boolean;
+  /** Rejections by cause, most frequent first */
+  failures: ConstraintFailure[];
+}
+
+/** Built-in requirements a spec is combined with (see findGoodPuzzle) */
+export interface ConstraintRequirements {
+  /** Whether dusk must be exactly 0 */
+  requireZero?: boolean;
+  /** Rule set deciding which answers count */
+  rules?: RuleSet;
+}
+
+/** Checks a spec against hands and their analyses */
+export interface ConstraintChecker {
+  /** First hand constraint the cards break, or null */
+  checkHand: (cards: Card[]) => ConstraintName | null;
+  /** First result constraint the analysis breaks, or null */
+  checkResult: (result: PuzzleResult) => ConstraintName | null;
+}
+
+// =============================================================================
+// Checking
+// =============================================================================
+
+/**
+ * Build a checker for a constraint spec
+ *
+ * @example
+ * const checker = createConstraintChecker({ dawn: 42, minOperatorCounts: { '÷': 1 } });
+ * checker.checkHand(cards) // → 'minOperatorCounts' if the hand has no ÷ card
+ */
+export function createConstraintChecker(constraints: PuzzleConstraints): ConstraintChecker {
+  const excluded = new Set(constraints.excludeSignatures ?? []);
+
+  const checkHand = (cards: Card[]): ConstraintName | null => {
+    const { minOperatorCounts, distinctValues } = constraints;
+
+    if (minOperatorCounts) {
+      for (const [operator, min] of Object.entries(minOperatorCounts)) {
+        const count = cards.filter((card) => card.operator === operator).length;
+        if (count < (min ?? 0)) return 'minOperatorCounts';
+      }
+    }
+
+    if (distinctValues && new Set(cards.map((card) => card.value)).size < cards.length) {
+      return 'distinctValues';
+    }
+
+    if (excluded.size > 0 && excluded.has(toCanonicalSignature(cards))) {
+      return 'excludeSignatures';
+    }
+
+    return null;
+  };
+
+  const checkResult = (result: PuzzleResult): ConstraintName | null => {
+    if (!result.hasValidAnswers) return 'validAnswers';
+
+    if (!satisfiesValue(result.dusk.result, constraints.dusk)) return 'dusk';
+    if (!satisfiesValue(result.dawn.result, constraints.dawn)) return 'dawn';
+
+    if (
+      constraints.minUniqueAnswers !== undefined &&
+      result.uniqueAnswers < constraints.minUniqueAnswers
+    ) {
+      return 'minUniqueAnswers';
+    }
+
+    if (!satisfiesValue(result.rating, constraints.rating)) return 'rating';
+
+    return null;
+  };
+
+  return { checkHand, checkResult };
+}
+
+/**
+ * Check a value against an exact value or bounds (no constraint always passes)
+ */
+export function satisfiesValue(value: number, constraint: ValueConstraint | undefined): boolean {
+  if (constraint === undefined) return true;
+  if (typeof constraint === 'number') return value === constraint;
+  if (constraint.min !== undefined && value < constraint.min) return false;
+  if (constraint.max !== undefined && value > constraint.max) return false;
+  return true;
+}
+
+// =============================================================================
+// Static Conflicts
+// =============================================================================
+
+/**
+ * Find constraints that no hand dealt from these ranges could ever meet
+ *
+ * Conflicts with the built-in requirements count too: a dusk other than 0
+ * while requireZero is on, or a fractional dawn when only whole answers do.
+ *
+ * @returns One failure per conflict (empty if the spec is satisfiable in principle)
+ */
+export function findConstraintConflicts(
+  constraints: PuzzleConstraints,
+  cardCount: number,
+  ranges: CardRanges,
+  requirements: ConstraintRequirements = {}
+): ConstraintFailure[] {
+  const { requireZero = false, rules = DEFAULT_RULE_SET } = requirements;
+  const conflicts: ConstraintFailure[] = [];
+  const conflict = (constraint: ConstraintName, reason: string) => {
+    conflicts.push({ constraint, reason, rejections: 0, impossible: true });
+  };
+
+  for (const name of ['dusk', 'dawn', 'rating'] as const) {
+    const constraint = constraints[name];
+    if (isEmptyRange(constraint)) {
+      conflict(name, `${name} range is empty (${describeValue(constraint)})`);
+    }
+  }
+
+  const duskMin = lowerBound(constraints.dusk);
+  const dawnMax = upperBound(constraints.dawn);
+  if (duskMin !== undefined && dawnMax !== undefined && duskMin >= dawnMax) {
+    conflict('dawn', `dawn (${describeValue(constraints.dawn)}) must be above dusk (${describeValue(constraints.dusk)})`);
+  }
+
+  if (requireZero && !satisfiesValue(0, constraints.dusk)) {
+    conflict('dusk', `dusk must be 0 (requireZero), not ${describeValue(constraints.dusk)}`);
+  }
+
+  for (const name of ['dusk', 'dawn'] as const) {
+    const constraint = constraints[name];
+    if (constraint === undefined || isEmptyRange(constraint)) continue;
+    // dawn sits above dusk, which can't go below 0 without negative answers
+    const floor = name === 'dawn' && (requireZero || !rules.allowNegative) ? 0 : undefined;
+    const max = upperBound(constraint);
+    if (!rules.allowNegative && max !== undefined && max < 0) {
+      conflict(name, `${name} must be ${describeValue(constraint)}, but negative answers don't count`);
+    } else if (floor !== undefined && max !== undefined && max <= floor) {
+      conflict(name, `dawn must be ${describeValue(constraint)}, but it always lies above a dusk of at least 0`);
+    } else if (!rules.allowNonInteger && !containsWholeNumber(constraint)) {
+      conflict(name, `${name} must be ${describeValue(constraint)}, but only whole answers count`);
+    }
+  }
+
+  // Ratings are whole numbers
+  if (constraints.rating !== undefined && !containsWholeNumber(constraints.rating)) {
+    conflict('rating', `no whole-number rating is ${describeValue(constraints.rating)}`);
+  }
+
+  const ratingMin = lowerBound(constraints.rating);
+  const ratingMax = upperBound(constraints.rating);
+  if ((ratingMin !== undefined && ratingMin > 100) || (ratingMax !== undefined && ratingMax < 0)) {
+    conflict('rating', `rating must lie between 0 and 100 (got ${describeValue(constraints.rating)})`);
+  }
+
+  const maxAnswers = PERMUTATION_COUNTS[cardCount as keyof typeof PERMUTATION_COUNTS];
+  if (
+    constraints.minUniqueAnswers !== undefined &&
+    maxAnswers !== undefined &&
+    constraints.minUniqueAnswers > maxAnswers
+  ) {
+    conflict(
+      'minUniqueAnswers',
+      `${cardCount} cards have only ${maxAnswers} arrangements, fewer than ${constraints.minUniqueAnswers} answers`
+    );
+  }
+
+  if (constraints.minOperatorCounts) {
+    let required = 0;
+    for (const [operator, min = 0] of Object.entries(constraints.minOperatorCounts)) {
+      required += min;
+      const range = ranges[operator as Operator];
+      const available = range ? range.max - range.min + 1 : 0;
+      if (min > available) {
+        conflict('minOperatorCounts', `the deck has only ${available} ${operator} cards, fewer than ${min}`);
+      }
+    }
+    if (required > cardCount) {
+      conflict('minOperatorCounts', `${required} operator cards required but hands have ${cardCount}`);
+    }
+  }
+
+  if (constraints.distinctValues) {
+    const values = new Set<number>();
+    for (const range of Object.values(ranges)) {
+      for (let value = range.min; value <= range.max; value++) values.add(value);
+    }
+    if (values.size < cardCount) {
+      conflict('distinctValues', `the deck has only ${values.size} distinct values for ${cardCount} cards`);
+    }
+  }
+
+  return conflicts;
+}
+
+// =============================================================================
+// Reporting
+// =============================================================================
+
+/**
+ * Describe what a constraint or built-in requirement asks for
+ */
+export function describeConstraint(name: ConstraintName, constraints: PuzzleConstraints): string {
+  switch (name) {
+    case 'dusk':
+    case 'dawn':
+    case 'rating':
+      return `${name} must be ${describeValue(constraints[name])}`;
+    case 'minUniqueAnswers':
+      return `at least ${constraints.minUniqueAnswers} distinct answers`;
+    case 'minOperatorCounts':
+      return `at least ${Object.entries(constraints.minOperatorCounts ?? {})
+        .map(([operator, min]) => `${min} ${operator} card${min === 1 ? '' : 's'}`)
+        .join(' and ')}`;
+    case 'distinctValues':
+      return 'no two cards with the same value';
+    case 'excludeSignatures':
+      return `not one of ${constraints.excludeSignatures?.length ?? 0} excluded puzzles`;
+    case 'validAnswers':
+      return 'at least 2 valid answers';
+    case 'quality':
+      return 'answers spread out enough (permutation/answer ratio)';
+    case 'requireZero':
+      return 'dusk of exactly 0';
+    case 'requireGood':
+      return 'dawn reached by exactly one arrangement';
+  }
+}
+
+/**
+ * Turn rejection tallies into failures, most frequent first
+ */
+export function summarizeRejections(
+  rejections: ReadonlyMap<ConstraintName, number>,
+  constraints: PuzzleConstraints
+): ConstraintFailure[] {
+  return Array.from(rejections, ([constraint, count]) => ({
+    constraint,
+    reason: describeConstraint(constraint, constraints),
+    rejections: count,
+    impossible: false,
+  })).sort((a, b) => b.rejections - a.rejections);
+}
+
+function describeValue(constraint: ValueConstraint | undefined): string {
+  if (constraint === undefined) return 'anything';
+  if (typeof constraint === 'number') return String(constraint);
+  const { min, max } = constraint;
+  if (min !== undefined && max !== undefined) return `between ${min} and ${max}`;
+  if (min !== undefined) return `at least ${min}`;
+  if (max !== undefined) return `at most ${max}`;
+  return 'anything';
+}
+
+function lowerBound(constraint: ValueConstraint | undefined): number | undefined {
+  return typeof constraint === 'number' ? constraint : constraint?.min;
+}
+
+function upperBound(constraint: ValueConstraint | undefined): number | undefined {
+  return typeof constraint === 'number' ? constraint : constraint?.max;
+}
+
+function containsWholeNumber(constraint: ValueConstraint): boolean {
+  if (typeof constraint === 'number') return Number.isInteger(constraint);
+  const { min, max } = constraint;
+  return min === undefined || max === undefined || Math.ceil(min) <= Math.floor(max);
+}
+
+function isEmptyRange(constraint: ValueConstraint | undefined): boolean {
+  if (constraint === undefined || typeof constraint === 'number') return false;
+  return constraint.min !== undefined && constraint.max !== undefined && constraint.min > constraint.max;
+}
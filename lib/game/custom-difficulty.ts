@@ -0,0 +1,209 @@
+/**
+ * Custom difficulty for Zero Rush v2
+ *
+ * The four presets in DIFFICULTY_CONFIG fix the card count and deal from
+ * the standard deck. The custom difficulty lets the player pick both - any
+ * card count from 4 to 10 and any sub-range of the extended ranges per
+ * operator - plus the zero guarantee and whether hints are available.
+ *
+ * Share links carry the settings as a short code (see
+ * encodeCustomDifficulty) so a friend plays under exactly the same setup:
+ *
+ *   6zh_a1-9_s1-9_m2-5_d2-5
+ *
+ * card count, then z (zero guarantee) and h (hints), then one
+ * `<url letter><min>-<max>` range per dealt operator in registry order.
+ */
+
+import type {
+  Card,
+  CardRanges,
+  CustomDifficultyConfig,
+  Difficulty,
+  DifficultyConfig,
+} from '../types/game';
+import { DEFAULT_CARD_RANGES, DIFFICULTY_CONFIG, EXTENDED_CARD_RANGES } from './constants';
+import { OPERATOR_DEFINITIONS, getOperatorForUrlLetter } from './operators';
+
+// =============================================================================
+// Limits & Defaults
+// =============================================================================
+
+/** Card counts the custom difficulty can deal */
+export const CUSTOM_CARD_COUNT = { min: 4, max: 10 } as const;
+
+/** Widest range each operator can be dealt from (operators left out can't be dealt) */
+export const CUSTOM_RANGE_LIMITS: CardRanges = EXTENDED_CARD_RANGES;
+
+/** The builder's starting point */
+export const DEFAULT_CUSTOM_DIFFICULTY: CustomDifficultyConfig = {
+  cards: DIFFICULTY_CONFIG.custom.cards,
+  ranges: DEFAULT_CARD_RANGES,
+  zeroGuarantee: DIFFICULTY_CONFIG.custom.zeroGuarantee,
+  hintsAvailable: DIFFICULTY_CONFIG.custom.hintsAvailable,
+};
+
+/**
+ * The configuration a puzzle is dealt and played under
+ *
+ * @param custom - The player's settings (used only for the custom difficulty)
+ *
+ * @example
+ * getDifficultyConfig('hard').cards // → 8
+ * getDifficultyConfig('custom', { ...DEFAULT_CUSTOM_DIFFICULTY, cards: 9 }).cards // → 9
+ */
+export function getDifficultyConfig(
+  difficulty: Difficulty,
+  custom?: CustomDifficultyConfig
+): DifficultyConfig {
+  if (difficulty !== 'custom') return DIFFICULTY_CONFIG[difficulty];
+  return { ...DIFFICULTY_CONFIG.custom, ...(custom ?? DEFAULT_CUSTOM_DIFFICULTY) };
+}
+
+/** Presets a hand-made puzzle can be filed under, by card count */
+const PRESET_BY_CARD_COUNT: Partial<Record<number, Difficulty>> = {
+  [DIFFICULTY_CONFIG.easy.cards]: 'easy',
+  [DIFFICULTY_CONFIG.medium.cards]: 'medium',
+  [DIFFICULTY_CONFIG.hard.cards]: 'hard',
+};
+
+/**
+ * The difficulty a hand-made puzzle is played and shared under
+ *
+ * Hands the standard deck could deal at a preset's card count use that
+ * preset; anything else becomes a custom difficulty whose ranges span the
+ * hand's values, so share links still describe how the hand was dealt.
+ * Challenger is never picked since it must be unlocked.
+ *
+ * @example
+ * getDifficultyForCards([{ operator: '+', value: 3 }, ...]) // 4 standard cards → { difficulty: 'easy' }
+ * getDifficultyForCards(fiveCards) // → { difficulty: 'custom', customDifficulty: { cards: 5, ... } }
+ */
+export function getDifficultyForCards(cards: Card[]): {
+  difficulty: Difficulty;
+  customDifficulty?: CustomDifficultyConfig;
+} {
+  const preset = PRESET_BY_CARD_COUNT[cards.length];
+  const isStandardHand = cards.every(({ operator, value }) => {
+    const range = DEFAULT_CARD_RANGES[operator];
+    return range !== undefined && value >= range.min && value <= range.max;
+  });
+  if (preset && isStandardHand) return { difficulty: preset };
+
+  const ranges: CardRanges = {};
+  for (const { operator, value } of cards) {
+    const range = ranges[operator];
+    ranges[operator] = range
+      ? { min: Math.min(range.min, value), max: Math.max(range.max, value) }
+      : { min: value, max: value };
+  }
+
+  return {
+    difficulty: 'custom',
+    customDifficulty: {
+      cards: cards.length,
+      ranges,
+      zeroGuarantee: false,
+      hintsAvailable: true,
+    },
+  };
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Find everything that stops a custom difficulty from being dealt
+ *
+ * @returns One message per problem (empty if the settings are playable)
+ */
+export function findCustomDifficultyProblems(config: CustomDifficultyConfig): string[] {
+  const problems: string[] = [];
+
+  const { min, max } = CUSTOM_CARD_COUNT;
+  if (!Number.isInteger(config.cards) || config.cards < min || config.cards > max) {
+    problems.push(`deal between ${min} and ${max} cards`);
+  }
+
+  let deckSize = 0;
+  for (const { symbol, display } of OPERATOR_DEFINITIONS) {
+    const range = config.ranges[symbol];
+    if (!range) continue;
+    const limit = CUSTOM_RANGE_LIMITS[symbol];
+    if (!limit) {
+      problems.push(`${display} cards can't be dealt in a custom puzzle`);
+      continue;
+    }
+    if (
+      !Number.isInteger(range.min) ||
+      !Number.isInteger(range.max) ||
+      range.min > range.max ||
+      range.min < limit.min ||
+      range.max > limit.max
+    ) {
+      problems.push(`${display} range must lie within ${limit.min}–${limit.max}`);
+      continue;
+    }
+    deckSize += range.max - range.min + 1;
+  }
+
+  if (deckSize === 0) {
+    problems.push('deal at least one operator');
+  } else if (deckSize < config.cards) {
+    problems.push(`the ranges hold only ${deckSize} distinct cards`);
+  }
+
+  return problems;
+}
+
+// =============================================================================
+// URL Code
+// =============================================================================
+
+/**
+ * Encode custom difficulty settings as a short code for share URLs
+ *
+ * @example
+ * encodeCustomDifficulty(DEFAULT_CUSTOM_DIFFICULTY) // → "6zh_a1-9_s1-9_m2-9_d2-9"
+ */
+export function encodeCustomDifficulty(config: CustomDifficultyConfig): string {
+  const flags = (config.zeroGuarantee ? 'z' : '') + (config.hintsAvailable ? 'h' : '');
+  const ranges = OPERATOR_DEFINITIONS.flatMap(({ symbol, urlLetter }) => {
+    const range = config.ranges[symbol];
+    return range ? [`${urlLetter}${range.min}-${range.max}`] : [];
+  });
+  return [`${config.cards}${flags}`, ...ranges].join('_');
+}
+
+/**
+ * Decode a code produced by encodeCustomDifficulty
+ *
+ * @returns The settings, or null if the code is malformed, not canonical
+ *   or describes settings that can't be dealt
+ */
+export function decodeCustomDifficulty(code: string): CustomDifficultyConfig | null {
+  const [head, ...parts] = code.split('_');
+  const headMatch = /^(\d+)(z?)(h?)$/.exec(head);
+  if (!headMatch) return null;
+
+  const ranges: CardRanges = {};
+  for (const part of parts) {
+    const match = /^([a-z])(\d+)-(\d+)$/.exec(part);
+    const operator = match && getOperatorForUrlLetter(match[1]);
+    if (!match || !operator || ranges[operator]) return null;
+    ranges[operator] = { min: Number(match[2]), max: Number(match[3]) };
+  }
+
+  const config: CustomDifficultyConfig = {
+    cards: Number(headMatch[1]),
+    ranges,
+    zeroGuarantee: headMatch[2] === 'z',
+    hintsAvailable: headMatch[3] === 'h',
+  };
+
+  // One code per setup: reject anything the encoder wouldn't produce
+  if (encodeCustomDifficulty(config) !== code) return null;
+
+  return findCustomDifficultyProblems(config).length === 0 ? config : null;
+}
@@ -0,0 +1,100 @@
+/**
+ * Daily puzzles for Zero Rush v2
+ *
+ * One puzzle per difficulty (Easy, Medium, Hard) per UTC day - see D003/D004.
+ * Each puzzle is derived from a date seed, so every player, device and server
+ * deals the same cards for a given date without storing anything.
+ */
+
+import type { DailyPuzzle, Difficulty } from '../types/game';
+import { DAILY_DIFFICULTIES } from './constants';
+import { findGoodPuzzleForDifficulty } from './generate';
+import { toCanonicalSignature } from './signature';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// =============================================================================
+// Dates
+// =============================================================================
+
+/**
+ * Get the daily puzzle date (YYYY-MM-DD) for a moment in time.
+ * Days roll over at UTC midnight.
+ *
+ * @example
+ * getDailyDate(new Date('2026-03-01T23:30:00-05:00')) // → "2026-03-02"
+ */
+export function getDailyDate(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * Check that a string is a real calendar date in YYYY-MM-DD form
+ */
+export function isValidDailyDate(date: string): boolean {
+  if (!DATE_PATTERN.test(date)) return false;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && getDailyDate(parsed) === date;
+}
+
+/**
+ * Check whether a daily puzzle has been released yet (not in the future)
+ */
+export function isDailyAvailable(date: string, now: Date = new Date()): boolean {
+  return isValidDailyDate(date) && date <= getDailyDate(now);
+}
+
+/**
+ * Check whether a difficulty has a daily puzzle
+ */
+export function isDailyDifficulty(difficulty: string): difficulty is Difficulty {
+  return DAILY_DIFFICULTIES.includes(difficulty as Difficulty);
+}
+
+// =============================================================================
+// Generation
+// =============================================================================
+
+/**
+ * Get the ID shared by a daily puzzle and its completions
+ *
+ * @example
+ * getDailyPuzzleId('2026-01-15', 'hard') // → "2026-01-15:hard"
+ */
+export function getDailyPuzzleId(date: string, difficulty: Difficulty): string {
+  return `${date}:${difficulty}`;
+}
+
+/**
+ * Derive the daily puzzle for a date and difficulty.
+ * Deterministic: the same inputs always produce the same puzzle.
+ *
+ * @param date - Date in YYYY-MM-DD form
+ * @param difficulty - Easy, Medium or Hard
+ * @returns The daily puzzle with its pre-calculated answers
+ */
+export function generateDailyPuzzle(date: string, difficulty: Difficulty): DailyPuzzle {
+  const id = getDailyPuzzleId(date, difficulty);
+  const { puzzle: cards, result } = findGoodPuzzleForDifficulty(difficulty, {
+    seed: `zero-rush-daily:${id}`,
+  });
+
+  return {
+    id,
+    date,
+    difficulty,
+    puzzleSignature: toCanonicalSignature(cards),
+    cards,
+    duskValue: result.dusk.result,
+    dawnValue: result.dawn.result,
+    hasZero: result.hasZero,
+    isGood: result.isGood,
+  };
+}
+
+/**
+ * Derive every daily puzzle (Easy, Medium, Hard) for a date
+ */
+export function generateDailyPuzzles(date: string): DailyPuzzle[] {
+  return DAILY_DIFFICULTIES.map((difficulty) => generateDailyPuzzle(date, difficulty));
+}
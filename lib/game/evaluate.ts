@@ -7,9 +7,37 @@
  * - Left-to-right evaluation (no PEMDAS/operator precedence)
  * - First card's operator is ignored (just uses the number)
  * - Only positive whole numbers count (0 allowed, negatives and decimals don't count)
+ * - Totals are exact fractions (see rational.ts), never rounded doubles
+ * - A step with no defined result (see operators.ts) makes the answer NaN
+ * 
+ * These are the standard rules; every function here also accepts a RuleSet
+ * for variants (see rules.ts).
  */
 
-import type { Card, CardString, EvaluationResult, Operator } from '../types/game';
+import type {
+  Card,
+  CardString,
+  EvaluationResult,
+  InvalidReason,
+  Operator,
+  Rational,
+  RuleSet,
+} from '../types/game';
+import { DEFAULT_RULE_SET, OPERATOR_DISPLAY } from './constants';
+import { isRegisteredOperator } from './operators';
+import {
+  createRational,
+  formatRational,
+  isIntegerRational,
+  rationalToNumber,
+} from './rational';
+import {
+  finishEvaluation,
+  isWholeState,
+  tryStartEvaluation,
+  tryStepEvaluation,
+  type EvaluationState,
+} from './rules';
 
 // =============================================================================
 // Card Parsing
@@ -44,7 +72,7 @@ export function cardToString(card: Card): CardString {
  * Check if a character is a valid operator
  */
 export function isValidOperator(char: string): char is Operator {
-  return char === '+' || char === '-' || char === '*' || char === '÷';
+  return isRegisteredOperator(char);
 }
 
 /**
@@ -68,12 +96,13 @@ export function cardsToStrings(cards: Card[]): CardString[] {
 /**
  * Evaluate a puzzle arrangement and return the result.
  * 
- * Rules:
+ * Rules (standard rule set):
  * - First card's operator is ignored (just the number)
  * - Subsequent cards apply their operator to the running total
  * - Evaluation is strictly left-to-right (no PEMDAS)
  * 
  * @param arrangement - Array of cards in the order to evaluate
+ * @param rules - Rule set to evaluate under (defaults to the standard rules)
  * @returns EvaluationResult with the answer and metadata
  * 
  * @example
@@ -86,48 +115,40 @@ export function cardsToStrings(cards: Card[]): CardString[] {
  *   { operator: '-', value: 5 }
  * ]) // → { answer: 0, ... }
  */
-export function evaluate(arrangement: Card[]): EvaluationResult {
+export function evaluate(
+  arrangement: Card[],
+  rules: RuleSet = DEFAULT_RULE_SET
+): EvaluationResult {
   if (arrangement.length === 0) {
     return {
       answer: 0,
-      rawAnswer: 0,
+      rawAnswer: createRational(0),
       floatDetected: false,
       arrangement: [],
     };
   }
 
-  let result = arrangement[0].value; // First card's operator is ignored
-  let floatDetected = false;
+  let state: EvaluationState | null = tryStartEvaluation(arrangement[0], rules);
+  let floatDetected = state !== null && !isWholeState(state);
 
-  for (let i = 1; i < arrangement.length; i++) {
-    const card = arrangement[i];
-    
-    switch (card.operator) {
-      case '+':
-        result += card.value;
-        break;
-      case '-':
-        result -= card.value;
-        break;
-      case '*':
-        result *= card.value;
-        break;
-      case '÷':
-        result /= card.value;
-        break;
-    }
+  for (let i = 1; i < arrangement.length && state; i++) {
+    state = tryStepEvaluation(state, arrangement[i], rules);
 
     // Track if we ever had a non-integer intermediate result
-    if (!Number.isInteger(result)) {
+    if (state && !isWholeState(state)) {
       floatDetected = true;
     }
   }
 
-  // Round to handle floating point precision issues
-  const roundedAnswer = Math.round((result + Number.EPSILON) * 100) / 100;
+  if (!state) {
+    // e.g. concatenating onto a fraction: there is no answer at all
+    return { answer: NaN, rawAnswer: null, floatDetected, arrangement };
+  }
+
+  const result = finishEvaluation(state);
 
   return {
-    answer: roundedAnswer,
+    answer: rationalToNumber(result),
     rawAnswer: result,
     floatDetected,
     arrangement,
@@ -140,9 +161,12 @@ export function evaluate(arrangement: Card[]): EvaluationResult {
  * @example
  * evaluateFromStrings(['+9', '+1', '÷2', '-5']) // → { answer: 0, ... }
  */
-export function evaluateFromStrings(cardStrings: string[]): EvaluationResult {
+export function evaluateFromStrings(
+  cardStrings: string[],
+  rules: RuleSet = DEFAULT_RULE_SET
+): EvaluationResult {
   const cards = parseCards(cardStrings);
-  return evaluate(cards);
+  return evaluate(cards, rules);
 }
 
 // =============================================================================
@@ -150,17 +174,104 @@ export function evaluateFromStrings(cardStrings: string[]): EvaluationResult {
 // =============================================================================
 
 /**
- * Check if a result is a valid answer (positive whole number, including 0)
+ * Check if a result is a valid answer (positive whole number, including 0,
+ * unless the rule set allows negatives or non-integers)
+ */
+export function isValidAnswer(answer: number, rules: RuleSet = DEFAULT_RULE_SET): boolean {
+  if (!Number.isFinite(answer)) return false;
+  if (answer < 0 && !rules.allowNegative) return false;
+  if (!Number.isInteger(answer) && !rules.allowNonInteger) return false;
+  return true;
+}
+
+/**
+ * Check if an evaluation result is valid: an allowed answer, reached
+ * without forbidden non-integer steps
  */
-export function isValidAnswer(answer: number): boolean {
-  return answer >= 0 && Number.isInteger(answer);
+export function isValidResult(
+  result: EvaluationResult,
+  rules: RuleSet = DEFAULT_RULE_SET
+): boolean {
+  if (rules.forbidNonIntegerSteps && result.floatDetected) return false;
+  return isValidAnswer(result.answer, rules);
+}
+
+/**
+ * Find the step where an arrangement stopped being a valid answer
+ *
+ * A final answer that is fractional or negative is traced back to the step
+ * where the total last became so (after which it never recovered); a
+ * forbidden fractional step is reported where it first happens.
+ *
+ * @returns The reason, or null if the arrangement is a valid answer
+ *
+ * @example
+ * // 9 → ÷2 = 9/2 → +3 = 15/2
+ * explainInvalidResult([
+ *   { operator: '+', value: 9 },
+ *   { operator: '÷', value: 2 },
+ *   { operator: '+', value: 3 }
+ * ]) // → { kind: 'non-integer', position: 2, value: '9/2', recovered: false, ... }
+ */
+export function explainInvalidResult(
+  arrangement: Card[],
+  rules: RuleSet = DEFAULT_RULE_SET
+): InvalidReason | null {
+  if (arrangement.length === 0) return null;
+
+  // Value of the expression after each card
+  const totals: Rational[] = [];
+  let firstFractionalStep = -1;
+  let state = tryStartEvaluation(arrangement[0], rules);
+
+  for (let i = 0; i < arrangement.length; i++) {
+    if (i > 0 && state) state = tryStepEvaluation(state, arrangement[i], rules);
+    if (!state) {
+      return { kind: 'undefined', card: arrangement[i], position: i + 1 };
+    }
+    totals.push(finishEvaluation(state));
+    if (firstFractionalStep === -1 && !isWholeState(state)) firstFractionalStep = i;
+  }
+
+  const answer = totals[totals.length - 1];
+  const isWholeAnswer = isIntegerRational(answer);
+
+  if (!isWholeAnswer && !rules.allowNonInteger) {
+    const step = findLastChange(totals, (total) => !isIntegerRational(total));
+    return fractionalStep(arrangement, totals, step, false);
+  }
+
+  if (rules.forbidNonIntegerSteps && firstFractionalStep !== -1) {
+    return fractionalStep(arrangement, totals, firstFractionalStep, isWholeAnswer);
+  }
+
+  if (answer.numerator < 0 && !rules.allowNegative) {
+    const step = findLastChange(totals, (total) => total.numerator < 0);
+    return { kind: 'negative', card: arrangement[step], position: step + 1 };
+  }
+
+  return null;
 }
 
 /**
- * Check if an evaluation result is valid (positive whole number)
+ * Describe an invalid reason for display
+ *
+ * @example
+ * describeInvalidReason({ kind: 'negative', card: { operator: '-', value: 7 }, position: 4 })
+ * // → "went negative after −7 at position 4"
  */
-export function isValidResult(result: EvaluationResult): boolean {
-  return isValidAnswer(result.answer);
+export function describeInvalidReason(reason: InvalidReason): string {
+  const step = `after ${formatCardForDisplay(reason.card)} at position ${reason.position}`;
+  switch (reason.kind) {
+    case 'undefined':
+      return `had no value ${step}`;
+    case 'negative':
+      return `went negative ${step}`;
+    case 'non-integer':
+      return reason.recovered
+        ? `became ${reason.value} ${step}; fractional steps aren't allowed`
+        : `became ${reason.value} ${step}, never recovered`;
+  }
 }
 
 /**
@@ -170,38 +281,32 @@ export function isValidResult(result: EvaluationResult): boolean {
  * @example
  * getEvaluationDisplay([{ operator: '+', value: 9 }, { operator: '+', value: 1 }])
  * // → "9 → +1 = 10"
+ * 
+ * @example
+ * // Fractional intermediates are shown exactly
+ * getEvaluationDisplay([{ operator: '+', value: 7 }, { operator: '÷', value: 3 }])
+ * // → "7 → ÷3 → = 7/3"
  */
-export function getEvaluationDisplay(arrangement: Card[]): string {
+export function getEvaluationDisplay(
+  arrangement: Card[],
+  rules: RuleSet = DEFAULT_RULE_SET
+): string {
   if (arrangement.length === 0) return '';
   
-  const parts: string[] = [String(arrangement[0].value)];
-  let result = arrangement[0].value;
+  const first = arrangement[0];
+  const parts: string[] = [
+    rules.firstCard === 'apply-to-zero'
+      ? `${OPERATOR_DISPLAY[first.operator]}${first.value}`
+      : String(first.value),
+  ];
+  let state = tryStartEvaluation(first, rules);
   
-  for (let i = 1; i < arrangement.length; i++) {
+  for (let i = 1; i < arrangement.length && state; i++) {
     const card = arrangement[i];
-    
-    switch (card.operator) {
-      case '+':
-        result += card.value;
-        parts.push(`+${card.value}`);
-        break;
-      case '-':
-        result -= card.value;
-        parts.push(`-${card.value}`);
-        break;
-      case '*':
-        result *= card.value;
-        parts.push(`×${card.value}`);
-        break;
-      case '÷':
-        result /= card.value;
-        parts.push(`÷${card.value}`);
-        break;
-    }
-    
-    // Round for display
-    const displayResult = Math.round((result + Number.EPSILON) * 100) / 100;
-    parts.push(`= ${displayResult}`);
+    state = tryStepEvaluation(state, card, rules);
+    parts.push(`${OPERATOR_DISPLAY[card.operator]}${card.value}`);
+    // Value of the expression so far (includes pending PEMDAS terms)
+    parts.push(state ? `= ${formatRational(finishEvaluation(state))}` : '= undefined');
   }
   
   return parts.join(' → ');
@@ -211,17 +316,39 @@ export function getEvaluationDisplay(arrangement: Card[]): string {
  * Format a card for display (using proper math symbols)
  */
 export function formatCardForDisplay(card: Card, isFirst: boolean = false): string {
-  const operatorDisplay: Record<Operator, string> = {
-    '+': '+',
-    '-': '−', // proper minus sign
-    '*': '×',
-    '÷': '÷',
-  };
-  
   if (isFirst) {
     // First card shows just the number (operator is ignored)
     return String(card.value);
   }
   
-  return `${operatorDisplay[card.operator]}${card.value}`;
+  return `${OPERATOR_DISPLAY[card.operator]}${card.value}`;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Index of the step that started the final run of totals matching a test
+ * (the last step is assumed to match)
+ */
+function findLastChange(totals: Rational[], test: (total: Rational) => boolean): number {
+  let step = totals.length - 1;
+  while (step > 0 && test(totals[step - 1])) step--;
+  return step;
+}
+
+function fractionalStep(
+  arrangement: Card[],
+  totals: Rational[],
+  step: number,
+  recovered: boolean
+): InvalidReason {
+  return {
+    kind: 'non-integer',
+    card: arrangement[step],
+    position: step + 1,
+    value: formatRational(totals[step]),
+    recovered,
+  };
 }
@@ -0,0 +1,221 @@
+/**
+ * Gem ledger for Zero Rush v2
+ *
+ * 💎 gems (D019) are tracked as an append-only list of transactions; the
+ * balance is always the sum of the ledger, never stored on its own. Earning:
+ * streak milestones, accepted puzzle submissions and purchases. Spending:
+ * hints, skins and streak saves, each at a fixed cost. The first
+ * FREE_HINTS_PER_DAY hints each day are free (logged at 0). A spend the
+ * balance can't cover is rejected rather than going negative.
+ */
+
+import type { Transaction, TransactionReason } from '../types/game';
+import {
+  FREE_HINTS_PER_DAY,
+  GEMS_PER_ACCEPTED_SUBMISSION,
+  GEMS_PER_STREAK_MILESTONE,
+  HINT_COST,
+  SKIN_COST,
+  STREAK_MILESTONE_INTERVAL,
+  STREAK_SAVE_COST,
+} from './constants';
+import { LOCAL_PROFILE_ID } from './profile';
+
+/** Reasons that add gems */
+export type GemEarnReason = Extract<
+  TransactionReason,
+  'streak_milestone' | 'puzzle_submission' | 'purchase'
+>;
+
+/** Reasons that spend gems */
+export type GemSpendReason = Extract<TransactionReason, 'hint' | 'skin' | 'streak_save'>;
+
+/** What each kind of spend costs */
+export const GEM_COSTS: Record<GemSpendReason, number> = {
+  hint: HINT_COST,
+  skin: SKIN_COST,
+  streak_save: STREAK_SAVE_COST,
+};
+
+/** Options shared by every ledger entry */
+export interface GemTransactionOptions {
+  /** Details shown in the transaction history (e.g. the streak length) */
+  metadata?: Record<string, unknown>;
+  /** Ledger owner (the local profile until accounts exist) */
+  userId?: string;
+  now?: number;
+}
+
+// =============================================================================
+// Balance
+// =============================================================================
+
+/**
+ * Sum a ledger into a balance
+ *
+ * @example
+ * getGemBalance([]) // → 0
+ */
+export function getGemBalance(ledger: Transaction[]): number {
+  return ledger.reduce(
+    (balance, transaction) =>
+      transaction.type === 'earn' ? balance + transaction.amount : balance - transaction.amount,
+    0
+  );
+}
+
+/**
+ * Check whether the balance covers a spend
+ */
+export function canAffordGems(ledger: Transaction[], reason: GemSpendReason): boolean {
+  return getGemBalance(ledger) >= GEM_COSTS[reason];
+}
+
+// =============================================================================
+// Earning & Spending
+// =============================================================================
+
+/**
+ * Append an earning to the ledger
+ *
+ * @throws RangeError if the amount isn't a positive whole number
+ */
+export function earnGems(
+  ledger: Transaction[],
+  reason: GemEarnReason,
+  amount: number,
+  options: GemTransactionOptions = {}
+): Transaction[] {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new RangeError(`Gem amounts must be positive whole numbers: ${amount}`);
+  }
+  return [...ledger, createTransaction(ledger, 'earn', reason, amount, options)];
+}
+
+/**
+ * Append a spend to the ledger at its fixed cost (see GEM_COSTS)
+ *
+ * @returns The new ledger, or null if the balance can't cover the spend
+ */
+export function spendGems(
+  ledger: Transaction[],
+  reason: GemSpendReason,
+  options: GemTransactionOptions = {}
+): Transaction[] | null {
+  if (!canAffordGems(ledger, reason)) return null;
+  return [...ledger, createTransaction(ledger, 'spend', reason, GEM_COSTS[reason], options)];
+}
+
+/**
+ * How many of a day's free hints are left
+ *
+ * @param date - The day (YYYY-MM-DD, see getDailyDate)
+ */
+export function getFreeHintsLeft(ledger: Transaction[], date: string): number {
+  const used = ledger.filter(
+    (transaction) =>
+      transaction.reason === 'hint' &&
+      transaction.amount === 0 &&
+      transaction.metadata?.date === date
+  ).length;
+  return Math.max(0, FREE_HINTS_PER_DAY - used);
+}
+
+/**
+ * What the next hint costs on a day: nothing while free hints last, then
+ * HINT_COST
+ */
+export function getHintCost(ledger: Transaction[], date: string): number {
+  return getFreeHintsLeft(ledger, date) > 0 ? 0 : GEM_COSTS.hint;
+}
+
+/**
+ * Pay for a hint, using one of the day's free hints if any are left
+ *
+ * @param date - The day (YYYY-MM-DD, see getDailyDate)
+ * @returns The new ledger, or null if no free hint is left and the balance
+ *   can't cover one
+ */
+export function spendHint(
+  ledger: Transaction[],
+  date: string,
+  options: GemTransactionOptions = {}
+): Transaction[] | null {
+  const dated = { ...options, metadata: { ...options.metadata, date } };
+  if (getFreeHintsLeft(ledger, date) === 0) return spendGems(ledger, 'hint', dated);
+  return [...ledger, createTransaction(ledger, 'spend', 'hint', 0, dated)];
+}
+
+/**
+ * Credit a streak milestone (every STREAK_MILESTONE_INTERVAL days)
+ *
+ * Safe to call after every daily: streak lengths between milestones, and a
+ * milestone already credited on that date, leave the ledger unchanged.
+ *
+ * @param streakDays - The streak's length after today's daily
+ * @param date - Today's daily date (YYYY-MM-DD)
+ */
+export function creditStreakMilestone(
+  ledger: Transaction[],
+  streakDays: number,
+  date: string,
+  options: Omit<GemTransactionOptions, 'metadata'> = {}
+): Transaction[] {
+  if (streakDays <= 0 || streakDays % STREAK_MILESTONE_INTERVAL !== 0) return ledger;
+  const credited = ledger.some(
+    (transaction) =>
+      transaction.reason === 'streak_milestone' && transaction.metadata?.date === date
+  );
+  if (credited) return ledger;
+  return earnGems(ledger, 'streak_milestone', GEMS_PER_STREAK_MILESTONE, {
+    ...options,
+    metadata: { streakDays, date },
+  });
+}
+
+/**
+ * Credit an accepted puzzle submission (once per puzzle)
+ *
+ * Only for a submission something has actually accepted (see P004), never
+ * for a puzzle a player has merely saved.
+ *
+ * @param signature - Canonical signature of the accepted puzzle
+ */
+export function creditPuzzleSubmission(
+  ledger: Transaction[],
+  signature: string,
+  options: Omit<GemTransactionOptions, 'metadata'> = {}
+): Transaction[] {
+  const credited = ledger.some(
+    (transaction) =>
+      transaction.reason === 'puzzle_submission' && transaction.metadata?.signature === signature
+  );
+  if (credited) return ledger;
+  return earnGems(ledger, 'puzzle_submission', GEMS_PER_ACCEPTED_SUBMISSION, {
+    ...options,
+    metadata: { signature },
+  });
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function createTransaction(
+  ledger: Transaction[],
+  type: Transaction['type'],
+  reason: TransactionReason,
+  amount: number,
+  { metadata, userId = LOCAL_PROFILE_ID, now = Date.now() }: GemTransactionOptions
+): Transaction {
+  return {
+    // The ledger only grows, so its length keeps IDs unique
+    id: `${now}-${ledger.length}`,
+    userId,
+    type,
+    amount,
+    reason,
+    ...(metadata ? { metadata } : {}),
+    createdAt: now,
+  };
+}
@@ -5,44 +5,54 @@
  * 
  * Key functions:
  * - generatePuzzle: Creates a random hand of cards
- * - generateAnswers: Analyzes all permutations to find dusk/dawn
+ * - generateAnswers: Analyzes all permutations exactly to find dusk/dawn
  * - findGoodPuzzle: Keeps generating until a quality puzzle is found
+ * 
+ * Every generator accepts RandomOptions (`seed` or `random`), so the same
+ * seed always deals the same puzzle.
  */
 
 import type { 
   Card, 
+  CardRange,
+  CardRanges,
+  CustomDifficultyConfig,
   Difficulty, 
   Operator, 
   Puzzle, 
   PuzzleResult, 
+  RuleSet,
   Target 
 } from '../types/game';
 import { evaluate, isValidAnswer } from './evaluate';
 import { toCanonicalSignature } from './signature';
+import { solveAllAnswers, type AnswerSearch, type SolvedAnswer } from './solve';
+import { randomInt, resolveRandom, type RandomOptions } from './random';
+import { OPERATOR_DEFINITIONS } from './operators';
+import { rateDifficulty } from './rating';
+import {
+  createConstraintChecker,
+  findConstraintConflicts,
+  summarizeRejections,
+  type ConstraintName,
+  type ConstraintReport,
+  type PuzzleConstraints,
+} from './constraints';
+import { getDifficultyConfig } from './custom-difficulty';
 import { 
-  DIFFICULTY_CONFIG, 
   DEFAULT_CARD_RANGES,
+  DEFAULT_RULE_SET,
   QUALITY_THRESHOLD,
+  QUALITY_RATIO_MAX_PERMUTATIONS,
   MAX_GENERATION_ATTEMPTS,
   RELAXED_QUALITY_THRESHOLD,
+  UNIQUE_DAWN_MAX_CARDS,
 } from './constants';
 
 // =============================================================================
 // Card Generation
 // =============================================================================
 
-interface CardRange {
-  min: number;
-  max: number;
-}
-
-interface CardRanges {
-  plus: CardRange;
-  minus: CardRange;
-  multiply: CardRange;
-  divide: CardRange;
-}
-
 /**
  * Generate all possible cards for a given operator and range
  */
@@ -56,33 +66,41 @@ function generateCardsForOperator(operator: Operator, range: CardRange): Card[]
 
 /**
  * Generate the full deck of available cards
+ * 
+ * The deck follows the registry's canonical operator order, so a seeded
+ * draw from it is reproducible. Operators without a range are left out.
  */
 function generateDeck(ranges: CardRanges = DEFAULT_CARD_RANGES): Card[] {
-  return [
-    ...generateCardsForOperator('+', ranges.plus),
-    ...generateCardsForOperator('-', ranges.minus),
-    ...generateCardsForOperator('*', ranges.multiply),
-    ...generateCardsForOperator('÷', ranges.divide),
-  ];
+  return OPERATOR_DEFINITIONS.flatMap(({ symbol }) => {
+    const range = ranges[symbol];
+    return range ? generateCardsForOperator(symbol, range) : [];
+  });
 }
 
 /**
  * Generate a random puzzle (hand of cards)
  * 
  * @param cardCount - Number of cards to deal
- * @param ranges - Number ranges for each operator type
+ * @param ranges - Number ranges for each operator to deal
+ * @param options - Seed or random source (defaults to Math.random)
  * @returns Array of cards (without replacement from deck)
+ * 
+ * @example
+ * generatePuzzle(6, DEFAULT_CARD_RANGES, { seed: 'friday-night' })
+ * // → the same six cards every time
  */
 export function generatePuzzle(
   cardCount: number = 6,
-  ranges: CardRanges = DEFAULT_CARD_RANGES
+  ranges: CardRanges = DEFAULT_CARD_RANGES,
+  options: RandomOptions = {}
 ): Card[] {
+  const random = resolveRandom(options);
   const deck = generateDeck(ranges);
   const hand: Card[] = [];
   
   // Draw cards without replacement
   for (let i = 0; i < cardCount && deck.length > 0; i++) {
-    const randomIndex = Math.floor(Math.random() * deck.length);
+    const randomIndex = randomInt(random, deck.length);
     hand.push(deck[randomIndex]);
     deck.splice(randomIndex, 1);
   }
@@ -93,9 +111,16 @@ export function generatePuzzle(
 /**
  * Generate a puzzle for a specific difficulty level
  */
-export function generatePuzzleForDifficulty(difficulty: Difficulty): Card[] {
-  const config = DIFFICULTY_CONFIG[difficulty];
-  return generatePuzzle(config.cards);
+export function generatePuzzleForDifficulty(
+  difficulty: Difficulty,
+  options: PuzzleGenerationOptions = {}
+): Card[] {
+  const config = getDifficultyConfig(difficulty, options.customDifficulty);
+  return generatePuzzle(
+    config.cards,
+    options.ranges ?? config.ranges ?? DEFAULT_CARD_RANGES,
+    options
+  );
 }
 
 // =============================================================================
@@ -149,87 +174,77 @@ export function permutePuzzle(cards: Card[]): Card[][] {
 // Puzzle Analysis
 // =============================================================================
 
-/** Max cards before switching to sampled evaluation */
+/** Max cards before switching from permutation enumeration to the subset solver */
 const EXHAUSTIVE_THRESHOLD = 6;
 
-/** Number of random samples for larger puzzles */
-const SAMPLE_SIZE = 5000;
-
 /**
- * Fisher-Yates shuffle (in-place)
+ * Evaluate every permutation and collect each distinct answer
  */
-function shuffle<T>(arr: T[]): T[] {
-  const result = [...arr];
-  for (let i = result.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [result[i], result[j]] = [result[j], result[i]];
-  }
-  return result;
-}
+function enumerateAnswers(cards: Card[], rules: RuleSet): AnswerSearch {
+  const answerMap = new Map<number, SolvedAnswer>();
+  let undefinedPermutations = 0;
 
-/**
- * Generate random permutation samples
- */
-function generateSampledPermutations(cards: Card[], sampleSize: number): Card[][] {
-  const samples: Card[][] = [];
-  const seen = new Set<string>();
-  
-  // Generate unique random shuffles
-  for (let i = 0; i < sampleSize * 2 && samples.length < sampleSize; i++) {
-    const shuffled = shuffle(cards);
-    const key = shuffled.map(c => `${c.operator}${c.value}`).join(',');
-    
-    if (!seen.has(key)) {
-      seen.add(key);
-      samples.push(shuffled);
+  for (const arrangement of permutePuzzle(cards)) {
+    const result = evaluate(arrangement, rules);
+    // Like the solver, a forbidden non-integer step rules an arrangement out
+    // before any later undefined step is reached
+    if (rules.forbidNonIntegerSteps && result.floatDetected) continue;
+    if (result.rawAnswer === null) {
+      undefinedPermutations++;
+      continue;
+    }
+
+    const existing = answerMap.get(result.answer);
+    const opener = 1 << cards.indexOf(arrangement[0]);
+
+    if (existing) {
+      existing.count++;
+      existing.openers |= opener;
+      // Prefer an integer-only example so floatDetected means "needs fractions"
+      if (existing.floatDetected && !result.floatDetected) {
+        existing.arrangement = [...arrangement];
+        existing.floatDetected = false;
+      }
+    } else {
+      answerMap.set(result.answer, {
+        arrangement: [...arrangement],
+        count: 1,
+        floatDetected: result.floatDetected,
+        openers: opener,
+      });
     }
   }
-  
-  return samples;
+
+  return { answers: answerMap, undefinedPermutations };
 }
 
 /**
  * Analyze permutations of a puzzle to find dusk and dawn targets.
- * Uses exhaustive search for small puzzles, sampling for large ones.
+ * Enumerates permutations for small puzzles and uses the exact subset
+ * solver for larger ones, so results are exact for every hand size.
  * 
  * @param cards - The puzzle cards to analyze
- * @returns PuzzleResult with dusk (lowest) and dawn (highest) targets
+ * @param rules - Rule set to evaluate under (defaults to the standard rules)
+ * @returns PuzzleResult with dusk (lowest) and dawn (highest) targets,
+ *   the full distribution of valid answers and a difficulty rating
  */
-export function generateAnswers(cards: Card[]): PuzzleResult {
+export function generateAnswers(
+  cards: Card[],
+  rules: RuleSet = DEFAULT_RULE_SET
+): PuzzleResult {
   if (cards.length === 0) {
     return createInvalidResult();
   }
   
-  // Use exhaustive search for small puzzles, sampling for large ones
-  const useExhaustive = cards.length <= EXHAUSTIVE_THRESHOLD;
-  const permutations = useExhaustive 
-    ? permutePuzzle(cards) 
-    : generateSampledPermutations(cards, SAMPLE_SIZE);
+  const { answers: allAnswers, undefinedPermutations } = cards.length <= EXHAUSTIVE_THRESHOLD
+    ? enumerateAnswers(cards, rules)
+    : solveAllAnswers(cards, rules);
   
-  // Map from answer value to { arrangement, count, floatDetected }
-  const answerMap = new Map<number, {
-    arrangement: Card[];
-    count: number;
-    floatDetected: boolean;
-  }>();
-  
-  // Evaluate all permutations
-  for (const arrangement of permutations) {
-    const result = evaluate(arrangement);
-    
-    // Only count valid positive whole numbers (including 0)
-    if (isValidAnswer(result.answer)) {
-      const existing = answerMap.get(result.answer);
-      
-      if (existing) {
-        existing.count++;
-      } else {
-        answerMap.set(result.answer, {
-          arrangement: [...arrangement],
-          count: 1,
-          floatDetected: result.floatDetected,
-        });
-      }
+  // Only count answers the rules allow (standard: whole numbers, including 0)
+  const answerMap = new Map<number, SolvedAnswer>();
+  for (const [answer, data] of allAnswers) {
+    if (isValidAnswer(answer, rules)) {
+      answerMap.set(answer, data);
     }
   }
   
@@ -238,55 +253,98 @@ export function generateAnswers(cards: Card[]): PuzzleResult {
     return createInvalidResult();
   }
   
-  // Get sorted answer values
-  const sortedAnswers = Array.from(answerMap.keys()).sort((a, b) => a - b);
-  
-  const lowestValue = sortedAnswers[0];
-  const highestValue = sortedAnswers[sortedAnswers.length - 1];
-  
-  const lowestData = answerMap.get(lowestValue)!;
-  const highestData = answerMap.get(highestValue)!;
+  // Every valid answer as a target, lowest first
+  const distribution: Target[] = Array.from(answerMap, ([result, data]) => ({
+    result,
+    arrangement: data.arrangement,
+    permutationCount: data.count,
+    floatDetected: data.floatDetected,
+    openingCards: getOpeningCards(cards, data.openers),
+  })).sort((a, b) => a.result - b.result);
   
-  // Create targets
-  const dusk: Target = {
-    result: lowestValue,
-    arrangement: lowestData.arrangement,
-    permutationCount: lowestData.count,
-    floatDetected: lowestData.floatDetected,
-  };
+  const dusk = distribution[0];
+  const dawn = distribution[distribution.length - 1];
   
-  const dawn: Target = {
-    result: highestValue,
-    arrangement: highestData.arrangement,
-    permutationCount: highestData.count,
-    floatDetected: highestData.floatDetected,
-  };
+  // Everything the solver reached that isn't a valid answer; arrangements
+  // with an undefined step reach nothing and are reported on their own
+  const totalPermutations = factorial(cards.length);
+  const validPermutations = distribution.reduce(
+    (total, target) => total + target.permutationCount,
+    0
+  );
   
   // Quality metrics
-  const hasZero = lowestValue === 0;
-  // For sampled results, we can't know if dawn is truly unique
-  const isGood = useExhaustive ? highestData.count === 1 : true;
+  const hasZero = dusk.result === 0;
+  const isGood = dawn.permutationCount === 1;
   
-  return {
+  const analysis = {
     hasValidAnswers: true,
     isGood,
     hasZero,
-    totalPermutations: permutations.length,
+    totalPermutations,
     uniqueAnswers: answerMap.size,
     dusk,
     dawn,
+    distribution,
+    invalidPermutations: totalPermutations - validPermutations - undefinedPermutations,
+    undefinedPermutations,
   };
+  
+  return { ...analysis, rating: rateDifficulty(analysis, rules).score };
 }
 
 /**
- * Create an invalid puzzle result
+ * Position of a value among a puzzle's valid answers, counting from the
+ * lowest (1 = dusk)
+ * 
+ * @returns The 1-based rank, or null if the value is not a valid answer
+ * 
+ * @example
+ * getAnswerRank(puzzleResult, puzzleResult.dusk.result) // → 1
  */
-function createInvalidResult(): PuzzleResult {
+export function getAnswerRank(result: PuzzleResult, value: number): number | null {
+  const index = result.distribution.findIndex((target) => target.result === value);
+  return index === -1 ? null : index + 1;
+}
+
+/**
+ * Distinct cards (by operator and value) selected by an openers bitmask, in
+ * hand order
+ */
+function getOpeningCards(cards: Card[], openers: number): Card[] {
+  const openingCards: Card[] = [];
+  cards.forEach((card, i) => {
+    if (
+      openers & (1 << i) &&
+      !openingCards.some((c) => c.operator === card.operator && c.value === card.value)
+    ) {
+      openingCards.push(card);
+    }
+  });
+  return openingCards;
+}
+
+/**
+ * n! as a plain number (exact for any realistic hand size)
+ */
+function factorial(n: number): number {
+  let result = 1;
+  for (let i = 2; i <= n; i++) {
+    result *= i;
+  }
+  return result;
+}
+
+/**
+ * Create an invalid puzzle result (also used as a placeholder while loading)
+ */
+export function createInvalidResult(): PuzzleResult {
   const emptyTarget: Target = {
     result: 0,
     arrangement: [],
     permutationCount: 0,
     floatDetected: false,
+    openingCards: [],
   };
   
   return {
@@ -297,6 +355,10 @@ function createInvalidResult(): PuzzleResult {
     uniqueAnswers: 0,
     dusk: emptyTarget,
     dawn: emptyTarget,
+    distribution: [],
+    invalidPermutations: 0,
+    undefinedPermutations: 0,
+    rating: 0,
   };
 }
 
@@ -304,12 +366,23 @@ function createInvalidResult(): PuzzleResult {
 // Quality Puzzle Generation
 // =============================================================================
 
-interface FindGoodPuzzleOptions {
+/** Options shared by the difficulty-based generators */
+export interface PuzzleGenerationOptions extends RandomOptions {
+  /** Rule set to analyze puzzles under (defaults to the standard rules) */
+  rules?: RuleSet;
+  /** Card ranges to deal from (defaults to the standard deck) */
+  ranges?: CardRanges;
+  /** Extra requirements the puzzle must meet (see constraints.ts) */
+  constraints?: PuzzleConstraints;
+  /** The player's settings when the difficulty is "custom" */
+  customDifficulty?: CustomDifficultyConfig;
+}
+
+interface FindGoodPuzzleOptions extends PuzzleGenerationOptions {
   cardCount?: number;
   requireZero?: boolean;
   requireGood?: boolean;
   maxAttempts?: number;
-  ranges?: CardRanges;
 }
 
 interface FindGoodPuzzleResult {
@@ -317,8 +390,13 @@ interface FindGoodPuzzleResult {
   result: PuzzleResult;
   attempts: number;
   relaxedQuality: boolean;
+  /** Whether the constraints were met, and what rejected candidates */
+  report: ConstraintReport;
 }
 
+/** Hands dealt per attempt while looking for one that meets the hand constraints */
+const MAX_DEALS_PER_ATTEMPT = 50;
+
 /**
  * Keep generating puzzles until a "good" one is found
  * 
@@ -327,9 +405,19 @@ interface FindGoodPuzzleResult {
  * - (Optional) hasZero: lowest value is 0
  * - (Optional) isGood: unique dawn solution
  * - Reasonable permutation/answer ratio
+ * - Every constraint in `options.constraints`
+ * 
+ * With a seed, every attempt draws from one seeded sequence, so the
+ * returned puzzle is deterministic too.
+ * 
+ * If no suitable puzzle turns up, any valid puzzle is returned; check
+ * `report.satisfied` and `report.failures` to see which constraints could
+ * not be met and why. Constraints that can never hold (e.g. three ÷ cards
+ * in a four-card hand, or a dusk of 5 with requireZero) are reported without
+ * dealing at all.
  * 
  * @param options - Generation options
- * @returns The puzzle and its analysis result
+ * @returns The puzzle, its analysis result and a constraint report
  */
 export function findGoodPuzzle(options: FindGoodPuzzleOptions = {}): FindGoodPuzzleResult {
   const {
@@ -338,12 +426,36 @@ export function findGoodPuzzle(options: FindGoodPuzzleOptions = {}): FindGoodPuz
     requireGood = true,
     maxAttempts = MAX_GENERATION_ATTEMPTS,
     ranges = DEFAULT_CARD_RANGES,
+    rules = DEFAULT_RULE_SET,
+    constraints = {},
   } = options;
   
+  const random = resolveRandom(options);
+  const checker = createConstraintChecker(constraints);
+  const rejections = new Map<ConstraintName, number>();
+  const reject = (constraint: ConstraintName) => {
+    rejections.set(constraint, (rejections.get(constraint) ?? 0) + 1);
+  };
   let attempts = 0;
   let threshold = QUALITY_THRESHOLD;
   let relaxedQuality = false;
   
+  const conflicts = findConstraintConflicts(constraints, cardCount, ranges, {
+    requireZero,
+    rules,
+  });
+  if (conflicts.length > 0) {
+    // Don't waste attempts on a spec nothing can satisfy
+    const puzzle = generatePuzzle(cardCount, ranges, { random });
+    return {
+      puzzle,
+      result: generateAnswers(puzzle, rules),
+      attempts,
+      relaxedQuality: true,
+      report: { satisfied: false, failures: conflicts },
+    };
+  }
+  
   while (attempts < maxAttempts * 2) { // Allow up to 2x attempts with relaxed quality
     attempts++;
     
@@ -353,23 +465,56 @@ export function findGoodPuzzle(options: FindGoodPuzzleOptions = {}): FindGoodPuz
       relaxedQuality = true;
     }
     
-    const puzzle = generatePuzzle(cardCount, ranges);
-    const result = generateAnswers(puzzle);
+    // Hand constraints are cheap, so redeal before analyzing
+    let puzzle = generatePuzzle(cardCount, ranges, { random });
+    let handFailure = checker.checkHand(puzzle);
+    for (let deal = 1; handFailure && deal < MAX_DEALS_PER_ATTEMPT; deal++) {
+      reject(handFailure);
+      puzzle = generatePuzzle(cardCount, ranges, { random });
+      handFailure = checker.checkHand(puzzle);
+    }
+    if (handFailure) {
+      reject(handFailure);
+      continue;
+    }
+    
+    const result = generateAnswers(puzzle, rules);
     
     // Skip invalid puzzles
-    if (!result.hasValidAnswers) continue;
+    if (!result.hasValidAnswers) {
+      reject('validAnswers');
+      continue;
+    }
     
     // Check quality ratio
-    const qualityRatio = result.totalPermutations / result.uniqueAnswers;
+    const qualityRatio =
+      Math.min(result.totalPermutations, QUALITY_RATIO_MAX_PERMUTATIONS) /
+      result.uniqueAnswers;
     const meetsQuality = qualityRatio <= threshold;
     
-    if (!meetsQuality) continue;
+    if (!meetsQuality) {
+      reject('quality');
+      continue;
+    }
     
     // Check zero requirement
-    if (requireZero && !result.hasZero) continue;
+    if (requireZero && !result.hasZero) {
+      reject('requireZero');
+      continue;
+    }
     
     // Check good requirement (can be relaxed if we're past maxAttempts)
-    if (requireGood && !result.isGood && !relaxedQuality) continue;
+    if (requireGood && !result.isGood && !relaxedQuality) {
+      reject('requireGood');
+      continue;
+    }
+    
+    // Check the constraint spec
+    const resultFailure = checker.checkResult(result);
+    if (resultFailure) {
+      reject(resultFailure);
+      continue;
+    }
     
     // Found a suitable puzzle!
     return {
@@ -377,31 +522,44 @@ export function findGoodPuzzle(options: FindGoodPuzzleOptions = {}): FindGoodPuz
       result,
       attempts,
       relaxedQuality,
+      report: { satisfied: true, failures: summarizeRejections(rejections, constraints) },
     };
   }
   
   // Fallback: return any valid puzzle
-  const puzzle = generatePuzzle(cardCount, ranges);
-  const result = generateAnswers(puzzle);
+  const puzzle = generatePuzzle(cardCount, ranges, { random });
+  const result = generateAnswers(puzzle, rules);
   
   return {
     puzzle,
     result,
     attempts,
     relaxedQuality: true,
+    report: {
+      // The fallback hand may meet the spec by chance
+      satisfied: !checker.checkHand(puzzle) && !checker.checkResult(result),
+      failures: summarizeRejections(rejections, constraints),
+    },
   };
 }
 
 /**
  * Find a good puzzle for a specific difficulty level
  */
-export function findGoodPuzzleForDifficulty(difficulty: Difficulty): FindGoodPuzzleResult {
-  const config = DIFFICULTY_CONFIG[difficulty];
+export function findGoodPuzzleForDifficulty(
+  difficulty: Difficulty,
+  options: PuzzleGenerationOptions = {}
+): FindGoodPuzzleResult {
+  const config = getDifficultyConfig(difficulty, options.customDifficulty);
+  const rules = options.rules ?? DEFAULT_RULE_SET;
   
   return findGoodPuzzle({
+    ...options,
     cardCount: config.cards,
-    requireZero: config.zeroGuarantee,
-    requireGood: true,
+    ranges: options.ranges ?? config.ranges,
+    // A zero dusk can't be guaranteed once negative answers count
+    requireZero: config.zeroGuarantee && !rules.allowNegative,
+    requireGood: config.cards <= UNIQUE_DAWN_MAX_CARDS,
   });
 }
 
@@ -412,23 +570,27 @@ export function findGoodPuzzleForDifficulty(difficulty: Difficulty): FindGoodPuz
 /**
  * Create a full Puzzle object with cards, signature, and difficulty
  */
-export function createPuzzle(cards: Card[], difficulty: Difficulty): Puzzle {
+export function createPuzzle(cards: Card[], difficulty: Difficulty, rating?: number): Puzzle {
   return {
     cards,
     signature: toCanonicalSignature(cards),
     difficulty,
+    rating,
   };
 }
 
 /**
  * Generate a complete puzzle with analysis for a difficulty level
  */
-export function generateCompletePuzzle(difficulty: Difficulty): {
+export function generateCompletePuzzle(
+  difficulty: Difficulty,
+  options: PuzzleGenerationOptions = {}
+): {
   puzzle: Puzzle;
   result: PuzzleResult;
 } {
-  const { puzzle: cards, result } = findGoodPuzzleForDifficulty(difficulty);
-  const puzzle = createPuzzle(cards, difficulty);
+  const { puzzle: cards, result } = findGoodPuzzleForDifficulty(difficulty, options);
+  const puzzle = createPuzzle(cards, difficulty, result.rating);
   
   return { puzzle, result };
 }
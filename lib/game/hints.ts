@@ -0,0 +1,141 @@
+/**
+ * Directional hints for Zero Rush v2
+ *
+ * Reveals (see useGame) place solution cards on the table. Directional hints
+ * never place a card; they climb a ladder from vague to specific:
+ *
+ *   1. distance - how far the best attempt is from the target
+ *   2. placement - an operator that belongs early or late in a solution
+ *   3. opener - a card that cannot come first in any solution
+ *
+ * Steps with nothing to say for a hand (every card can open a solution, say)
+ * are left off the ladder.
+ */
+
+import type { Card, DirectionalHint, DistanceBucket, Target } from '../types/game';
+import { HINT_DISTANCE_BUCKETS, OPERATOR_DISPLAY } from './constants';
+import { formatCardForDisplay } from './evaluate';
+import { OPERATOR_DEFINITIONS } from './operators';
+import { compareCards } from './signature';
+
+// =============================================================================
+// Ladder
+// =============================================================================
+
+/**
+ * Build the directional hint ladder for one target
+ *
+ * @param target - The dusk or dawn target (see generateAnswers)
+ * @param cards - The puzzle cards
+ * @returns Hints in the order they are unlocked (empty for an unsolved target)
+ *
+ * @example
+ * const ladder = buildDirectionalHintLadder(puzzleResult.dusk, cards);
+ * ladder.slice(0, unlocked) // → the hints the player has paid for
+ */
+export function buildDirectionalHintLadder(target: Target, cards: Card[]): DirectionalHint[] {
+  // Unsolvable hands (and the placeholder while loading) have nothing to hint at
+  if (target.arrangement.length === 0) return [];
+
+  const ladder: DirectionalHint[] = [{ kind: 'distance' }];
+
+  const placement = findPlacementHint(target.arrangement);
+  if (placement) ladder.push(placement);
+
+  const opener = findOpenerHint(target, cards);
+  if (opener) ladder.push(opener);
+
+  return ladder;
+}
+
+/**
+ * Bucket the distance between an attempt and a target
+ *
+ * @example
+ * getDistanceBucket(12, 10) // → 'very-close'
+ */
+export function getDistanceBucket(attempt: number, target: number): DistanceBucket {
+  const distance = Math.abs(attempt - target);
+  return HINT_DISTANCE_BUCKETS.find(({ max }) => distance <= max)?.bucket ?? 'very-far';
+}
+
+/**
+ * Describe a directional hint for display
+ *
+ * @param hint - A step from buildDirectionalHintLadder
+ * @param type - Which target the hint is for
+ * @param distance - Bucket for the best attempt (null before any valid attempt)
+ *
+ * @example
+ * describeDirectionalHint({ kind: 'distance' }, 'dusk', 'close') // → "Your best is 3–5 away from dusk"
+ */
+export function describeDirectionalHint(
+  hint: DirectionalHint,
+  type: 'dusk' | 'dawn',
+  distance: DistanceBucket | null
+): string {
+  switch (hint.kind) {
+    case 'distance':
+      return distance === null
+        ? `Submit an attempt to see how far you are from ${type}`
+        : `Your best is ${describeDistance(distance, type)}`;
+    case 'placement':
+      return `${OPERATOR_DISPLAY[hint.operator]} cards sit ${hint.position} in a ${type} solution`;
+    case 'opener':
+      return `${formatCardForDisplay(hint.card)} can't come first in any ${type} solution`;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * The operator whose cards sit furthest from the middle of the example
+ * arrangement, on average. Operators that fill the whole arrangement say
+ * nothing about order and are skipped.
+ */
+function findPlacementHint(arrangement: Card[]): DirectionalHint | null {
+  const middle = (arrangement.length - 1) / 2;
+  let best: DirectionalHint | null = null;
+  let bestOffset = 0;
+
+  for (const { symbol } of OPERATOR_DEFINITIONS) {
+    const positions = arrangement.flatMap((card, i) => (card.operator === symbol ? [i] : []));
+    if (positions.length === 0 || positions.length === arrangement.length) continue;
+
+    const offset = positions.reduce((total, i) => total + i, 0) / positions.length - middle;
+    if (Math.abs(offset) > Math.abs(bestOffset)) {
+      bestOffset = offset;
+      best = { kind: 'placement', operator: symbol, position: offset < 0 ? 'early' : 'late' };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * The first card (in canonical order) that opens no arrangement reaching the target
+ */
+function findOpenerHint(target: Target, cards: Card[]): DirectionalHint | null {
+  const card = [...cards]
+    .sort(compareCards)
+    .find(
+      (candidate) =>
+        !target.openingCards.some(
+          (opener) => opener.operator === candidate.operator && opener.value === candidate.value
+        )
+    );
+  return card ? { kind: 'opener', card } : null;
+}
+
+function describeDistance(distance: DistanceBucket, type: 'dusk' | 'dawn'): string {
+  const index = HINT_DISTANCE_BUCKETS.findIndex(({ bucket }) => bucket === distance);
+  if (index === -1) {
+    return `more than ${HINT_DISTANCE_BUCKETS[HINT_DISTANCE_BUCKETS.length - 1].max} away from ${type}`;
+  }
+  const { max } = HINT_DISTANCE_BUCKETS[index];
+  return index === 0
+    ? `within ${max} of ${type}`
+    : `${HINT_DISTANCE_BUCKETS[index - 1].max + 1}–${max} away from ${type}`;
+}
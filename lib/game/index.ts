@@ -10,18 +10,31 @@
 // Types
 export type {
   Card,
+  CardRange,
+  CardRanges,
   CardString,
+  CustomDifficultyConfig,
+  DailyCompletion,
+  DailyPuzzle,
   Difficulty,
+  DifficultyRating,
   DifficultyConfig,
+  DirectionalHint,
+  DistanceBucket,
   EvaluationResult,
+  FirstCardRule,
   GameMode,
   GameRecord,
+  InvalidReason,
   Operator,
+  Precedence,
   Puzzle,
   PuzzleQuality,
   PuzzleResult,
+  Rational,
   RoomConfig,
   RoomState,
+  RuleSet,
   Target,
   UserProfile,
   UserSettings,
@@ -35,18 +48,32 @@ export { getPuzzleQuality } from '../types/game';
 // Constants
 export {
   CHALLENGER_UNLOCK_TIME_MS,
+  DAILY_DIFFICULTIES,
   DEFAULT_CARD_RANGES,
+  DEFAULT_ROOM_CONFIG,
+  DEFAULT_RULE_SET,
   DEFAULT_USER_SETTINGS,
+  DIFFICULTIES,
   DIFFICULTY_CONFIG,
+  DIFFICULTY_RATING_WEIGHTS,
   EXTENDED_CARD_RANGES,
+  FREE_HINTS_PER_DAY,
   GAME_COLORS,
+  GAME_IDLE_TIMEOUT_MS,
+  GEMS_PER_ACCEPTED_SUBMISSION,
   GEMS_PER_STREAK_MILESTONE,
   HINT_COST,
+  HINT_DISTANCE_BUCKETS,
   MAX_ATTEMPTS,
   MAX_GENERATION_ATTEMPTS,
   MAX_SEARCH_HISTORY,
+  MULTIPLAYER_COUNTDOWN_MS,
+  MULTIPLAYER_HAND_SIZES,
   MULTIPLAYER_MAX_PLAYERS,
+  MULTIPLAYER_MIN_PLAYERS,
+  MULTIPLAYER_REVEAL_MS,
   MULTIPLAYER_ROUND_OPTIONS,
+  MULTIPLAYER_SCORING_MS,
   MULTIPLAYER_TIME_LIMITS,
   OPERATOR_DISPLAY,
   OPERATOR_ORDER,
@@ -56,19 +83,68 @@ export {
   POINTS_NEITHER,
   POINTS_ONE,
   QUALITY_COLORS,
+  QUALITY_RATIO_MAX_PERMUTATIONS,
   QUALITY_THRESHOLD,
+  RATING_MAX_PERMUTATIONS,
   RELAXED_QUALITY_THRESHOLD,
   SKIN_COST,
+  STANDARD_OPERATORS,
   STREAK_MILESTONE_INTERVAL,
   STREAK_SAVE_COST,
+  UNIQUE_DAWN_MAX_CARDS,
+  VARIANT_CARD_RANGES,
 } from './constants';
 
+// Constraints
+export type {
+  ConstraintChecker,
+  ConstraintFailure,
+  ConstraintName,
+  ConstraintReport,
+  ConstraintRequirements,
+  PuzzleConstraints,
+  ValueBounds,
+  ValueConstraint,
+} from './constraints';
+export {
+  createConstraintChecker,
+  describeConstraint,
+  findConstraintConflicts,
+  satisfiesValue,
+  summarizeRejections,
+} from './constraints';
+
+// Custom difficulty
+export {
+  CUSTOM_CARD_COUNT,
+  CUSTOM_RANGE_LIMITS,
+  DEFAULT_CUSTOM_DIFFICULTY,
+  decodeCustomDifficulty,
+  encodeCustomDifficulty,
+  findCustomDifficultyProblems,
+  getDifficultyConfig,
+  getDifficultyForCards,
+} from './custom-difficulty';
+
+// Daily puzzles
+export {
+  generateDailyPuzzle,
+  generateDailyPuzzles,
+  getDailyDate,
+  getDailyPuzzleId,
+  isDailyAvailable,
+  isDailyDifficulty,
+  isValidDailyDate,
+} from './daily';
+
 // Evaluation
 export {
   cardToString,
   cardsToStrings,
+  describeInvalidReason,
   evaluate,
   evaluateFromStrings,
+  explainInvalidResult,
   formatCardForDisplay,
   getEvaluationDisplay,
   isValidAnswer,
@@ -79,18 +155,228 @@ export {
 } from './evaluate';
 
 // Generation
+export type { PuzzleGenerationOptions } from './generate';
 export {
+  createInvalidResult,
   createPuzzle,
   findGoodPuzzle,
   findGoodPuzzleForDifficulty,
   generateAnswers,
   generateCompletePuzzle,
+  getAnswerRank,
   generatePuzzle,
   generatePuzzleForDifficulty,
   permute,
   permutePuzzle,
 } from './generate';
 
+// Directional hints
+export {
+  buildDirectionalHintLadder,
+  describeDirectionalHint,
+  getDistanceBucket,
+} from './hints';
+
+// Operators
+export type { OperatorDefinition, OperatorPrecedence } from './operators';
+export {
+  applyOperator,
+  getCardRanges,
+  getOperatorDefinition,
+  getOperatorForUrlLetter,
+  isRegisteredOperator,
+  mapOperators,
+  OPERATOR_DEFINITIONS,
+} from './operators';
+
+// Reachable range
+export type { ReachableRange, TargetValues } from './reachable';
+export { findReachableRange, solveReachableRange } from './reachable';
+
+// Puzzle packs
+export type {
+  PackPuzzle,
+  PackablePuzzle,
+  PuzzlePack,
+  PuzzlePackFile,
+  PuzzlePackFileEntry,
+  PuzzlePackImport,
+} from './pack';
+export {
+  MAX_PACK_PUZZLES,
+  PUZZLE_PACK_FORMAT,
+  PUZZLE_PACK_VERSION,
+  exportPuzzlePack,
+  getPuzzlePackId,
+  importPuzzlePack,
+} from './pack';
+
+// Player profile
+export type { TimedRun } from './profile';
+export {
+  LOCAL_PROFILE_ID,
+  createUserProfile,
+  earnsChallengerUnlock,
+  formatClock,
+  unlockChallenger,
+} from './profile';
+
+// Gem ledger
+export type { GemEarnReason, GemSpendReason, GemTransactionOptions } from './gems';
+export {
+  GEM_COSTS,
+  canAffordGems,
+  creditPuzzleSubmission,
+  creditStreakMilestone,
+  earnGems,
+  getFreeHintsLeft,
+  getGemBalance,
+  getHintCost,
+  spendGems,
+  spendHint,
+} from './gems';
+
+// Game records
+export type { GameActivity, GameRecordSink, GameRecordState } from './records';
+export {
+  createGameRecord,
+  markGameActivity,
+  pauseGameActivity,
+  recordGameSubmission,
+  resumeGameActivity,
+  startGameActivity,
+} from './records';
+
+// Stats
+export type {
+  AttemptsBucket,
+  HintUsageDay,
+  StatsFilter,
+  StatsGame,
+  StatsSummary,
+  TargetSuccess,
+} from './stats';
+export {
+  ATTEMPTS_DISTRIBUTION_MAX,
+  collectStatsGames,
+  computeUserStats,
+  filterStatsGames,
+  gameRecordToStatsGame,
+  getAttemptsDistribution,
+  getHintUsage,
+  getTargetSuccess,
+  historyEntryToStatsGame,
+  summarizeStats,
+} from './stats';
+
+// Multiplayer rooms
+export type {
+  Room,
+  RoomAction,
+  RoomDeal,
+  RoomPlayer,
+  RoomPlayerView,
+  RoomRound,
+  RoomRoundView,
+  RoomSummary,
+  RoomView,
+} from './room';
+export {
+  ROOM_PLAYER_NAME_MAX,
+  RoomError,
+  advanceRoom,
+  applyRoomAction,
+  createRoom,
+  createRoomCode,
+  dealRoomHand,
+  disconnectPlayer,
+  getRoomPoints,
+  getRoomView,
+  isDealDue,
+  isRoomEmpty,
+  joinRoom,
+  listPublicRooms,
+  normalizeRoomCode,
+  scoreSubmission,
+  validateRoomConfig,
+} from './room';
+export type { RoomClientMessage, RoomServerMessage } from './room-protocol';
+export {
+  DEFAULT_ROOM_SERVER_PORT,
+  parseRoomClientMessage,
+  parseRoomServerMessage,
+} from './room-protocol';
+
+// Streaks
+export type { StreakState, StreakStatus, StreakSummary } from './streak';
+export {
+  canSaveStreak,
+  formatStreak,
+  getDaysBetween,
+  getStreakStatus,
+  recordDailyStreak,
+  saveStreak,
+} from './streak';
+
+// Puzzle warnings
+export type { PuzzleWarning, PuzzleWarningSeverity } from './warnings';
+export { getPuzzleWarnings } from './warnings';
+
+// Difficulty rating
+export { rateDifficulty } from './rating';
+
+// Random
+export type { RandomOptions, RandomSource, Seed } from './random';
+export {
+  createRandom,
+  hashSeed,
+  normalizeSeed,
+  randomInt,
+  resolveRandom,
+} from './random';
+
+// Exact arithmetic
+export {
+  addRational,
+  createRational,
+  formatRational,
+  gcd,
+  isIntegerRational,
+  rationalToNumber,
+} from './rational';
+
+// Rules
+export type { EvaluationState } from './rules';
+export {
+  decodeRuleBits,
+  decodeRuleSet,
+  encodeRuleBits,
+  encodeRuleSet,
+  finishEvaluation,
+  isDefaultRuleSet,
+  isWholeState,
+  resolveRuleSet,
+  ruleSetsAreEqual,
+  settleEvaluation,
+  startEvaluation,
+  stepEvaluation,
+  tryStartEvaluation,
+  tryStepEvaluation,
+} from './rules';
+
+// Share codes
+export type { SharedPuzzle } from './share-code';
+export {
+  SHARE_CODE_VERSION,
+  decodeShareCode,
+  encodeShareCode,
+  isShareCode,
+} from './share-code';
+
+// Solving
+export type { AnswerSearch, SolvedAnswer } from './solve';
+export { solveAllAnswers } from './solve';
+
 // Signatures
 export {
   compareCards,
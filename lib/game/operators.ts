@@ -0,0 +1,259 @@
+/**
+ * Operator registry for Zero Rush v2
+ *
+ * Every card operator is described once here: how it changes a running
+ * total, how it is displayed, where it sorts in a canonical signature, the
+ * letter that stands in for it in share URLs and which values its cards take.
+ * Constants, evaluation, signatures and deck generation all read from this
+ * table, so adding an operator means adding one entry.
+ *
+ * The standard deck uses + − × ÷. The variant operators - ^ (power),
+ * % (modulo) and & (digit concatenation) - are only dealt when a deck's
+ * card ranges include them.
+ */
+
+import type { CardRange, CardRanges, Operator, Rational } from '../types/game';
+import { createRational, gcd } from './rational';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * How tightly an operator binds under PEMDAS.
+ * Left-to-right evaluation ignores precedence entirely.
+ */
+export type OperatorPrecedence = 'additive' | 'multiplicative' | 'power';
+
+/** Everything the game needs to know about one operator */
+export interface OperatorDefinition {
+  /** Character used in cards and signatures */
+  symbol: Operator;
+  /** Human-readable name */
+  name: string;
+  /** Glyph shown in the UI */
+  display: string;
+  /** Position in canonical signatures (lower sorts first) */
+  order: number;
+  /** Letter that replaces the symbol in share URLs */
+  urlLetter: string;
+  /** Binding strength under PEMDAS */
+  precedence: OperatorPrecedence;
+  /** Card values in a normal deck */
+  range: CardRange;
+  /** Card values in an extended deck */
+  extendedRange: CardRange;
+  /** Whether the standard game deals this operator */
+  standard: boolean;
+  /**
+   * Apply the operator to an exact running total
+   * @throws RangeError if the result is undefined or leaves the exact range
+   */
+  apply: (total: Rational, value: number) => Rational;
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+/** All operators, in canonical order */
+export const OPERATOR_DEFINITIONS: readonly OperatorDefinition[] = [
+  {
+    symbol: '+',
+    name: 'add',
+    display: '+',
+    order: 0,
+    urlLetter: 'a',
+    precedence: 'additive',
+    range: { min: 1, max: 9 },
+    extendedRange: { min: 1, max: 18 },
+    standard: true,
+    apply: ({ numerator, denominator }, value) =>
+      createRational(numerator + value * denominator, denominator),
+  },
+  {
+    symbol: '-',
+    name: 'subtract',
+    display: '−', // minus sign (not hyphen)
+    order: 1,
+    urlLetter: 's',
+    precedence: 'additive',
+    range: { min: 1, max: 9 },
+    extendedRange: { min: 1, max: 18 },
+    standard: true,
+    apply: ({ numerator, denominator }, value) =>
+      createRational(numerator - value * denominator, denominator),
+  },
+  {
+    symbol: '*',
+    name: 'multiply',
+    display: '×',
+    order: 2,
+    urlLetter: 'm',
+    precedence: 'multiplicative',
+    range: { min: 2, max: 9 },
+    extendedRange: { min: 2, max: 12 },
+    standard: true,
+    apply: ({ numerator, denominator }, value) => {
+      // Cancel before multiplying to keep intermediates small
+      const divisor = gcd(value, denominator) || 1;
+      return createRational(numerator * (value / divisor), denominator / divisor);
+    },
+  },
+  {
+    symbol: '÷',
+    name: 'divide',
+    display: '÷',
+    order: 3,
+    urlLetter: 'd',
+    precedence: 'multiplicative',
+    range: { min: 2, max: 9 },
+    extendedRange: { min: 2, max: 12 },
+    standard: true,
+    apply: ({ numerator, denominator }, value) => {
+      if (value === 0) {
+        throw new RangeError('Division by zero');
+      }
+      const divisor = gcd(numerator, value) || 1;
+      return createRational(numerator / divisor, denominator * (value / divisor));
+    },
+  },
+  {
+    symbol: '^',
+    name: 'power',
+    display: '^',
+    order: 4,
+    urlLetter: 'p',
+    precedence: 'power',
+    range: { min: 2, max: 3 },
+    extendedRange: { min: 2, max: 4 },
+    standard: false,
+    // A reduced fraction stays reduced when both parts are raised
+    apply: ({ numerator, denominator }, value) =>
+      createRational(numerator ** value, denominator ** value),
+  },
+  {
+    symbol: '%',
+    name: 'modulo',
+    display: '%',
+    order: 5,
+    urlLetter: 'r',
+    precedence: 'multiplicative',
+    range: { min: 2, max: 9 },
+    extendedRange: { min: 2, max: 12 },
+    standard: false,
+    // Floored modulo: the result always lies in [0, value), even for
+    // negative or fractional totals (n/d mod v = (n mod v·d) / d)
+    apply: ({ numerator, denominator }, value) => {
+      if (value === 0) {
+        throw new RangeError('Modulo by zero');
+      }
+      const modulus = value * denominator;
+      if (!Number.isSafeInteger(modulus)) {
+        throw new RangeError(`Modulus out of exact range: ${modulus}`);
+      }
+      return createRational(((numerator % modulus) + modulus) % modulus, denominator);
+    },
+  },
+  {
+    symbol: '&',
+    name: 'concatenate',
+    display: '&',
+    order: 6,
+    urlLetter: 'c',
+    precedence: 'power',
+    range: { min: 1, max: 9 },
+    extendedRange: { min: 1, max: 12 },
+    standard: false,
+    // Append the card's digits: 12 & 3 → 123, −4 & 5 → −45
+    apply: ({ numerator, denominator }, value) => {
+      if (denominator !== 1) {
+        throw new RangeError('Cannot concatenate digits onto a fraction');
+      }
+      const shift = 10 ** String(value).length;
+      const sign = numerator < 0 ? -1 : 1;
+      return createRational(numerator * shift + sign * value);
+    },
+  },
+];
+
+// A plain record (rather than a Map) keeps the solver's hot path fast
+const DEFINITIONS_BY_SYMBOL = Object.fromEntries(
+  OPERATOR_DEFINITIONS.map((definition) => [definition.symbol, definition])
+) as Record<Operator, OperatorDefinition>;
+
+const DEFINITIONS_BY_URL_LETTER = new Map<string, OperatorDefinition>(
+  OPERATOR_DEFINITIONS.map((definition) => [definition.urlLetter, definition])
+);
+
+// =============================================================================
+// Lookup
+// =============================================================================
+
+/**
+ * Get the definition for an operator
+ */
+export function getOperatorDefinition(operator: Operator): OperatorDefinition {
+  return DEFINITIONS_BY_SYMBOL[operator];
+}
+
+/**
+ * Check if a character is a registered operator
+ */
+export function isRegisteredOperator(char: string): char is Operator {
+  return Object.hasOwn(DEFINITIONS_BY_SYMBOL, char);
+}
+
+/**
+ * Find the operator a share URL letter stands for
+ */
+export function getOperatorForUrlLetter(letter: string): Operator | null {
+  return DEFINITIONS_BY_URL_LETTER.get(letter)?.symbol ?? null;
+}
+
+/**
+ * Build a Record keyed by every operator from one of its definition fields
+ */
+export function mapOperators<T>(
+  select: (definition: OperatorDefinition) => T
+): Record<Operator, T> {
+  return Object.fromEntries(
+    OPERATOR_DEFINITIONS.map((definition) => [definition.symbol, select(definition)])
+  ) as Record<Operator, T>;
+}
+
+/**
+ * Card ranges for a set of operators, from the registry
+ *
+ * @example
+ * getCardRanges(['+', '-', '^']) // → { '+': { min: 1, max: 9 }, ... }
+ */
+export function getCardRanges(
+  operators: readonly Operator[],
+  extended: boolean = false
+): CardRanges {
+  const ranges: CardRanges = {};
+  for (const operator of operators) {
+    const definition = getOperatorDefinition(operator);
+    ranges[operator] = extended ? definition.extendedRange : definition.range;
+  }
+  return ranges;
+}
+
+// =============================================================================
+// Arithmetic
+// =============================================================================
+
+/**
+ * Apply a card's operator and value to a running total
+ *
+ * @throws RangeError if the step is undefined (÷0, concatenating onto a
+ *   fraction) or the result leaves the exact range
+ *
+ * @example
+ * applyOperator(createRational(7), '÷', 3) // → { numerator: 7, denominator: 3 }
+ * applyOperator(createRational(12), '&', 3) // → { numerator: 123, denominator: 1 }
+ */
+export function applyOperator(total: Rational, operator: Operator, value: number): Rational {
+  return getOperatorDefinition(operator).apply(total, value);
+}
@@ -0,0 +1,304 @@
+/**
+ * Puzzle packs for Zero Rush v2
+ *
+ * A puzzle pack is a JSON file holding an ordered set of puzzles, so a set
+ * can be passed around whole instead of link by link:
+ *
+ *   {
+ *     "format": "zero-rush-pack",
+ *     "version": 1,
+ *     "title": "Friday warm-up",
+ *     "author": "Sam",
+ *     "puzzles": [
+ *       { "signature": "+3,-5,*2,÷4", "difficulty": "easy", "dusk": 0, "dawn": 9 },
+ *       { "signature": "+1,+7,-2,*3,*5", "difficulty": "custom", "custom": "5h_a1-7_s2-2_m3-5",
+ *         "dusk": 6, "dawn": 150 }
+ *     ]
+ *   }
+ *
+ * `rules` and `custom` use the same codes as share links (encodeRuleSet,
+ * encodeCustomDifficulty) and are omitted for the standard rules and preset
+ * difficulties. dusk and dawn are a convenience for readers of the file:
+ * imports re-solve every puzzle and reject a pack whose values disagree.
+ */
+
+import type { Card, CustomDifficultyConfig, Difficulty, RuleSet } from '../types/game';
+import { DEFAULT_RULE_SET, DIFFICULTIES } from './constants';
+import {
+  CUSTOM_CARD_COUNT,
+  decodeCustomDifficulty,
+  encodeCustomDifficulty,
+  getDifficultyConfig,
+} from './custom-difficulty';
+import { generateAnswers } from './generate';
+import { decodeRuleSet, encodeRuleSet } from './rules';
+import {
+  fromSignature,
+  isValidSignature,
+  signatureToShortHash,
+  toCanonicalSignature,
+} from './signature';
+
+// =============================================================================
+// Format
+// =============================================================================
+
+/** Marks a JSON file as a puzzle pack */
+export const PUZZLE_PACK_FORMAT = 'zero-rush-pack';
+
+/** Current pack file version */
+export const PUZZLE_PACK_VERSION = 1;
+
+/** Most puzzles a pack may hold (imports re-solve every one) */
+export const MAX_PACK_PUZZLES = 100;
+
+/** A puzzle as written in a pack file */
+export interface PuzzlePackFileEntry {
+  /** Canonical signature of the cards */
+  signature: string;
+  difficulty: Difficulty;
+  /** Rule set code (omitted for the standard rules) */
+  rules?: string;
+  /** Custom difficulty code (custom difficulty only) */
+  custom?: string;
+  dusk: number;
+  dawn: number;
+}
+
+/** A pack file as written to disk */
+export interface PuzzlePackFile {
+  format: typeof PUZZLE_PACK_FORMAT;
+  version: number;
+  title: string;
+  author: string;
+  puzzles: PuzzlePackFileEntry[];
+}
+
+/** A pack puzzle, decoded and checked */
+export interface PackPuzzle {
+  cards: Card[];
+  signature: string;
+  difficulty: Difficulty;
+  rules: RuleSet;
+  customDifficulty?: CustomDifficultyConfig;
+  duskValue: number;
+  dawnValue: number;
+}
+
+/** A loaded puzzle pack */
+export interface PuzzlePack {
+  /** Stable ID derived from the puzzles (see getPuzzlePackId) */
+  id: string;
+  title: string;
+  author: string;
+  puzzles: PackPuzzle[];
+}
+
+/** Anything a pack can be built from, e.g. puzzle history entries */
+export interface PackablePuzzle {
+  cards: Card[];
+  difficulty: Difficulty;
+  rules?: RuleSet;
+  customDifficulty?: CustomDifficultyConfig;
+  duskValue: number;
+  dawnValue: number;
+}
+
+/** Outcome of reading a pack file */
+export type PuzzlePackImport =
+  | { pack: PuzzlePack; problems: [] }
+  | { pack: null; problems: string[] };
+
+/**
+ * ID that identifies a pack by its puzzles, so progress survives re-imports
+ * and renames
+ */
+export function getPuzzlePackId(puzzles: { signature: string; difficulty: Difficulty }[]): string {
+  return signatureToShortHash(
+    puzzles.map(({ signature, difficulty }) => `${difficulty}:${signature}`).join('|')
+  );
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/**
+ * Write puzzles as a pack file, in the order given
+ *
+ * @example
+ * exportPuzzlePack('Friday warm-up', 'Sam', favorites)
+ * // → '{\n  "format": "zero-rush-pack",\n  "version": 1,\n  ...'
+ */
+export function exportPuzzlePack(
+  title: string,
+  author: string,
+  puzzles: PackablePuzzle[]
+): string {
+  const file: PuzzlePackFile = {
+    format: PUZZLE_PACK_FORMAT,
+    version: PUZZLE_PACK_VERSION,
+    title: title.trim(),
+    author: author.trim(),
+    puzzles: puzzles.map((puzzle): PuzzlePackFileEntry => {
+      const rulesCode = encodeRuleSet(puzzle.rules ?? DEFAULT_RULE_SET);
+      const custom = puzzle.difficulty === 'custom' ? puzzle.customDifficulty : undefined;
+      return {
+        signature: toCanonicalSignature(puzzle.cards),
+        difficulty: puzzle.difficulty,
+        ...(rulesCode ? { rules: rulesCode } : {}),
+        ...(custom ? { custom: encodeCustomDifficulty(custom) } : {}),
+        dusk: puzzle.duskValue,
+        dawn: puzzle.dawnValue,
+      };
+    }),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+/**
+ * Read and check a pack file
+ *
+ * Every puzzle's signature must be valid and canonical, and every puzzle is
+ * re-solved under its rules: a dusk or dawn that doesn't match the cards
+ * rejects the whole pack.
+ *
+ * @returns The pack, or the problems that stop it loading (one per line)
+ */
+export function importPuzzlePack(text: string): PuzzlePackImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { pack: null, problems: ['the file is not valid JSON'] };
+  }
+
+  if (!isRecord(data) || data.format !== PUZZLE_PACK_FORMAT) {
+    return { pack: null, problems: ['the file is not a puzzle pack'] };
+  }
+  if (!Number.isInteger(data.version) || (data.version as number) < 1) {
+    return { pack: null, problems: ['the pack has no valid version'] };
+  }
+  if ((data.version as number) > PUZZLE_PACK_VERSION) {
+    return {
+      pack: null,
+      problems: [`the pack uses version ${data.version}; update Zero Rush to open it`],
+    };
+  }
+
+  const problems: string[] = [];
+  if (typeof data.title !== 'string' || data.title.trim() === '') {
+    problems.push('the pack needs a title');
+  }
+  if (typeof data.author !== 'string') {
+    problems.push('the pack needs an author');
+  }
+  if (!Array.isArray(data.puzzles) || data.puzzles.length === 0) {
+    problems.push('the pack has no puzzles');
+  } else if (data.puzzles.length > MAX_PACK_PUZZLES) {
+    problems.push(`the pack holds more than ${MAX_PACK_PUZZLES} puzzles`);
+  }
+  if (problems.length > 0) return { pack: null, problems };
+
+  const puzzles: PackPuzzle[] = [];
+  (data.puzzles as unknown[]).forEach((entry, index) => {
+    const puzzle = readPackPuzzle(entry);
+    if (typeof puzzle === 'string') {
+      problems.push(`puzzle ${index + 1}: ${puzzle}`);
+    } else {
+      puzzles.push(puzzle);
+    }
+  });
+  if (problems.length > 0) return { pack: null, problems };
+
+  return {
+    pack: {
+      id: getPuzzlePackId(puzzles),
+      title: (data.title as string).trim(),
+      author: (data.author as string).trim(),
+      puzzles,
+    },
+    problems: [],
+  };
+}
+
+/**
+ * Decode and re-solve one pack entry
+ *
+ * @returns The puzzle, or what's wrong with it
+ */
+function readPackPuzzle(entry: unknown): PackPuzzle | string {
+  if (!isRecord(entry)) return 'not a puzzle';
+
+  const { signature, difficulty, dusk, dawn } = entry;
+  if (typeof signature !== 'string' || !isValidSignature(signature)) {
+    return 'the signature is not valid';
+  }
+  if (!DIFFICULTIES.includes(difficulty as Difficulty)) {
+    return 'unknown difficulty';
+  }
+
+  const rules = entry.rules === undefined ? DEFAULT_RULE_SET : readCode(entry.rules, decodeRuleSet);
+  if (!rules) return 'the rules code is not valid';
+
+  const cards = fromSignature(signature);
+  // Checked before anything is solved: solving grows factorially with the hand
+  if (cards.length > CUSTOM_CARD_COUNT.max) {
+    return `${cards.length} cards is more than the ${CUSTOM_CARD_COUNT.max} a puzzle can have`;
+  }
+
+  let customDifficulty: CustomDifficultyConfig | undefined;
+  if (difficulty === 'custom') {
+    customDifficulty = readCode(entry.custom, decodeCustomDifficulty) ?? undefined;
+    if (!customDifficulty) return 'custom puzzles need a valid custom code';
+    if (getDifficultyConfig('custom', customDifficulty).cards !== cards.length) {
+      return `the custom code deals ${customDifficulty.cards} cards, not ${cards.length}`;
+    }
+  } else if (entry.custom !== undefined) {
+    return 'only custom puzzles take a custom code';
+  } else {
+    const expected = getDifficultyConfig(difficulty as Difficulty).cards;
+    if (cards.length !== expected) {
+      return `${difficulty} puzzles have ${expected} cards, not ${cards.length}`;
+    }
+  }
+
+  if (!Number.isInteger(dusk) || !Number.isInteger(dawn)) {
+    return 'dusk and dawn must be whole numbers';
+  }
+
+  const result = generateAnswers(cards, rules);
+  if (!result.hasValidAnswers) return 'the cards have no dusk and dawn';
+  if (result.dusk.result !== dusk) {
+    return `dusk is listed as ${dusk}, but the cards reach ${result.dusk.result}`;
+  }
+  if (result.dawn.result !== dawn) {
+    return `dawn is listed as ${dawn}, but the cards reach ${result.dawn.result}`;
+  }
+
+  return {
+    cards,
+    signature,
+    difficulty: difficulty as Difficulty,
+    rules,
+    customDifficulty,
+    duskValue: result.dusk.result,
+    dawnValue: result.dawn.result,
+  };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readCode<T>(code: unknown, decode: (code: string) => T | null): T | null {
+  return typeof code === 'string' ? decode(code) : null;
+}
@@ -0,0 +1,110 @@
+/**
+ * Player profile for Zero Rush v2
+ *
+ * Until accounts exist the profile lives on the device (see useUserProfile).
+ * This module holds the pure rules: the starting profile and how Challenger
+ * is earned (D006) - clearing Hard in timed mode in under
+ * CHALLENGER_UNLOCK_TIME_MS.
+ */
+
+import type { Difficulty, UserProfile } from '../types/game';
+import { CHALLENGER_UNLOCK_TIME_MS, DEFAULT_USER_SETTINGS, DIFFICULTIES } from './constants';
+
+/** Profile ID used until accounts exist */
+export const LOCAL_PROFILE_ID = 'local';
+
+// =============================================================================
+// Creation
+// =============================================================================
+
+/**
+ * A new player's profile: default settings, empty stats, Challenger locked
+ */
+export function createUserProfile(now: number = Date.now()): UserProfile {
+  const perDifficulty = () =>
+    Object.fromEntries(DIFFICULTIES.map((difficulty) => [difficulty, 0])) as Record<
+      Difficulty,
+      number
+    >;
+
+  return {
+    id: LOCAL_PROFILE_ID,
+    displayName: 'Player',
+    createdAt: now,
+    settings: { ...DEFAULT_USER_SETTINGS, zeroGuarantee: { ...DEFAULT_USER_SETTINGS.zeroGuarantee } },
+    stats: {
+      totalGamesPlayed: 0,
+      gamesPerDifficulty: perDifficulty(),
+      winRate: perDifficulty(),
+      averageSolveTime: perDifficulty(),
+      bestTimes: perDifficulty(),
+      puzzlesStarred: 0,
+    },
+    currentStreak: 0,
+    longestStreak: 0,
+    streakSavesUsed: 0,
+    challengerUnlocked: false,
+  };
+}
+
+// =============================================================================
+// Challenger Unlock
+// =============================================================================
+
+/** A finished puzzle, as far as the unlock rule cares */
+export interface TimedRun {
+  difficulty: Difficulty;
+  /** Whether the puzzle was played in timed mode */
+  timed: boolean;
+  /** Time on the clock at completion (excludes time the tab was hidden) */
+  durationMs: number;
+  /** Revealed cards and directional steps used on the puzzle */
+  hintsUsed: number;
+}
+
+/**
+ * Check whether a finished puzzle earns the Challenger unlock: Hard, timed,
+ * under CHALLENGER_UNLOCK_TIME_MS and without hints
+ *
+ * @example
+ * earnsChallengerUnlock({ difficulty: 'hard', timed: true, durationMs: 4 * 60_000, hintsUsed: 0 }) // → true
+ * earnsChallengerUnlock({ difficulty: 'hard', timed: true, durationMs: 4 * 60_000, hintsUsed: 1 }) // → false
+ * earnsChallengerUnlock({ difficulty: 'hard', timed: false, durationMs: 60_000, hintsUsed: 0 }) // → false
+ */
+export function earnsChallengerUnlock(run: TimedRun): boolean {
+  return (
+    run.difficulty === 'hard' &&
+    run.timed &&
+    run.durationMs < CHALLENGER_UNLOCK_TIME_MS &&
+    run.hintsUsed === 0
+  );
+}
+
+/**
+ * Unlock Challenger (keeps the original unlock time if already unlocked)
+ */
+export function unlockChallenger(profile: UserProfile, now: number = Date.now()): UserProfile {
+  if (profile.challengerUnlocked) return profile;
+  return { ...profile, challengerUnlocked: true, challengerUnlockedAt: now };
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+/**
+ * Format a clock reading as m:ss (or h:mm:ss past an hour)
+ *
+ * @example
+ * formatClock(65_400) // → "1:05"
+ * formatClock(3_725_000) // → "1:02:05"
+ */
+export function formatClock(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
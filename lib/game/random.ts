@@ -0,0 +1,93 @@
+/**
+ * Seedable random numbers for Zero Rush v2
+ *
+ * Generation takes an injectable random source so deals can be reproduced:
+ * daily puzzles, friends playing the same sequence, and bug reports.
+ *
+ * Seeded sources use mulberry32, which only relies on 32-bit integer math
+ * (Math.imul, shifts), so the same seed produces the same sequence - and
+ * therefore byte-identical puzzles - on every platform.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A source of random numbers in [0, 1), like Math.random */
+export type RandomSource = () => number;
+
+/** A seed: any number (truncated to 32 bits) or any string */
+export type Seed = number | string;
+
+/** Options accepted by anything that generates puzzles */
+export interface RandomOptions {
+  /** Seed for a deterministic sequence (ignored if `random` is given) */
+  seed?: Seed;
+  /** Custom random source (defaults to Math.random) */
+  random?: RandomSource;
+}
+
+// =============================================================================
+// Seeding
+// =============================================================================
+
+/**
+ * Hash a seed string to a 32-bit unsigned integer (FNV-1a over UTF-16 code units)
+ */
+export function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Normalize a seed to a 32-bit unsigned integer
+ */
+export function normalizeSeed(seed: Seed): number {
+  if (typeof seed === 'string') {
+    return hashSeed(seed);
+  }
+  return Number.isFinite(seed) ? Math.trunc(seed) >>> 0 : 0;
+}
+
+/**
+ * Create a deterministic random source from a seed
+ *
+ * @param seed - Number or string seed
+ * @returns A function returning numbers in [0, 1)
+ *
+ * @example
+ * const random = createRandom('2025-01-01:hard');
+ * random() // → same value on every device
+ */
+export function createRandom(seed: Seed): RandomSource {
+  let state = normalizeSeed(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick the random source for a set of options
+ *
+ * Precedence: explicit `random`, then `seed`, then Math.random.
+ */
+export function resolveRandom(options: RandomOptions = {}): RandomSource {
+  if (options.random) return options.random;
+  if (options.seed !== undefined) return createRandom(options.seed);
+  return Math.random;
+}
+
+/**
+ * Pick a random integer in [0, max)
+ */
+export function randomInt(random: RandomSource, max: number): number {
+  return Math.floor(random() * max);
+}
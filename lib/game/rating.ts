@@ -0,0 +1,114 @@
+/**
+ * Puzzle difficulty rating for Zero Rush v2
+ *
+ * Difficulty levels only fix the card count. The rating scores how hard a
+ * specific hand is from the shape of its solutions: how rare the dusk and
+ * dawn arrangements are, how close the runner-up values sit, whether those
+ * solutions need division or non-integer steps, and whether the zero path
+ * is unique.
+ */
+
+import type { Card, DifficultyRating, PuzzleResult, RuleSet } from '../types/game';
+import {
+  DEFAULT_RULE_SET,
+  DIFFICULTY_RATING_WEIGHTS,
+  RATING_MAX_PERMUTATIONS,
+} from './constants';
+import { solveAllAnswers, type SolvedAnswer } from './solve';
+
+/** Analysis fields the rating is computed from */
+type RatingInput = Omit<PuzzleResult, 'rating'>;
+
+/**
+ * Rate a puzzle's difficulty from its analysis
+ *
+ * @param result - The puzzle's analysis (see generateAnswers)
+ * @param rules - Rule set the puzzle was analyzed under
+ * @returns Each factor (0–1) and the weighted score (0–100)
+ *
+ * @example
+ * const { score, targetScarcity } = rateDifficulty(generateAnswers(cards));
+ */
+export function rateDifficulty(
+  result: RatingInput,
+  rules: RuleSet = DEFAULT_RULE_SET
+): DifficultyRating {
+  if (!result.hasValidAnswers) {
+    return {
+      score: 0,
+      searchSpace: 0,
+      targetScarcity: 0,
+      runnerUpCloseness: 0,
+      division: 0,
+      nonIntegerSteps: 0,
+      uniqueZero: 0,
+    };
+  }
+
+  const { dusk, dawn, distribution, totalPermutations } = result;
+  const withoutDivision = answersWithoutDivision(dusk.arrangement, rules);
+  const needsDivision = (target: number) =>
+    withoutDivision !== null && !withoutDivision.has(target);
+
+  const factors = {
+    searchSpace: logRatio(totalPermutations, RATING_MAX_PERMUTATIONS),
+    targetScarcity:
+      (scarcity(dusk.permutationCount, totalPermutations) +
+        scarcity(dawn.permutationCount, totalPermutations)) /
+      2,
+    runnerUpCloseness: runnerUpCloseness(distribution.map((target) => target.result)),
+    division:
+      (Number(needsDivision(dusk.result)) + Number(needsDivision(dawn.result))) /
+      2,
+    nonIntegerSteps: (Number(dusk.floatDetected) + Number(dawn.floatDetected)) / 2,
+    uniqueZero: result.hasZero && dusk.permutationCount === 1 ? 1 : 0,
+  };
+
+  let weighted = 0;
+  for (const key of Object.keys(factors) as Array<keyof typeof factors>) {
+    weighted += factors[key] * DIFFICULTY_RATING_WEIGHTS[key];
+  }
+
+  return { score: Math.round(weighted * 100), ...factors };
+}
+
+/**
+ * The answers a hand reaches with its ÷ cards turned into ×, or null if it
+ * has none. A target missing from them can't be found without dividing.
+ */
+function answersWithoutDivision(cards: Card[], rules: RuleSet): Map<number, SolvedAnswer> | null {
+  if (!cards.some((card) => card.operator === '÷')) return null;
+  const multiplied = cards.map((card) =>
+    card.operator === '÷' ? { ...card, operator: '*' as const } : card
+  );
+  return solveAllAnswers(multiplied, rules).answers;
+}
+
+/**
+ * 1 when a single permutation reaches the target, 0 when every one does
+ */
+function scarcity(count: number, total: number): number {
+  return 1 - logRatio(count, total);
+}
+
+/**
+ * log(value) / log(max), clamped to 0–1
+ */
+function logRatio(value: number, max: number): number {
+  if (max <= 1) return 0;
+  return Math.min(1, Math.max(0, Math.log(value) / Math.log(max)));
+}
+
+/**
+ * How close the second-lowest and second-highest answers are to dusk and
+ * dawn: 1 when both sit one away, falling off as the gaps widen
+ */
+function runnerUpCloseness(sortedValues: number[]): number {
+  if (sortedValues.length < 3) return 0;
+
+  const last = sortedValues.length - 1;
+  const duskGap = sortedValues[1] - sortedValues[0];
+  const dawnGap = sortedValues[last] - sortedValues[last - 1];
+
+  return (1 / Math.max(1, duskGap) + 1 / Math.max(1, dawnGap)) / 2;
+}
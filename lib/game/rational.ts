@@ -0,0 +1,102 @@
+/**
+ * Exact rational arithmetic for Zero Rush v2
+ *
+ * Division makes running totals fractional (e.g. 7 ÷ 3). Doubles can't hold
+ * 7/3 exactly, so a chain like ÷3 … ×3 may land a hair off an integer, and
+ * rounding can then accept a total that was never whole (or reject one that
+ * was). Evaluation therefore tracks every total as a reduced fraction.
+ *
+ * Numerators and denominators are plain numbers: with card values in the
+ * deck ranges they stay far below Number.MAX_SAFE_INTEGER, so every step is
+ * exact. Anything that would leave the safe range throws a RangeError.
+ */
+
+import type { Rational } from '../types/game';
+
+// =============================================================================
+// Construction
+// =============================================================================
+
+/**
+ * Greatest common divisor of two integers (always non-negative)
+ */
+export function gcd(a: number, b: number): number {
+  a = Math.abs(a);
+  b = Math.abs(b);
+  while (b !== 0) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+/**
+ * Create a reduced rational with a positive denominator
+ *
+ * @throws RangeError if the denominator is 0 or either part is not a safe integer
+ *
+ * @example
+ * createRational(14, -6) // → { numerator: -7, denominator: 3 }
+ */
+export function createRational(numerator: number, denominator: number = 1): Rational {
+  if (denominator === 0) {
+    throw new RangeError('Division by zero');
+  }
+  if (!Number.isSafeInteger(numerator) || !Number.isSafeInteger(denominator)) {
+    throw new RangeError(`Rational out of exact range: ${numerator}/${denominator}`);
+  }
+
+  const divisor = gcd(numerator, denominator) || 1;
+  const sign = denominator < 0 ? -1 : 1;
+
+  return {
+    numerator: (sign * numerator) / divisor || 0, // Normalize -0
+    denominator: (sign * denominator) / divisor,
+  };
+}
+
+// =============================================================================
+// Arithmetic
+// =============================================================================
+
+/**
+ * Add two rationals
+ */
+export function addRational(a: Rational, b: Rational): Rational {
+  if (a.denominator === b.denominator) {
+    return createRational(a.numerator + b.numerator, a.denominator);
+  }
+  const divisor = gcd(a.denominator, b.denominator);
+  const scaleA = b.denominator / divisor;
+  const scaleB = a.denominator / divisor;
+  return createRational(
+    a.numerator * scaleA + b.numerator * scaleB,
+    a.denominator * scaleA
+  );
+}
+
+// =============================================================================
+// Inspection
+// =============================================================================
+
+/**
+ * Check whether a rational is a whole number
+ */
+export function isIntegerRational(value: Rational): boolean {
+  return value.denominator === 1;
+}
+
+/**
+ * Convert a rational to the nearest number (exact for whole numbers)
+ */
+export function rationalToNumber(value: Rational): number {
+  return value.numerator / value.denominator;
+}
+
+/**
+ * Format a rational for display: "5", "-2" or "7/3"
+ */
+export function formatRational(value: Rational): string {
+  return isIntegerRational(value)
+    ? String(value.numerator)
+    : `${value.numerator}/${value.denominator}`;
+}
@@ -0,0 +1,102 @@
+/**
+ * Reachable-range analysis for Zero Rush v2
+ *
+ * While a player builds an arrangement, the cards already on the table fix
+ * a prefix. Solving only the completions of that prefix tells the player
+ * which final values are still possible - and whether dusk or dawn is
+ * already out of reach - so they can abandon dead ends early.
+ */
+
+import type { Card, PuzzleResult, RuleSet } from '../types/game';
+import { DEFAULT_RULE_SET } from './constants';
+import { isValidAnswer } from './evaluate';
+import { solveAllAnswers } from './solve';
+
+/** Valid final values still reachable from a partial arrangement */
+export interface ReachableRange {
+  /** Lowest reachable valid answer (null if none is reachable) */
+  min: number | null;
+  /** Highest reachable valid answer (null if none is reachable) */
+  max: number | null;
+  /** Whether some completion still reaches dusk */
+  canReachDusk: boolean;
+  /** Whether some completion still reaches dawn */
+  canReachDawn: boolean;
+}
+
+/** Dusk and dawn values of a solved puzzle */
+export interface TargetValues {
+  dusk: number;
+  dawn: number;
+}
+
+/**
+ * Find the valid answers still reachable after playing a prefix, answering
+ * from the puzzle's analysis when it can (no cards or one card played) and
+ * solving the completions otherwise
+ *
+ * @param prefix - Cards placed so far, in order
+ * @param remaining - Cards still to place
+ * @param result - The puzzle's analysis (supplies dusk and dawn)
+ * @param rules - Rule set to evaluate under (defaults to the standard rules)
+ *
+ * @example
+ * findReachableRange([{ operator: '+', value: 9 }], hand, puzzleResult)
+ * // → { min: 3, max: 84, canReachDusk: false, canReachDawn: true }
+ */
+export function findReachableRange(
+  prefix: Card[],
+  remaining: Card[],
+  result: PuzzleResult,
+  rules: RuleSet = DEFAULT_RULE_SET
+): ReachableRange {
+  if (!result.hasValidAnswers) {
+    return solveReachableRange(prefix, remaining, null, rules);
+  }
+
+  const targets = { dusk: result.dusk.result, dawn: result.dawn.result };
+
+  // Nothing played yet: the whole puzzle is still open
+  if (prefix.length === 0) {
+    return { min: targets.dusk, max: targets.dawn, canReachDusk: true, canReachDawn: true };
+  }
+
+  // One card played: the analysis already knows which answers each card opens
+  if (prefix.length === 1) {
+    const [first] = prefix;
+    const reachable = result.distribution
+      .filter(({ openingCards }) =>
+        openingCards.some((card) => card.operator === first.operator && card.value === first.value)
+      )
+      .map((target) => target.result);
+    return summarize(reachable, targets);
+  }
+
+  return solveReachableRange(prefix, remaining, targets, rules);
+}
+
+/**
+ * Solve every completion of a prefix for the valid answers it can reach
+ *
+ * @param targets - The puzzle's dusk and dawn (null if it has none)
+ */
+export function solveReachableRange(
+  prefix: Card[],
+  remaining: Card[],
+  targets: TargetValues | null,
+  rules: RuleSet = DEFAULT_RULE_SET
+): ReachableRange {
+  const reachable = Array.from(solveAllAnswers(remaining, rules, prefix).answers.keys()).filter(
+    (answer) => isValidAnswer(answer, rules)
+  );
+  return summarize(reachable, targets);
+}
+
+function summarize(reachable: number[], targets: TargetValues | null): ReachableRange {
+  return {
+    min: reachable.length > 0 ? Math.min(...reachable) : null,
+    max: reachable.length > 0 ? Math.max(...reachable) : null,
+    canReachDusk: targets !== null && reachable.includes(targets.dusk),
+    canReachDawn: targets !== null && reachable.includes(targets.dawn),
+  };
+}
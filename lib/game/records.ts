@@ -0,0 +1,163 @@
+/**
+ * Game records for Zero Rush v2
+ *
+ * useGame reports every puzzle it starts as one GameRecord - when both
+ * targets are found, or when the puzzle is abandoned (a new deal, a restart,
+ * leaving the board or closing the page). Records go to a GameRecordSink, so
+ * local stats, streaks and analytics can all read the same data. A game
+ * picked up again after it was reported (a page restored from the
+ * back/forward cache) is reported again under the same record id, and the
+ * later record replaces the earlier one.
+ *
+ * While a puzzle is played, a GameActivity follows its timings. Active time
+ * adds up the gaps between moves, each capped at GAME_IDLE_TIMEOUT_MS, and
+ * stops while the tab is hidden.
+ */
+
+import type { Difficulty, GameMode, GameRecord } from '../types/game';
+import { GAME_IDLE_TIMEOUT_MS } from './constants';
+import { LOCAL_PROFILE_ID } from './profile';
+
+/**
+ * Receives each finished or abandoned game. A record with an id already
+ * received replaces it (see the module comment).
+ */
+export type GameRecordSink = (record: GameRecord) => void;
+
+/** Timings of the puzzle being played */
+export interface GameActivity {
+  /** The id the game's record is reported under */
+  id: string;
+  startedAt: number;
+  /** Active time banked so far */
+  activeMs: number;
+  /** Last move (or resume); null while the tab is hidden */
+  lastActiveAt: number | null;
+  firstSubmitAt?: number;
+  duskFoundAt?: number;
+  dawnFoundAt?: number;
+}
+
+/** The puzzle's state when its record is made */
+export interface GameRecordState {
+  puzzleSignature: string;
+  difficulty: Difficulty;
+  mode: GameMode;
+  attempts: number;
+  hintsUsed: number;
+  foundDusk: boolean;
+  foundDawn: boolean;
+  zeroGuarantee: boolean;
+  experiment?: { group: string; variant: string };
+}
+
+// =============================================================================
+// Activity
+// =============================================================================
+
+/**
+ * Start following a puzzle that became playable at `startedAt`
+ */
+export function startGameActivity(startedAt: number): GameActivity {
+  return {
+    id: `${startedAt}-${Math.random().toString(36).slice(2, 9)}`,
+    startedAt,
+    activeMs: 0,
+    lastActiveAt: startedAt,
+  };
+}
+
+/**
+ * Count the time since the last move as active, up to the idle timeout
+ */
+export function markGameActivity(
+  activity: GameActivity,
+  now: number,
+  idleTimeoutMs: number = GAME_IDLE_TIMEOUT_MS
+): GameActivity {
+  if (activity.lastActiveAt === null) return activity;
+  const gap = Math.max(0, now - activity.lastActiveAt);
+  return {
+    ...activity,
+    activeMs: activity.activeMs + Math.min(gap, idleTimeoutMs),
+    lastActiveAt: now,
+  };
+}
+
+/**
+ * Stop counting active time (e.g. the tab was hidden)
+ */
+export function pauseGameActivity(activity: GameActivity, now: number): GameActivity {
+  return { ...markGameActivity(activity, now), lastActiveAt: null };
+}
+
+/**
+ * Start counting active time again
+ */
+export function resumeGameActivity(activity: GameActivity, now: number): GameActivity {
+  return activity.lastActiveAt === null ? { ...activity, lastActiveAt: now } : activity;
+}
+
+/**
+ * Note a submission and which targets it found
+ */
+export function recordGameSubmission(
+  activity: GameActivity,
+  found: { isDusk: boolean; isDawn: boolean },
+  now: number
+): GameActivity {
+  return {
+    ...markGameActivity(activity, now),
+    firstSubmitAt: activity.firstSubmitAt ?? now,
+    duskFoundAt: found.isDusk ? now : activity.duskFoundAt,
+    dawnFoundAt: found.isDawn ? now : activity.dawnFoundAt,
+  };
+}
+
+// =============================================================================
+// Records
+// =============================================================================
+
+/**
+ * Build the record of a finished or abandoned game
+ *
+ * @param now - When the game ended
+ */
+export function createGameRecord(
+  activity: GameActivity,
+  state: GameRecordState,
+  now: number = Date.now(),
+  userId: string = LOCAL_PROFILE_ID
+): GameRecord {
+  const { activeMs } = pauseGameActivity(activity, now);
+  const completed = state.foundDusk && state.foundDawn;
+
+  return {
+    id: activity.id,
+    userId,
+    puzzleSignature: state.puzzleSignature,
+    difficulty: state.difficulty,
+    mode: state.mode,
+    startedAt: activity.startedAt,
+    completedAt: now,
+    durationMs: now - activity.startedAt,
+    activeMs,
+    ...(activity.firstSubmitAt !== undefined
+      ? { timeToFirstSubmitMs: activity.firstSubmitAt - activity.startedAt }
+      : {}),
+    attempts: state.attempts,
+    hintsUsed: state.hintsUsed,
+    ...(activity.duskFoundAt !== undefined ? { duskFoundAt: activity.duskFoundAt } : {}),
+    ...(activity.dawnFoundAt !== undefined ? { dawnFoundAt: activity.dawnFoundAt } : {}),
+    foundDusk: state.foundDusk,
+    foundDawn: state.foundDawn,
+    completed,
+    settings: { zeroGuarantee: state.zeroGuarantee },
+    ...(state.experiment
+      ? {
+          experimentGroup: state.experiment.group,
+          experimentVariant: state.experiment.variant,
+        }
+      : {}),
+  };
+}
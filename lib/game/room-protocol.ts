@@ -0,0 +1,131 @@
+/**
+ * Room server protocol for Zero Rush v2
+ *
+ * Players and the room server (scripts/room-server.ts) exchange JSON
+ * messages over a WebSocket. Players send RoomClientMessages; the server
+ * answers with RoomServerMessages - a fresh RoomView after every change,
+ * so clients never work out room state for themselves.
+ */
+
+import type { Card, RoomConfig } from '../types/game';
+import { isRegisteredOperator } from './operators';
+import type { RoomAction, RoomSummary, RoomView } from './room';
+
+/** Port the local room server listens on */
+export const DEFAULT_ROOM_SERVER_PORT = 8787;
+
+/** What a player sends */
+export type RoomClientMessage =
+  | { type: 'list' }
+  | { type: 'create'; name: string; config: RoomConfig }
+  /** `token` takes back the seat it was sent with; without it, a new player joins */
+  | { type: 'join'; code: string; name: string; token?: string }
+  | RoomAction;
+
+/** What the server sends */
+export type RoomServerMessage =
+  /** Public rooms open to join */
+  | { type: 'rooms'; rooms: RoomSummary[] }
+  /**
+   * The room as this player sees it; `token` is their reconnect secret (never
+   * part of a RoomView) and `now` is the server's clock
+   */
+  | { type: 'room'; room: RoomView; playerId: string; token: string; now: number }
+  /** The player is no longer in a room */
+  | { type: 'left' }
+  | { type: 'error'; message: string };
+
+/**
+ * Read a message from a player
+ *
+ * Only checks the shape; the room itself decides whether the message is
+ * allowed (see applyRoomAction).
+ *
+ * @returns The message, or null if it isn't one
+ */
+export function parseRoomClientMessage(text: string): RoomClientMessage | null {
+  let message: unknown;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isRecord(message)) return null;
+
+  switch (message.type) {
+    case 'list':
+    case 'start':
+    case 'rematch':
+    case 'leave':
+      return { type: message.type };
+    case 'create':
+      return typeof message.name === 'string' && isRecord(message.config)
+        ? { type: 'create', name: message.name, config: message.config as unknown as RoomConfig }
+        : null;
+    case 'join':
+      if (typeof message.code !== 'string' || typeof message.name !== 'string') return null;
+      if (message.token !== undefined && typeof message.token !== 'string') return null;
+      return {
+        type: 'join',
+        code: message.code,
+        name: message.name,
+        ...(message.token ? { token: message.token } : {}),
+      };
+    case 'configure':
+      return isRecord(message.config)
+        ? { type: 'configure', config: message.config as Partial<RoomConfig> }
+        : null;
+    case 'submit': {
+      const duskArrangement = readCards(message.duskArrangement);
+      const dawnArrangement = readCards(message.dawnArrangement);
+      if (duskArrangement === null || dawnArrangement === null) return null;
+      return {
+        type: 'submit',
+        ...(duskArrangement ? { duskArrangement } : {}),
+        ...(dawnArrangement ? { dawnArrangement } : {}),
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Read a message from the server
+ *
+ * @returns The message, or null if it isn't JSON with a type
+ */
+export function parseRoomServerMessage(text: string): RoomServerMessage | null {
+  try {
+    const message: unknown = JSON.parse(text);
+    return isRecord(message) && typeof message.type === 'string'
+      ? (message as unknown as RoomServerMessage)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** undefined if absent, null if malformed */
+function readCards(value: unknown): Card[] | undefined | null {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) return null;
+  const cards: Card[] = [];
+  for (const card of value) {
+    if (
+      !isRecord(card) ||
+      typeof card.operator !== 'string' ||
+      !isRegisteredOperator(card.operator) ||
+      typeof card.value !== 'number' ||
+      !Number.isInteger(card.value)
+    ) {
+      return null;
+    }
+    cards.push({ operator: card.operator, value: card.value });
+  }
+  return cards;
+}
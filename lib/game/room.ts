@@ -0,0 +1,636 @@
+/**
+ * Multiplayer rooms for Zero Rush v2
+ *
+ * A room runs the state machine from docs/IMPLEMENTATION-NOTES.md:
+ *
+ *   waiting → starting → thinking → reveal → scoring → starting (next round)
+ *                                                    ↘ finished → waiting (rematch)
+ *
+ * Every function here is pure and returns a new Room. The room server
+ * (scripts/room-server.ts) holds the rooms, applies what players send,
+ * calls advanceRoom as phases run out and sends each player getRoomView -
+ * which keeps the targets and everyone else's answers hidden until the
+ * reveal. Dealing solves the hand, so a server can deal ahead of time
+ * (dealRoomHand) and pass the hand in when a round starts.
+ */
+
+import type {
+  Card,
+  PlayerSubmission,
+  RoomConfig,
+  RoomState,
+  RoundScore,
+} from '../types/game';
+import {
+  DEFAULT_RULE_SET,
+  MULTIPLAYER_COUNTDOWN_MS,
+  MULTIPLAYER_HAND_SIZES,
+  MULTIPLAYER_MAX_PLAYERS,
+  MULTIPLAYER_MIN_PLAYERS,
+  MULTIPLAYER_REVEAL_MS,
+  MULTIPLAYER_ROUND_OPTIONS,
+  MULTIPLAYER_SCORING_MS,
+  MULTIPLAYER_TIME_LIMITS,
+  POINTS_BOTH,
+  POINTS_NEITHER,
+  POINTS_ONE,
+  UNIQUE_DAWN_MAX_CARDS,
+} from './constants';
+import { evaluate, isValidResult } from './evaluate';
+import { findGoodPuzzle } from './generate';
+import type { RandomSource, Seed } from './random';
+import { toCanonicalSignature } from './signature';
+
+/** Longest player name, in characters */
+export const ROOM_PLAYER_NAME_MAX = 16;
+
+/** Letters room codes are made from (no I or O, which read as 1 and 0) */
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+const ROOM_CODE_LENGTH = 4;
+
+/** A move a room doesn't allow; its message is shown to the player */
+export class RoomError extends Error {}
+
+export interface RoomPlayer {
+  id: string;
+  name: string;
+  /** Whether the player has a live connection to the room */
+  connected: boolean;
+}
+
+/** A dealt hand and its targets (see dealRoomHand) */
+export type RoomDeal = Pick<
+  RoomRound,
+  'hand' | 'dusk' | 'dawn' | 'duskArrangement' | 'dawnArrangement'
+>;
+
+/** One dealt hand and what the players made of it */
+export interface RoomRound {
+  /** 1-based */
+  number: number;
+  hand: Card[];
+  dusk: number;
+  dawn: number;
+  /** One way to reach each target, shown at the reveal */
+  duskArrangement: Card[];
+  dawnArrangement: Card[];
+  /** Each player's locked-in answers, by player ID */
+  submissions: Record<string, PlayerSubmission>;
+  /** Set at the reveal */
+  scores: RoundScore[] | null;
+}
+
+export interface Room {
+  /** Join code, e.g. "KQZT" */
+  code: string;
+  hostId: string;
+  config: RoomConfig;
+  state: RoomState;
+  /** In join order */
+  players: RoomPlayer[];
+  /** Rounds dealt so far; the last is the current round */
+  rounds: RoomRound[];
+  /** When the current phase runs out (null while waiting or finished) */
+  phaseEndsAt: number | null;
+}
+
+/** Something a player in the room asks for */
+export type RoomAction =
+  | { type: 'configure'; config: Partial<RoomConfig> }
+  | { type: 'start' }
+  | { type: 'submit'; duskArrangement?: Card[]; dawnArrangement?: Card[] }
+  | { type: 'rematch' }
+  | { type: 'leave' };
+
+/** A player as one member of the room sees them */
+export interface RoomPlayerView extends RoomPlayer {
+  isHost: boolean;
+  /** Locked in answers this round */
+  submitted: boolean;
+  /** Points over every scored round */
+  points: number;
+}
+
+/** The current round as one member of the room sees it */
+export interface RoomRoundView {
+  number: number;
+  /** Hidden during the countdown */
+  hand: Card[] | null;
+  /** Hidden until the reveal */
+  targets: {
+    dusk: number;
+    dawn: number;
+    duskArrangement: Card[];
+    dawnArrangement: Card[];
+  } | null;
+  /** The viewer's own submission while thinking; everyone's from the reveal */
+  submissions: PlayerSubmission[];
+  /** Empty until the reveal */
+  scores: RoundScore[];
+}
+
+/** What one member of the room is sent */
+export interface RoomView {
+  code: string;
+  hostId: string;
+  config: RoomConfig;
+  state: RoomState;
+  phaseEndsAt: number | null;
+  players: RoomPlayerView[];
+  round: RoomRoundView | null;
+}
+
+/** A public room open to join, as listed in the lobby */
+export interface RoomSummary {
+  code: string;
+  hostName: string;
+  players: number;
+  config: RoomConfig;
+}
+
+// =============================================================================
+// Joining
+// =============================================================================
+
+/**
+ * Make a random join code
+ *
+ * @example
+ * createRoomCode() // → "KQZT"
+ */
+export function createRoomCode(random: RandomSource = Math.random): string {
+  let code = '';
+  for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+    code += ROOM_CODE_ALPHABET[Math.floor(random() * ROOM_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Tidy a room code the way players type it
+ *
+ * @example
+ * normalizeRoomCode(' kqzt ') // → "KQZT"
+ */
+export function normalizeRoomCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Open a room, waiting for players, with its creator as host
+ */
+export function createRoom(code: string, host: { id: string; name: string }, config: RoomConfig): Room {
+  return {
+    code,
+    hostId: host.id,
+    config: validateRoomConfig(config),
+    state: 'waiting',
+    players: [{ id: host.id, name: normalizePlayerName(host.name), connected: true }],
+    rounds: [],
+    phaseEndsAt: null,
+  };
+}
+
+/**
+ * Add a player, or reconnect one already in the room
+ *
+ * New players can only join while the room is waiting and has space.
+ */
+export function joinRoom(room: Room, player: { id: string; name: string }): Room {
+  if (room.players.some((p) => p.id === player.id)) {
+    return updatePlayer(room, player.id, { connected: true });
+  }
+  if (room.state !== 'waiting') {
+    throw new RoomError('This game has already started');
+  }
+  if (room.players.length >= room.config.maxPlayers) {
+    throw new RoomError('This room is full');
+  }
+  return {
+    ...room,
+    players: [
+      ...room.players,
+      { id: player.id, name: normalizePlayerName(player.name), connected: true },
+    ],
+  };
+}
+
+/**
+ * Mark a player's connection as lost
+ *
+ * They keep their place and points, and can rejoin with the same ID. If
+ * everyone still connected has already submitted, the round is revealed.
+ */
+export function disconnectPlayer(room: Room, playerId: string, now: number): Room {
+  if (!room.players.some((player) => player.id === playerId)) return room;
+  return revealIfAllSubmitted(
+    reassignHost(updatePlayer(room, playerId, { connected: false })),
+    now
+  );
+}
+
+/**
+ * Whether nobody is connected to the room any more
+ */
+export function isRoomEmpty(room: Room): boolean {
+  return !room.players.some((player) => player.connected);
+}
+
+/**
+ * Public rooms that are waiting for players and have space
+ */
+export function listPublicRooms(rooms: Iterable<Room>): RoomSummary[] {
+  const summaries: RoomSummary[] = [];
+  for (const room of rooms) {
+    if (
+      room.config.visibility !== 'public' ||
+      room.state !== 'waiting' ||
+      room.players.length >= room.config.maxPlayers ||
+      isRoomEmpty(room)
+    ) {
+      continue;
+    }
+    summaries.push({
+      code: room.code,
+      hostName: room.players.find((player) => player.id === room.hostId)?.name ?? '',
+      players: room.players.length,
+      config: room.config,
+    });
+  }
+  return summaries;
+}
+
+// =============================================================================
+// State Machine
+// =============================================================================
+
+/**
+ * Apply a player's action
+ *
+ * @param deal - The hand for a round the action starts; dealt here if omitted
+ * @throws RoomError if the action isn't allowed right now
+ */
+export function applyRoomAction(
+  room: Room,
+  playerId: string,
+  action: RoomAction,
+  now: number,
+  deal?: RoomDeal
+): Room {
+  if (!room.players.some((player) => player.id === playerId)) {
+    throw new RoomError('You are not in this room');
+  }
+
+  switch (action.type) {
+    case 'configure':
+      requireHost(room, playerId);
+      requireState(room, 'waiting');
+      if (action.config.maxPlayers !== undefined && action.config.maxPlayers < room.players.length) {
+        throw new RoomError(`${room.players.length} players are already in the room`);
+      }
+      return { ...room, config: validateRoomConfig({ ...room.config, ...action.config }) };
+
+    case 'start': {
+      requireHost(room, playerId);
+      requireState(room, 'waiting');
+      const connected = room.players.filter((player) => player.connected);
+      if (connected.length < MULTIPLAYER_MIN_PLAYERS) {
+        throw new RoomError(`At least ${MULTIPLAYER_MIN_PLAYERS} players are needed to start`);
+      }
+      // Players who dropped out of the lobby don't take part
+      return startRound({ ...room, players: connected, rounds: [] }, now, deal);
+    }
+
+    case 'submit':
+      requireState(room, 'thinking');
+      return revealIfAllSubmitted(
+        submitAnswers(room, playerId, action.duskArrangement, action.dawnArrangement, now),
+        now
+      );
+
+    case 'rematch':
+      requireHost(room, playerId);
+      requireState(room, 'finished');
+      return {
+        ...room,
+        state: 'waiting',
+        players: room.players.filter((player) => player.connected),
+        rounds: [],
+        phaseEndsAt: null,
+      };
+
+    case 'leave':
+      if (room.state === 'waiting' || room.state === 'finished') {
+        return reassignHost({
+          ...room,
+          players: room.players.filter((player) => player.id !== playerId),
+        });
+      }
+      // Mid-game, keep their points on the scoreboard
+      return disconnectPlayer(room, playerId, now);
+  }
+}
+
+/**
+ * Move on once the current phase has run out
+ *
+ * @param deal - The hand for a round this starts; dealt here if omitted
+ * @returns The same room if nothing is due yet
+ */
+export function advanceRoom(room: Room, now: number, deal?: RoomDeal): Room {
+  if (room.phaseEndsAt === null || now < room.phaseEndsAt) return room;
+
+  switch (room.state) {
+    case 'starting':
+      return {
+        ...room,
+        state: 'thinking',
+        phaseEndsAt: now + room.config.timeLimitMinutes * 60 * 1000,
+      };
+    case 'thinking':
+      return revealRound(room, now);
+    case 'reveal':
+      return { ...room, state: 'scoring', phaseEndsAt: now + MULTIPLAYER_SCORING_MS };
+    case 'scoring':
+      return room.rounds.length < room.config.maxRounds
+        ? startRound(room, now, deal)
+        : { ...room, state: 'finished', phaseEndsAt: null };
+    default:
+      return room;
+  }
+}
+
+/**
+ * Check whether advanceRoom would start the next round now, so a server
+ * that deals ahead of time knows to have the hand ready
+ */
+export function isDealDue(room: Room, now: number): boolean {
+  return (
+    room.state === 'scoring' &&
+    room.phaseEndsAt !== null &&
+    now >= room.phaseEndsAt &&
+    room.rounds.length < room.config.maxRounds
+  );
+}
+
+// =============================================================================
+// Rounds
+// =============================================================================
+
+/**
+ * Deal a hand for a room's settings
+ *
+ * "guaranteed" zero mode only deals hands whose dusk is 0.
+ */
+export function dealRoomHand(config: RoomConfig, seed?: Seed): RoomDeal {
+  const { puzzle, result } = findGoodPuzzle({
+    cardCount: config.handSize,
+    requireZero: config.zeroMode === 'guaranteed',
+    requireGood: config.handSize <= UNIQUE_DAWN_MAX_CARDS,
+    seed,
+  });
+  return {
+    hand: puzzle,
+    dusk: result.dusk.result,
+    dawn: result.dawn.result,
+    duskArrangement: result.dusk.arrangement,
+    dawnArrangement: result.dawn.arrangement,
+  };
+}
+
+/**
+ * Score one player's answers
+ *
+ * An answer counts if it uses every card in the hand and reaches the target.
+ */
+export function scoreSubmission(
+  round: Pick<RoomRound, 'hand' | 'dusk' | 'dawn'>,
+  submission: PlayerSubmission
+): RoundScore {
+  const foundDusk = reachesTarget(round.hand, submission.duskArrangement, round.dusk);
+  const foundDawn = reachesTarget(round.hand, submission.dawnArrangement, round.dawn);
+  return {
+    playerId: submission.playerId,
+    foundDusk,
+    foundDawn,
+    points: foundDusk && foundDawn ? POINTS_BOTH : foundDusk || foundDawn ? POINTS_ONE : POINTS_NEITHER,
+  };
+}
+
+/**
+ * Total points per player over every scored round
+ */
+export function getRoomPoints(room: Room): Record<string, number> {
+  const points: Record<string, number> = Object.fromEntries(
+    room.players.map((player) => [player.id, 0])
+  );
+  for (const round of room.rounds) {
+    for (const score of round.scores ?? []) {
+      points[score.playerId] = (points[score.playerId] ?? 0) + score.points;
+    }
+  }
+  return points;
+}
+
+function startRound(room: Room, now: number, deal?: RoomDeal): Room {
+  const number = room.rounds.length + 1;
+  return {
+    ...room,
+    state: 'starting',
+    rounds: [
+      ...room.rounds,
+      {
+        number,
+        ...(deal ?? dealRoomHand(room.config, `${room.code}:${number}:${now}`)),
+        submissions: {},
+        scores: null,
+      },
+    ],
+    phaseEndsAt: now + MULTIPLAYER_COUNTDOWN_MS,
+  };
+}
+
+function submitAnswers(
+  room: Room,
+  playerId: string,
+  duskArrangement: Card[] | undefined,
+  dawnArrangement: Card[] | undefined,
+  now: number
+): Room {
+  const round = room.rounds[room.rounds.length - 1];
+  if (round.submissions[playerId]) {
+    throw new RoomError('You have already locked in your answers');
+  }
+  if (!duskArrangement && !dawnArrangement) {
+    throw new RoomError('Submit a dusk or dawn arrangement');
+  }
+  const handSignature = toCanonicalSignature(round.hand);
+  for (const arrangement of [duskArrangement, dawnArrangement]) {
+    if (arrangement && toCanonicalSignature(arrangement) !== handSignature) {
+      throw new RoomError('Arrangements must use every card in the hand');
+    }
+  }
+
+  const submission: PlayerSubmission = {
+    playerId,
+    ...(duskArrangement ? { duskArrangement } : {}),
+    ...(dawnArrangement ? { dawnArrangement } : {}),
+    submittedAt: now,
+  };
+  return replaceCurrentRound(room, {
+    ...round,
+    submissions: { ...round.submissions, [playerId]: submission },
+  });
+}
+
+/** Reveal early once every connected player has locked in */
+function revealIfAllSubmitted(room: Room, now: number): Room {
+  if (room.state !== 'thinking') return room;
+  const round = room.rounds[room.rounds.length - 1];
+  const waitingOn = room.players.filter(
+    (player) => player.connected && !round.submissions[player.id]
+  );
+  return waitingOn.length === 0 ? revealRound(room, now) : room;
+}
+
+function revealRound(room: Room, now: number): Room {
+  const round = room.rounds[room.rounds.length - 1];
+  // Players who didn't submit score nothing, but still get a row
+  const scores = room.players.map((player) =>
+    scoreSubmission(
+      round,
+      round.submissions[player.id] ?? { playerId: player.id, submittedAt: now }
+    )
+  );
+  return {
+    ...replaceCurrentRound(room, { ...round, scores }),
+    state: 'reveal',
+    phaseEndsAt: now + MULTIPLAYER_REVEAL_MS,
+  };
+}
+
+function reachesTarget(hand: Card[], arrangement: Card[] | undefined, target: number): boolean {
+  if (!arrangement || toCanonicalSignature(arrangement) !== toCanonicalSignature(hand)) {
+    return false;
+  }
+  const result = evaluate(arrangement, DEFAULT_RULE_SET);
+  return isValidResult(result, DEFAULT_RULE_SET) && result.answer === target;
+}
+
+// =============================================================================
+// Views
+// =============================================================================
+
+/**
+ * What one player is allowed to see of the room
+ *
+ * The hand stays hidden during the countdown; the targets and other
+ * players' answers stay hidden until the reveal.
+ */
+export function getRoomView(room: Room, viewerId: string): RoomView {
+  const round = room.rounds.length > 0 ? room.rounds[room.rounds.length - 1] : null;
+  const revealed = round !== null && round.scores !== null;
+  const points = getRoomPoints(room);
+
+  return {
+    code: room.code,
+    hostId: room.hostId,
+    config: room.config,
+    state: room.state,
+    phaseEndsAt: room.phaseEndsAt,
+    players: room.players.map((player) => ({
+      ...player,
+      isHost: player.id === room.hostId,
+      submitted:
+        round !== null && room.state !== 'waiting' && round.submissions[player.id] !== undefined,
+      points: points[player.id] ?? 0,
+    })),
+    round:
+      round === null || room.state === 'waiting'
+        ? null
+        : {
+            number: round.number,
+            hand: room.state === 'starting' ? null : round.hand,
+            targets: revealed
+              ? {
+                  dusk: round.dusk,
+                  dawn: round.dawn,
+                  duskArrangement: round.duskArrangement,
+                  dawnArrangement: round.dawnArrangement,
+                }
+              : null,
+            submissions: Object.values(round.submissions).filter(
+              (submission) => revealed || submission.playerId === viewerId
+            ),
+            scores: round.scores ?? [],
+          },
+  };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Check every setting against the allowed options
+ *
+ * @throws RoomError naming the first setting that isn't allowed
+ */
+export function validateRoomConfig(config: RoomConfig): RoomConfig {
+  const check = (name: string, value: unknown, options: readonly unknown[]) => {
+    if (!options.includes(value)) {
+      throw new RoomError(`Invalid ${name}: ${String(value)}`);
+    }
+  };
+  check('hand size', config.handSize, MULTIPLAYER_HAND_SIZES);
+  check('time limit', config.timeLimitMinutes, MULTIPLAYER_TIME_LIMITS);
+  check('zero mode', config.zeroMode, ['guaranteed', 'open']);
+  check('visibility', config.visibility, ['private', 'public']);
+  check('max players', config.maxPlayers, MULTIPLAYER_MAX_PLAYERS);
+  check('rounds', config.maxRounds, MULTIPLAYER_ROUND_OPTIONS);
+  return {
+    handSize: config.handSize,
+    timeLimitMinutes: config.timeLimitMinutes,
+    zeroMode: config.zeroMode,
+    visibility: config.visibility,
+    maxPlayers: config.maxPlayers,
+    maxRounds: config.maxRounds,
+  };
+}
+
+function normalizePlayerName(name: string): string {
+  return name.trim().slice(0, ROOM_PLAYER_NAME_MAX) || 'Player';
+}
+
+function requireHost(room: Room, playerId: string) {
+  if (room.hostId !== playerId) {
+    throw new RoomError('Only the host can do that');
+  }
+}
+
+function requireState(room: Room, state: RoomState) {
+  if (room.state !== state) {
+    throw new RoomError(`Not while the room is ${room.state}`);
+  }
+}
+
+function updatePlayer(room: Room, playerId: string, changes: Partial<RoomPlayer>): Room {
+  return {
+    ...room,
+    players: room.players.map((player) =>
+      player.id === playerId ? { ...player, ...changes } : player
+    ),
+  };
+}
+
+/** Hand the room to the next connected player if the host is gone */
+function reassignHost(room: Room): Room {
+  const host = room.players.find((player) => player.id === room.hostId);
+  if (host?.connected) return room;
+  const next = room.players.find((player) => player.connected);
+  return next ? { ...room, hostId: next.id } : room;
+}
+
+function replaceCurrentRound(room: Room, round: RoomRound): Room {
+  return { ...room, rounds: [...room.rounds.slice(0, -1), round] };
+}
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Card, RuleSet } from '../types/game';
+import { DEFAULT_RULE_SET } from './constants';
+import { evaluate } from './evaluate';
+import { solveAllAnswers } from './solve';
+
+const PEMDAS: RuleSet = { ...DEFAULT_RULE_SET, precedence: 'pemdas', allowNegative: true };
+
+describe('PEMDAS evaluation', () => {
+  it('applies % to the operand after −, not its negation', () => {
+    // 10 − 3 % 4 = 10 − 3, not 10 + (−3 mod 4)
+    const cards: Card[] = [
+      { operator: '+', value: 10 },
+      { operator: '-', value: 3 },
+      { operator: '%', value: 4 },
+    ];
+    assert.equal(evaluate(cards, PEMDAS).answer, 7);
+  });
+
+  it('applies % to a subtracted first card under apply-to-zero', () => {
+    // 0 − 3 % 4 = −3
+    const rules: RuleSet = { ...PEMDAS, firstCard: 'apply-to-zero' };
+    const cards: Card[] = [
+      { operator: '-', value: 3 },
+      { operator: '%', value: 4 },
+    ];
+    assert.equal(evaluate(cards, rules).answer, -3);
+  });
+
+  it('solves to the same answers evaluate gives', () => {
+    const cards: Card[] = [
+      { operator: '+', value: 10 },
+      { operator: '-', value: 3 },
+      { operator: '%', value: 4 },
+    ];
+    const { answers } = solveAllAnswers(cards, PEMDAS);
+    for (const [answer, { arrangement }] of answers) {
+      assert.equal(evaluate(arrangement, PEMDAS).answer, answer);
+    }
+    assert.ok(answers.has(7));
+  });
+});
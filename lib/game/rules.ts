@@ -0,0 +1,322 @@
+/**
+ * Evaluation rule sets for Zero Rush v2
+ *
+ * The standard game evaluates strictly left-to-right, ignores the first
+ * card's operator and only accepts non-negative whole numbers. A RuleSet
+ * makes each of those choices configurable so variants can be tried without
+ * forking the engine.
+ *
+ * Evaluation is modelled as a small state machine - a committed sum, the
+ * term currently being built and the operand that term is waiting on - so
+ * both precedence modes can be stepped one card at a time. The subset solver
+ * relies on this: the state after a prefix depends only on which cards were
+ * used, not on their order.
+ */
+
+import type { Card, Operator, Rational, RuleSet } from '../types/game';
+import { DEFAULT_RULE_SET } from './constants';
+import { applyOperator, getOperatorDefinition } from './operators';
+import { addRational, createRational, isIntegerRational } from './rational';
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+/**
+ * Fill in any missing rules from the standard rule set
+ */
+export function resolveRuleSet(rules: Partial<RuleSet> = {}): RuleSet {
+  return { ...DEFAULT_RULE_SET, ...rules };
+}
+
+/**
+ * Check whether two rule sets behave identically
+ */
+export function ruleSetsAreEqual(a: RuleSet, b: RuleSet): boolean {
+  return encodeRuleSet(a) === encodeRuleSet(b);
+}
+
+/**
+ * Check whether a rule set is the standard game
+ */
+export function isDefaultRuleSet(rules: RuleSet): boolean {
+  return ruleSetsAreEqual(rules, DEFAULT_RULE_SET);
+}
+
+// =============================================================================
+// Stepwise Evaluation
+// =============================================================================
+
+/**
+ * Evaluation state after some prefix of an arrangement.
+ *
+ * The value so far is `sum ± (term <operator> factor)`. Left-to-right keeps
+ * the running total in `term` with an empty `+ 0` operand. Under PEMDAS,
+ * additive cards (+ −) commit the current term to `sum` and set the sign
+ * of the next one, multiplicative cards (× ÷ %) fold the operand into
+ * `term`, and power cards (^ &) act on the operand itself - so 2 × 3 ^ 2 is
+ * 18, not 36. The sign stays out of `term` until it's added, so
+ * 10 − 3 % 4 is 10 − (3 % 4) = 7.
+ */
+export interface EvaluationState {
+  /** Total of all completed terms */
+  sum: Rational;
+  /** Whether the term is subtracted from `sum` rather than added */
+  negative: boolean;
+  /** The term still being multiplied/divided, without its sign */
+  term: Rational;
+  /** Operator joining `term` and `factor` */
+  operator: Operator;
+  /** The whole-number operand power cards still act on */
+  factor: number;
+}
+
+const ZERO = createRational(0);
+
+const EMPTY_STATE: EvaluationState = {
+  sum: ZERO,
+  negative: false,
+  term: ZERO,
+  operator: '+',
+  factor: 0,
+};
+
+/**
+ * Start evaluating with the first card
+ */
+export function startEvaluation(card: Card, rules: RuleSet = DEFAULT_RULE_SET): EvaluationState {
+  if (rules.firstCard === 'apply-to-zero') {
+    return stepEvaluation(EMPTY_STATE, card, rules);
+  }
+  if (rules.precedence === 'pemdas') {
+    return { ...EMPTY_STATE, factor: card.value };
+  }
+  return { ...EMPTY_STATE, term: createRational(card.value) };
+}
+
+/**
+ * Apply the next card to an evaluation state
+ *
+ * @throws RangeError if the step is undefined or leaves the exact range
+ */
+export function stepEvaluation(
+  state: EvaluationState,
+  card: Card,
+  rules: RuleSet = DEFAULT_RULE_SET
+): EvaluationState {
+  const { operator, value } = card;
+
+  if (rules.precedence !== 'pemdas') {
+    return { ...state, term: applyOperator(state.term, operator, value) };
+  }
+
+  switch (getOperatorDefinition(operator).precedence) {
+    case 'additive':
+      return {
+        sum: finishEvaluation(state),
+        negative: operator === '-',
+        term: ZERO,
+        operator: '+',
+        factor: value,
+      };
+    case 'multiplicative':
+      return { ...state, term: resolveTerm(state), operator, factor: value };
+    case 'power':
+      return {
+        ...state,
+        factor: applyOperator(createRational(state.factor), operator, value).numerator,
+      };
+  }
+}
+
+/**
+ * Start evaluating, or return null if the first card is already undefined
+ */
+export function tryStartEvaluation(
+  card: Card,
+  rules: RuleSet = DEFAULT_RULE_SET
+): EvaluationState | null {
+  return attemptEvaluation(() => {
+    const state = startEvaluation(card, rules);
+    finishEvaluation(state);
+    return state;
+  });
+}
+
+/**
+ * Apply the next card, or return null if the step is undefined
+ * (e.g. concatenating onto a fraction) or leaves the exact range.
+ * The new state's value is resolved too, so a pending ÷0 or an overflowing
+ * term is caught here rather than when the state is later inspected.
+ */
+export function tryStepEvaluation(
+  state: EvaluationState,
+  card: Card,
+  rules: RuleSet = DEFAULT_RULE_SET
+): EvaluationState | null {
+  return attemptEvaluation(() => {
+    const next = stepEvaluation(state, card, rules);
+    finishEvaluation(next);
+    return next;
+  });
+}
+
+/**
+ * Fold the pending operand into the term.
+ * Only valid once no power card (^ &) can follow; the solver uses it so
+ * states that can no longer diverge share one key.
+ */
+export function settleEvaluation(state: EvaluationState): EvaluationState {
+  if (state.operator === '+' && state.factor === 0) return state;
+  return { ...state, term: resolveTerm(state), operator: '+', factor: 0 };
+}
+
+/**
+ * The value of everything evaluated so far
+ */
+export function finishEvaluation(state: EvaluationState): Rational {
+  const magnitude = resolveTerm(state);
+  const term = state.negative && magnitude.numerator !== 0
+    ? createRational(-magnitude.numerator, magnitude.denominator)
+    : magnitude;
+  return state.sum.numerator === 0 ? term : addRational(state.sum, term);
+}
+
+/**
+ * The value of everything evaluated so far, or null if it is undefined
+ */
+export function tryFinishEvaluation(state: EvaluationState): Rational | null {
+  return attemptEvaluation(() => finishEvaluation(state));
+}
+
+/**
+ * Whether every quantity in a state is a whole number
+ */
+export function isWholeState(state: EvaluationState): boolean {
+  return (
+    state.sum.denominator === 1 &&
+    state.term.denominator === 1 &&
+    isIntegerRational(resolveTerm(state))
+  );
+}
+
+/**
+ * The current term with its pending operand applied
+ */
+function resolveTerm({ term, operator, factor }: EvaluationState): Rational {
+  if (operator === '+' && factor === 0) return term;
+  return applyOperator(term, operator, factor);
+}
+
+/**
+ * Run an evaluation step, mapping RangeErrors to null
+ */
+function attemptEvaluation<T>(step: () => T): T | null {
+  try {
+    return step();
+  } catch (error) {
+    if (error instanceof RangeError) return null;
+    throw error;
+  }
+}
+
+// =============================================================================
+// Share Codes
+// =============================================================================
+
+/**
+ * One letter per non-default rule, in a fixed order.
+ * The standard rules encode to an empty string.
+ */
+const RULE_FLAGS: Array<{
+  letter: string;
+  isSet: (rules: RuleSet) => boolean;
+  apply: (rules: RuleSet) => void;
+}> = [
+  {
+    letter: 'p',
+    isSet: (rules) => rules.precedence === 'pemdas',
+    apply: (rules) => { rules.precedence = 'pemdas'; },
+  },
+  {
+    letter: 'z',
+    isSet: (rules) => rules.firstCard === 'apply-to-zero',
+    apply: (rules) => { rules.firstCard = 'apply-to-zero'; },
+  },
+  {
+    letter: 'n',
+    isSet: (rules) => rules.allowNegative,
+    apply: (rules) => { rules.allowNegative = true; },
+  },
+  {
+    letter: 'f',
+    isSet: (rules) => rules.allowNonInteger,
+    apply: (rules) => { rules.allowNonInteger = true; },
+  },
+  {
+    letter: 's',
+    isSet: (rules) => rules.forbidNonIntegerSteps,
+    apply: (rules) => { rules.forbidNonIntegerSteps = true; },
+  },
+];
+
+/**
+ * Encode a rule set as a short code for share URLs
+ *
+ * @example
+ * encodeRuleSet(DEFAULT_RULE_SET) // → ""
+ * encodeRuleSet({ ...DEFAULT_RULE_SET, precedence: 'pemdas', allowNegative: true }) // → "pn"
+ */
+export function encodeRuleSet(rules: RuleSet): string {
+  return RULE_FLAGS.filter((flag) => flag.isSet(rules))
+    .map((flag) => flag.letter)
+    .join('');
+}
+
+/**
+ * Decode a rule set code produced by encodeRuleSet
+ *
+ * @returns The rule set, or null if the code is not canonical
+ */
+export function decodeRuleSet(code: string): RuleSet | null {
+  const rules = resolveRuleSet();
+  let position = 0;
+
+  for (const flag of RULE_FLAGS) {
+    if (code.charAt(position) === flag.letter) {
+      flag.apply(rules);
+      position++;
+    }
+  }
+
+  // Unknown, repeated or out-of-order letters
+  return position === code.length ? rules : null;
+}
+
+/**
+ * Pack a rule set into a bitmask (bit i = RULE_FLAGS[i]) for binary share codes
+ *
+ * @example
+ * encodeRuleBits({ ...DEFAULT_RULE_SET, precedence: 'pemdas' }) // → 1
+ */
+export function encodeRuleBits(rules: RuleSet): number {
+  return RULE_FLAGS.reduce(
+    (bits, flag, index) => (flag.isSet(rules) ? bits | (1 << index) : bits),
+    0
+  );
+}
+
+/**
+ * Unpack a bitmask produced by encodeRuleBits
+ *
+ * @returns The rule set, or null if unknown bits are set
+ */
+export function decodeRuleBits(bits: number): RuleSet | null {
+  if (bits >>> RULE_FLAGS.length !== 0) return null;
+
+  const rules = resolveRuleSet();
+  RULE_FLAGS.forEach((flag, index) => {
+    if (bits & (1 << index)) flag.apply(rules);
+  });
+  return rules;
+}
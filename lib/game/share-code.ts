@@ -0,0 +1,155 @@
+/**
+ * Compact share codes for Zero Rush v2
+ *
+ * v1 share links spell out the signature letter by letter (a3_s5_m2_d4),
+ * which gets long for 10-card hands, carries no version and can't tell a
+ * typo from a different puzzle. A v2 share code packs everything into bytes:
+ *
+ *   [version] [difficulty] [rule bits] [card]… [checksum hi] [checksum lo]
+ *
+ * Each card is one byte - the operator's registry order in the top 3 bits
+ * and the value (0–31) in the low 5 - in canonical order. The bytes after
+ * the version are base64url-encoded behind a "v2" prefix. The 16-bit
+ * checksum (FNV-1a over every preceding byte) rejects mistyped codes.
+ */
+
+import type { Card, Difficulty, RuleSet } from '../types/game';
+import { DIFFICULTIES } from './constants';
+import { OPERATOR_DEFINITIONS, getOperatorDefinition } from './operators';
+import { decodeRuleBits, encodeRuleBits } from './rules';
+import { hashSeed } from './random';
+import { compareCards } from './signature';
+
+// =============================================================================
+// Format
+// =============================================================================
+
+/** Current share code version */
+export const SHARE_CODE_VERSION = 2;
+
+/** Prefix that marks a versioned share code (v1 links have none) */
+const SHARE_CODE_PREFIX = `v${SHARE_CODE_VERSION}`;
+
+const VALUE_BITS = 5;
+const MAX_CARD_VALUE = (1 << VALUE_BITS) - 1;
+const HEADER_BYTES = 3;
+const CHECKSUM_BYTES = 2;
+
+/** Everything a share code carries */
+export interface SharedPuzzle {
+  cards: Card[];
+  difficulty: Difficulty;
+  rules: RuleSet;
+}
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+/**
+ * Encode a puzzle as a v2 share code
+ *
+ * @returns The code, or null if a card can't be packed (value above 31)
+ *
+ * @example
+ * encodeShareCode(cards, 'medium', DEFAULT_RULE_SET) // → "v2AQADJUJkAyY" for +3 −5 ×2 ÷4
+ */
+export function encodeShareCode(
+  cards: Card[],
+  difficulty: Difficulty,
+  rules: RuleSet
+): string | null {
+  const bytes = [
+    SHARE_CODE_VERSION,
+    DIFFICULTIES.indexOf(difficulty),
+    encodeRuleBits(rules),
+  ];
+
+  for (const card of [...cards].sort(compareCards)) {
+    if (!Number.isInteger(card.value) || card.value < 0 || card.value > MAX_CARD_VALUE) {
+      return null;
+    }
+    bytes.push((getOperatorDefinition(card.operator).order << VALUE_BITS) | card.value);
+  }
+
+  const checksum = computeChecksum(bytes);
+  bytes.push(checksum >> 8, checksum & 0xff);
+
+  return SHARE_CODE_PREFIX + toBase64Url(bytes.slice(1));
+}
+
+// =============================================================================
+// Decoding
+// =============================================================================
+
+/**
+ * Check whether a URL segment looks like a versioned share code
+ * (as opposed to a v1 signature link)
+ */
+export function isShareCode(encoded: string): boolean {
+  return /^v\d/.test(encoded);
+}
+
+/**
+ * Decode a v2 share code
+ *
+ * @returns The puzzle, or null if the code is malformed, from an unknown
+ *   version, fails its checksum or isn't in canonical order
+ */
+export function decodeShareCode(code: string): SharedPuzzle | null {
+  if (!code.startsWith(SHARE_CODE_PREFIX)) return null;
+
+  const payload = fromBase64Url(code.slice(SHARE_CODE_PREFIX.length));
+  if (!payload || payload.length < HEADER_BYTES + CHECKSUM_BYTES) return null;
+
+  const bytes = [SHARE_CODE_VERSION, ...payload];
+  const body = bytes.slice(0, -CHECKSUM_BYTES);
+  const checksum = (bytes[bytes.length - 2] << 8) | bytes[bytes.length - 1];
+  if (computeChecksum(body) !== checksum) return null;
+
+  const difficulty = DIFFICULTIES[body[1]];
+  const rules = decodeRuleBits(body[2]);
+  if (!difficulty || !rules) return null;
+
+  const cards: Card[] = [];
+  for (const byte of body.slice(HEADER_BYTES)) {
+    const definition = OPERATOR_DEFINITIONS.find(
+      (candidate) => candidate.order === byte >> VALUE_BITS
+    );
+    if (!definition) return null;
+    cards.push({ operator: definition.symbol, value: byte & MAX_CARD_VALUE });
+  }
+
+  // One code per puzzle: reject anything the encoder wouldn't produce
+  if (cards.some((card, i) => i > 0 && compareCards(cards[i - 1], card) > 0)) return null;
+
+  return { cards, difficulty, rules };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * 16-bit checksum: the low half of an FNV-1a hash over the bytes
+ */
+function computeChecksum(bytes: number[]): number {
+  return hashSeed(String.fromCharCode(...bytes)) & 0xffff;
+}
+
+function toBase64Url(bytes: number[]): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): number[] | null {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) return null;
+  try {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
@@ -8,13 +8,14 @@
  * - Database storage and lookup
  * 
  * Sorting order:
- * - Operators: + < - < * < ÷
+ * - Operators: + < - < * < ÷ < ^ < % < & (see operators.ts)
  * - Numbers: Numeric order (1 < 2 < 10, not lexicographic)
  */
 
-import type { Card, CardString, Operator } from '../types/game';
+import type { Card, CardString } from '../types/game';
 import { parseCard, cardToString } from './evaluate';
-import { OPERATOR_ORDER } from './constants';
+import { OPERATOR_DISPLAY, OPERATOR_ORDER } from './constants';
+import { getOperatorDefinition, getOperatorForUrlLetter, isRegisteredOperator } from './operators';
 
 // =============================================================================
 // Signature Generation
@@ -24,7 +25,7 @@ import { OPERATOR_ORDER } from './constants';
  * Generate a canonical signature from cards
  * 
  * Cards are sorted by:
- * 1. Operator: + < - < * < ÷
+ * 1. Operator: + < - < * < ÷ < ^ < % < &
  * 2. Value: numeric order
  * 
  * @param cards - Array of Card objects
@@ -103,7 +104,7 @@ export function signatureToStrings(signature: string): CardString[] {
  * Compare two cards for sorting
  * 
  * Sorting order:
- * 1. By operator: + < - < * < ÷
+ * 1. By operator: + < - < * < ÷ < ^ < % < &
  * 2. By value: numeric order
  */
 export function compareCards(a: Card, b: Card): number {
@@ -193,15 +194,8 @@ export function normalizeSignature(signature: string): string {
 export function signatureToDisplay(signature: string): string {
   const cards = fromSignature(signature);
   
-  const operatorDisplay: Record<Operator, string> = {
-    '+': '+',
-    '-': '−', // proper minus sign
-    '*': '×',
-    '÷': '÷',
-  };
-  
   return cards
-    .map(card => `${operatorDisplay[card.operator]}${card.value}`)
+    .map(card => `${OPERATOR_DISPLAY[card.operator]}${card.value}`)
     .join(' ');
 }
 
@@ -229,29 +223,23 @@ export function signatureToShortHash(signature: string): string {
  * Encode a signature for use in URLs
  * 
  * Replaces characters that might cause issues:
- * - ÷ → 'd' (divide)
- * - * → 'm' (multiply)
- * - + → 'a' (add)
- * - - → 's' (subtract)
+ * - each operator → its registry URL letter (÷ → 'd', * → 'm', + → 'a',
+ *   - → 's', ^ → 'p', % → 'r', & → 'c')
  * - , → '_'
  */
 export function encodeSignatureForUrl(signature: string): string {
-  return signature
-    .replace(/÷/g, 'd')
-    .replace(/\*/g, 'm')
-    .replace(/\+/g, 'a')
-    .replace(/-/g, 's')
-    .replace(/,/g, '_');
+  return Array.from(signature, (char) => {
+    if (char === ',') return '_';
+    return isRegisteredOperator(char) ? getOperatorDefinition(char).urlLetter : char;
+  }).join('');
 }
 
 /**
  * Decode a URL-encoded signature back to canonical form
  */
 export function decodeSignatureFromUrl(encoded: string): string {
-  return encoded
-    .replace(/d/g, '÷')
-    .replace(/m/g, '*')
-    .replace(/a/g, '+')
-    .replace(/s/g, '-')
-    .replace(/_/g, ',');
+  return Array.from(encoded, (char) => {
+    if (char === '_') return ',';
+    return getOperatorForUrlLetter(char) ?? char;
+  }).join('');
 }
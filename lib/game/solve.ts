@@ -0,0 +1,336 @@
+/**
+ * Exact puzzle solver for Zero Rush v2
+ *
+ * Enumerating every permutation is fine for small hands, but 10 cards means
+ * 3,628,800 orderings. Because evaluation reads cards one at a time, the
+ * future of a partial arrangement depends only on which cards have been used
+ * and the evaluation state so far - the running total, plus the pending term
+ * and operand under PEMDAS - not on the order that produced it.
+ *
+ * The solver therefore walks the subsets of used cards (2^n states) and
+ * merges arrangements whose evaluation states are identical, keeping:
+ * - how many orderings reach that state (exact permutation counts)
+ * - one example arrangement (via back-pointers)
+ * - whether that example ever hit a non-integer intermediate step
+ * - which cards open at least one of those orderings
+ *
+ * Totals are exact fractions (see rational.ts), so merging and the final
+ * integer check never depend on floating point noise. Arrangements with an
+ * undefined step (see operators.ts) reach no answer; they are dropped from
+ * the answers and only counted.
+ *
+ * Given a prefix of cards already played, the search starts from the
+ * prefix's evaluation state instead, which answers "what can I still reach
+ * from here?" in a fraction of the time.
+ */
+
+import type { Card, RuleSet } from '../types/game';
+import { DEFAULT_RULE_SET } from './constants';
+import { getOperatorDefinition } from './operators';
+import { rationalToNumber } from './rational';
+import {
+  isWholeState,
+  settleEvaluation,
+  tryFinishEvaluation,
+  tryStartEvaluation,
+  tryStepEvaluation,
+  type EvaluationState,
+} from './rules';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** One reachable answer with its permutation count and an example arrangement */
+export interface SolvedAnswer {
+  /** Example arrangement that produces this answer */
+  arrangement: Card[];
+  /** Number of permutations that produce this answer */
+  count: number;
+  /** Whether the example arrangement had a non-integer intermediate step */
+  floatDetected: boolean;
+  /** Bitmask of card indices that start at least one of those permutations (0 after a prefix) */
+  openers: number;
+}
+
+/** Every answer a hand reaches, and how many arrangements reach none */
+export interface AnswerSearch {
+  /** Map from answer to its count and an example arrangement */
+  answers: Map<number, SolvedAnswer>;
+  /** Arrangements dropped for an undefined step (÷0, an out-of-range power, ...) */
+  undefinedPermutations: number;
+}
+
+/**
+ * All merged evaluation states for one subset of used cards.
+ * Stored as parallel arrays - one entry per distinct state - to keep
+ * allocation low when a 10-card hand produces hundreds of thousands of states.
+ */
+interface SubsetLayer {
+  /** Distinct evaluation states */
+  states: EvaluationState[];
+  /** Number of orderings of the subset that reach each state */
+  counts: number[];
+  /** Whether the example path for each state had a non-integer step */
+  floats: boolean[];
+  /** Bitmask of the cards played first on any ordering reaching each state */
+  openers: number[];
+  /** Index of the card played last on each example path */
+  lastCards: number[];
+  /** Index of the previous state (in the subset without lastCard) */
+  prevIndices: number[];
+  /** Lookup from state key to entry index; dropped once the layer is complete */
+  index: Map<string, number> | null;
+}
+
+// =============================================================================
+// Solver
+// =============================================================================
+
+/**
+ * Solve a hand exactly by searching over subsets of used cards.
+ *
+ * Produces the same answers and permutation counts as evaluating every
+ * permutation, in O(2^n * n * distinct states) time. When the rules forbid
+ * non-integer steps, those arrangements are dropped entirely.
+ *
+ * @param cards - The puzzle cards (the cards still to play, after a prefix)
+ * @param rules - Rule set to evaluate under (defaults to the standard rules)
+ * @param prefix - Cards already played, in order; counts and example
+ *   arrangements then cover completions of the prefix
+ * @returns Map from answer to its count and an example arrangement, and the
+ *   number of arrangements with an undefined step
+ *
+ * @example
+ * const { answers } = solveAllAnswers(cards);
+ * answers.get(0)?.count // → number of arrangements that reach 0
+ *
+ * @example
+ * // Everything still reachable after playing 7 then ×3
+ * solveAllAnswers(hand, DEFAULT_RULE_SET, [{ operator: '+', value: 7 }, { operator: '*', value: 3 }]);
+ */
+export function solveAllAnswers(
+  cards: Card[],
+  rules: RuleSet = DEFAULT_RULE_SET,
+  prefix: Card[] = []
+): AnswerSearch {
+  const n = cards.length;
+  const answers = new Map<number, SolvedAnswer>();
+  if (n === 0 && prefix.length === 0) return { answers, undefinedPermutations: 0 };
+
+  // Orderings of the cards still unused, to count what an undefined step drops
+  const factorials = [1];
+  for (let k = 1; k <= n; k++) factorials.push(factorials[k - 1] * k);
+  let undefinedPermutations = 0;
+
+  const fullMask = (1 << n) - 1;
+  const layers: Array<SubsetLayer | undefined> = new Array(fullMask + 1);
+  const pruneFloats = rules.forbidNonIntegerSteps;
+
+  // Cards that can still change a pending PEMDAS operand; once none remain
+  // unused, states are settled so equivalent ones merge
+  let powerMask = 0;
+  if (rules.precedence === 'pemdas') {
+    cards.forEach((card, i) => {
+      if (getOperatorDefinition(card.operator).precedence === 'power') {
+        powerMask |= 1 << i;
+      }
+    });
+  }
+  const settle = (state: EvaluationState, mask: number): EvaluationState =>
+    (fullMask & ~mask & powerMask) === 0 ? settleEvaluation(state) : state;
+
+  const getLayer = (mask: number): SubsetLayer => {
+    let layer = layers[mask];
+    if (!layer) {
+      layer = {
+        states: [],
+        counts: [],
+        floats: [],
+        openers: [],
+        lastCards: [],
+        prevIndices: [],
+        index: new Map(),
+      };
+      layers[mask] = layer;
+    }
+    return layer;
+  };
+
+  if (prefix.length > 0) {
+    // The prefix is the sole state of the empty subset
+    let state = tryStartEvaluation(prefix[0], rules);
+    let floatDetected = state !== null && !isWholeState(state);
+    for (let i = 1; i < prefix.length && state; i++) {
+      state = tryStepEvaluation(state, prefix[i], rules);
+      floatDetected ||= state !== null && !isWholeState(state);
+    }
+    if (!state) return { answers, undefinedPermutations: factorials[n] };
+    if (pruneFloats && floatDetected) return { answers, undefinedPermutations: 0 };
+    mergeState(getLayer(0), settle(state, 0), 1, floatDetected, 0, -1, -1);
+  } else {
+    // Single-card subsets
+    for (let i = 0; i < n; i++) {
+      const state = tryStartEvaluation(cards[i], rules);
+      if (!state) {
+        undefinedPermutations += factorials[n - 1];
+        continue;
+      }
+      const floatDetected = !isWholeState(state);
+      if (pruneFloats && floatDetected) continue;
+      mergeState(getLayer(1 << i), settle(state, 1 << i), 1, floatDetected, 1 << i, i, -1);
+    }
+  }
+
+  // Masks only ever grow by adding bits, so increasing numeric order
+  // guarantees every predecessor subset is complete before it is extended.
+  for (let mask = 0; mask < fullMask; mask++) {
+    const layer = layers[mask];
+    if (!layer) continue;
+    layer.index = null;
+
+    const { states, counts, floats, openers } = layer;
+    // Cards left to play after the next one
+    const unusedAfter = n - 1 - countBits(mask);
+
+    for (let i = 0; i < n; i++) {
+      if (mask & (1 << i)) continue;
+
+      const card = cards[i];
+      const nextMask = mask | (1 << i);
+      const nextLayer = getLayer(nextMask);
+
+      for (let j = 0; j < states.length; j++) {
+        // Stepped exactly as evaluate() does, so a pending undefined
+        // operand is dropped here even when a later card would replace it
+        const stepped = tryStepEvaluation(states[j], card, rules);
+        if (!stepped) {
+          // An undefined step (see operators.ts) reaches no answer
+          undefinedPermutations += counts[j] * factorials[unusedAfter];
+          continue;
+        }
+        const next = settle(stepped, nextMask);
+        const floatDetected = floats[j] || !isWholeState(next);
+        if (pruneFloats && floatDetected) continue;
+        mergeState(nextLayer, next, counts[j], floatDetected, openers[j], i, j);
+      }
+    }
+  }
+
+  const finalLayer = layers[fullMask];
+  if (!finalLayer) return { answers, undefinedPermutations };
+
+  for (let j = 0; j < finalLayer.states.length; j++) {
+    // Distinct PEMDAS states can finish on the same total, and distinct
+    // non-integers can share the nearest number, so merge by answer here
+    const total = tryFinishEvaluation(finalLayer.states[j]);
+    const count = finalLayer.counts[j];
+    if (!total) {
+      undefinedPermutations += count;
+      continue;
+    }
+    const answer = rationalToNumber(total);
+    const floatDetected = finalLayer.floats[j];
+    const openers = finalLayer.openers[j];
+    const existing = answers.get(answer);
+
+    if (!existing) {
+      answers.set(answer, {
+        arrangement: [...prefix, ...reconstructArrangement(cards, layers, fullMask, j)],
+        count,
+        floatDetected,
+        openers,
+      });
+      continue;
+    }
+
+    existing.count += count;
+    existing.openers |= openers;
+    if (existing.floatDetected && !floatDetected) {
+      existing.arrangement = [...prefix, ...reconstructArrangement(cards, layers, fullMask, j)];
+      existing.floatDetected = false;
+    }
+  }
+
+  return { answers, undefinedPermutations };
+}
+
+/**
+ * Key identifying an evaluation state within a layer
+ */
+function stateKey({ sum, negative, term, operator, factor }: EvaluationState): string {
+  const key = `${sum.numerator}/${sum.denominator}|${negative ? '-' : ''}${term.numerator}/${term.denominator}`;
+  // Settled states (the common case) have no pending operand
+  return operator === '+' && factor === 0 ? key : `${key}${operator}${factor}`;
+}
+
+/**
+ * Merge a path into a subset layer, summing counts for identical states.
+ * Integer-only example paths are preferred so floatDetected stays meaningful.
+ */
+function mergeState(
+  layer: SubsetLayer,
+  state: EvaluationState,
+  count: number,
+  floatDetected: boolean,
+  openers: number,
+  lastCard: number,
+  prevIndex: number
+): void {
+  const index = layer.index!;
+  const key = stateKey(state);
+  const existing = index.get(key);
+
+  if (existing === undefined) {
+    index.set(key, layer.states.length);
+    layer.states.push(state);
+    layer.counts.push(count);
+    layer.floats.push(floatDetected);
+    layer.openers.push(openers);
+    layer.lastCards.push(lastCard);
+    layer.prevIndices.push(prevIndex);
+    return;
+  }
+
+  layer.counts[existing] += count;
+  layer.openers[existing] |= openers;
+
+  if (layer.floats[existing] && !floatDetected) {
+    layer.floats[existing] = false;
+    layer.lastCards[existing] = lastCard;
+    layer.prevIndices[existing] = prevIndex;
+  }
+}
+
+/**
+ * Walk back-pointers from a final state to rebuild its example arrangement
+ */
+function reconstructArrangement(
+  cards: Card[],
+  layers: Array<SubsetLayer | undefined>,
+  fullMask: number,
+  finalIndex: number
+): Card[] {
+  const arrangement: Card[] = [];
+  let mask = fullMask;
+  let entry = finalIndex;
+
+  while (mask !== 0) {
+    const layer = layers[mask]!;
+    const lastCard = layer.lastCards[entry];
+    arrangement.push(cards[lastCard]);
+    entry = layer.prevIndices[entry];
+    mask &= ~(1 << lastCard);
+  }
+
+  return arrangement.reverse();
+}
+
+/**
+ * Number of set bits in a subset mask
+ */
+function countBits(mask: number): number {
+  let count = 0;
+  for (let rest = mask; rest !== 0; rest &= rest - 1) count++;
+  return count;
+}
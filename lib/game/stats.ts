@@ -0,0 +1,284 @@
+/**
+ * Player statistics for Zero Rush v2
+ *
+ * Stats are never stored: they're computed on demand from what the player
+ * has played - GameRecords where they exist, puzzle history entries for
+ * everything else - so they can be filtered by difficulty and date range.
+ */
+
+import type {
+  Difficulty,
+  GameRecord,
+  PuzzleHistoryEntry,
+  UserStats,
+} from '../types/game';
+import { DIFFICULTIES } from './constants';
+import { getDailyDate } from './daily';
+
+/** Attempts at or above this share the last distribution bucket */
+export const ATTEMPTS_DISTRIBUTION_MAX = 10;
+
+/** A played game, as far as stats care */
+export interface StatsGame {
+  /** Canonical puzzle signature */
+  signature: string;
+  difficulty: Difficulty;
+  /** When the game ended */
+  playedAt: number;
+  attempts: number;
+  /** Hints used, split by target where known */
+  hints: { total: number; dusk?: number; dawn?: number };
+  foundDusk: boolean;
+  foundDawn: boolean;
+  /** Time on the clock, if recorded */
+  durationMs?: number;
+}
+
+/** Which games to include */
+export interface StatsFilter {
+  /** Only this difficulty (all difficulties if omitted) */
+  difficulty?: Difficulty;
+  /** Earliest play time included */
+  from?: number;
+  /** Latest play time included */
+  to?: number;
+}
+
+/** Games that took a given number of attempts */
+export interface AttemptsBucket {
+  /** Attempts ("10+" for the last bucket) */
+  label: string;
+  count: number;
+}
+
+/** Hint usage on one UTC day */
+export interface HintUsageDay {
+  /** YYYY-MM-DD */
+  date: string;
+  games: number;
+  hints: number;
+}
+
+/** How often one target is found */
+export interface TargetSuccess {
+  found: number;
+  games: number;
+  /** found / games (0 when there are no games) */
+  rate: number;
+  /** Hints spent on this target (games that recorded the split only) */
+  hints: number;
+}
+
+/** Everything the stats screen shows */
+export interface StatsSummary {
+  stats: UserStats;
+  /** Games where both targets were found */
+  wins: number;
+  /** Completed games by attempts taken */
+  attemptsDistribution: AttemptsBucket[];
+  /** Days with at least one game, oldest first */
+  hintUsage: HintUsageDay[];
+  dusk: TargetSuccess;
+  dawn: TargetSuccess;
+}
+
+// =============================================================================
+// Sources
+// =============================================================================
+
+/**
+ * Read a history entry as a played game
+ *
+ * @returns The game, or null for entries saved without being played (e.g.
+ *   from the puzzle creator)
+ */
+export function historyEntryToStatsGame(entry: PuzzleHistoryEntry): StatsGame | null {
+  if (entry.attempts === 0) return null;
+  return {
+    signature: entry.signature,
+    difficulty: entry.difficulty,
+    playedAt: entry.completedAt,
+    attempts: entry.attempts,
+    hints: entry.hintsUsed ?? { total: 0, dusk: 0, dawn: 0 },
+    foundDusk: entry.foundDusk,
+    foundDawn: entry.foundDawn,
+    durationMs: entry.durationMs,
+  };
+}
+
+/**
+ * Read a game record as a played game
+ *
+ * @returns The game, or null for puzzles abandoned before any submission
+ */
+export function gameRecordToStatsGame(record: GameRecord): StatsGame | null {
+  if (record.attempts === 0) return null;
+  return {
+    signature: record.puzzleSignature,
+    difficulty: record.difficulty,
+    playedAt: record.completedAt,
+    attempts: record.attempts,
+    hints: { total: record.hintsUsed },
+    foundDusk: record.foundDusk,
+    foundDawn: record.foundDawn,
+    durationMs: record.durationMs,
+  };
+}
+
+/**
+ * Combine records and history into one list of games
+ *
+ * Records count every play; history keeps one entry per puzzle, so an entry
+ * only fills in puzzles that have no record.
+ */
+export function collectStatsGames(
+  entries: PuzzleHistoryEntry[],
+  records: GameRecord[] = []
+): StatsGame[] {
+  const recorded = new Set(records.map((record) => record.puzzleSignature));
+  return [
+    ...records.flatMap((record) => gameRecordToStatsGame(record) ?? []),
+    ...entries
+      .filter((entry) => !recorded.has(entry.signature))
+      .flatMap((entry) => historyEntryToStatsGame(entry) ?? []),
+  ];
+}
+
+/**
+ * Keep the games a filter matches
+ */
+export function filterStatsGames(games: StatsGame[], filter: StatsFilter): StatsGame[] {
+  return games.filter(
+    (game) =>
+      (filter.difficulty === undefined || game.difficulty === filter.difficulty) &&
+      (filter.from === undefined || game.playedAt >= filter.from) &&
+      (filter.to === undefined || game.playedAt <= filter.to)
+  );
+}
+
+// =============================================================================
+// Computation
+// =============================================================================
+
+/**
+ * Compute UserStats for a set of games
+ *
+ * winRate is a fraction (0-1); times are in milliseconds. Difficulties
+ * without games (or without timed wins) read 0.
+ *
+ * @param puzzlesStarred - Favorited puzzles (not part of the games)
+ */
+export function computeUserStats(games: StatsGame[], puzzlesStarred: number = 0): UserStats {
+  const perDifficulty = (value: (games: StatsGame[]) => number) =>
+    Object.fromEntries(
+      DIFFICULTIES.map((difficulty) => [
+        difficulty,
+        value(games.filter((game) => game.difficulty === difficulty)),
+      ])
+    ) as Record<Difficulty, number>;
+
+  return {
+    totalGamesPlayed: games.length,
+    gamesPerDifficulty: perDifficulty((played) => played.length),
+    winRate: perDifficulty((played) => ratio(played.filter(isWin).length, played.length)),
+    averageSolveTime: perDifficulty((played) => {
+      const times = getWinTimes(played);
+      return times.length === 0 ? 0 : times.reduce((sum, time) => sum + time, 0) / times.length;
+    }),
+    bestTimes: perDifficulty((played) => {
+      const times = getWinTimes(played);
+      return times.length === 0 ? 0 : Math.min(...times);
+    }),
+    puzzlesStarred,
+  };
+}
+
+/**
+ * Count completed games by attempts taken
+ *
+ * @example
+ * getAttemptsDistribution(games)
+ * // → [{ label: "1", count: 0 }, { label: "2", count: 3 }, ..., { label: "10+", count: 1 }]
+ */
+export function getAttemptsDistribution(games: StatsGame[]): AttemptsBucket[] {
+  const counts = new Array<number>(ATTEMPTS_DISTRIBUTION_MAX).fill(0);
+  for (const game of games) {
+    if (!isWin(game)) continue;
+    const bucket = Math.min(Math.max(game.attempts, 1), ATTEMPTS_DISTRIBUTION_MAX) - 1;
+    counts[bucket]++;
+  }
+  return counts.map((count, i) => ({
+    label: i === ATTEMPTS_DISTRIBUTION_MAX - 1 ? `${i + 1}+` : String(i + 1),
+    count,
+  }));
+}
+
+/**
+ * Total hints per UTC day, oldest first
+ */
+export function getHintUsage(games: StatsGame[]): HintUsageDay[] {
+  const days = new Map<string, HintUsageDay>();
+  for (const game of games) {
+    const date = getDailyDate(new Date(game.playedAt));
+    const day = days.get(date) ?? { date, games: 0, hints: 0 };
+    day.games++;
+    day.hints += game.hints.total;
+    days.set(date, day);
+  }
+  return [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * How often dusk and dawn are found, with the hints spent on each
+ */
+export function getTargetSuccess(games: StatsGame[]): { dusk: TargetSuccess; dawn: TargetSuccess } {
+  const success = (found: (game: StatsGame) => boolean, hints: (game: StatsGame) => number) => {
+    const count = games.filter(found).length;
+    return {
+      found: count,
+      games: games.length,
+      rate: ratio(count, games.length),
+      hints: games.reduce((sum, game) => sum + hints(game), 0),
+    };
+  };
+  return {
+    dusk: success((game) => game.foundDusk, (game) => game.hints.dusk ?? 0),
+    dawn: success((game) => game.foundDawn, (game) => game.hints.dawn ?? 0),
+  };
+}
+
+/**
+ * Compute everything the stats screen shows for the games a filter matches
+ */
+export function summarizeStats(
+  games: StatsGame[],
+  filter: StatsFilter = {},
+  puzzlesStarred: number = 0
+): StatsSummary {
+  const filtered = filterStatsGames(games, filter);
+  return {
+    stats: computeUserStats(filtered, puzzlesStarred),
+    wins: filtered.filter(isWin).length,
+    attemptsDistribution: getAttemptsDistribution(filtered),
+    hintUsage: getHintUsage(filtered),
+    ...getTargetSuccess(filtered),
+  };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function isWin(game: StatsGame): boolean {
+  return game.foundDusk && game.foundDawn;
+}
+
+function getWinTimes(games: StatsGame[]): number[] {
+  return games.flatMap((game) =>
+    isWin(game) && game.durationMs !== undefined ? [game.durationMs] : []
+  );
+}
+
+function ratio(part: number, whole: number): number {
+  return whole === 0 ? 0 : part / whole;
+}
@@ -0,0 +1,159 @@
+/**
+ * Daily streaks for Zero Rush v2
+ *
+ * One streak across all difficulties (D020): a UTC day counts when any of
+ * that day's daily puzzles is completed on the day itself, so archive plays
+ * can't backfill it. Missing exactly one day can be bridged with a streak
+ * save for STREAK_SAVE_COST gems (D021); saves are unlimited but shown next to
+ * the streak (D028).
+ *
+ * Streak fields live on the UserProfile:
+ * - currentStreak / longestStreak - lengths in days
+ * - streakSavesUsed - saves spent during the current streak
+ * - lastDailyCompletedAt - a moment in the last day the streak covers
+ */
+
+import type { UserProfile } from '../types/game';
+import { STREAK_SAVE_COST } from './constants';
+import { getDailyDate } from './daily';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Where the streak stands today:
+ * - none: no streak yet
+ * - done: today's daily is completed
+ * - pending: yesterday was completed; a daily today continues the streak
+ * - saveable: exactly one day was missed; a save keeps the streak alive
+ * - lost: more than one day was missed
+ */
+export type StreakState = 'none' | 'done' | 'pending' | 'saveable' | 'lost';
+
+/** A streak as shown to players */
+export interface StreakSummary {
+  /** Length in days */
+  days: number;
+  /** Saves used during the streak */
+  saves: number;
+}
+
+export interface StreakStatus extends StreakSummary {
+  state: StreakState;
+}
+
+// =============================================================================
+// Days
+// =============================================================================
+
+/**
+ * Count UTC days from one daily date to another
+ *
+ * @example
+ * getDaysBetween('2026-02-28', '2026-03-01') // → 1
+ */
+export function getDaysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+// =============================================================================
+// Status
+// =============================================================================
+
+/**
+ * Get where the player's streak stands at a moment in time
+ *
+ * A lost streak keeps its length in `days` so it can be shown as
+ * something to beat.
+ */
+export function getStreakStatus(profile: UserProfile, now: Date = new Date()): StreakStatus {
+  const days = profile.currentStreak;
+  const saves = profile.streakSavesUsed;
+  if (profile.lastDailyCompletedAt === undefined || days === 0) {
+    return { state: 'none', days: 0, saves: 0 };
+  }
+
+  const lastDay = getDailyDate(new Date(profile.lastDailyCompletedAt));
+  const daysSince = getDaysBetween(lastDay, getDailyDate(now));
+  const state: StreakState =
+    daysSince <= 0 ? 'done' : daysSince === 1 ? 'pending' : daysSince === 2 ? 'saveable' : 'lost';
+  return { state, days, saves };
+}
+
+/**
+ * Check whether the player can save their streak right now: exactly one day
+ * missed and enough gems
+ *
+ * @param gemBalance - The player's balance (see getGemBalance)
+ */
+export function canSaveStreak(
+  profile: UserProfile,
+  gemBalance: number,
+  now: Date = new Date()
+): boolean {
+  return getStreakStatus(profile, now).state === 'saveable' && gemBalance >= STREAK_SAVE_COST;
+}
+
+// =============================================================================
+// Updates
+// =============================================================================
+
+/**
+ * Count a daily completion towards the streak
+ *
+ * Only a daily completed on its own date counts; a second daily on the same
+ * day changes nothing.
+ *
+ * @param date - The completed daily's date (YYYY-MM-DD)
+ */
+export function recordDailyStreak(
+  profile: UserProfile,
+  date: string,
+  now: Date = new Date()
+): UserProfile {
+  if (date !== getDailyDate(now)) return profile;
+
+  const { state } = getStreakStatus(profile, now);
+  if (state === 'done') return profile;
+
+  const continues = state === 'pending';
+  const currentStreak = continues ? profile.currentStreak + 1 : 1;
+  return {
+    ...profile,
+    currentStreak,
+    longestStreak: Math.max(profile.longestStreak, currentStreak),
+    streakSavesUsed: continues ? profile.streakSavesUsed : 0,
+    lastDailyCompletedAt: now.getTime(),
+  };
+}
+
+/**
+ * Bridge the missed day with a save
+ *
+ * The streak's length doesn't grow; completing today's daily afterwards
+ * continues it. The caller pays STREAK_SAVE_COST (see spendGems). No-op
+ * unless exactly one day was missed.
+ */
+export function saveStreak(profile: UserProfile, now: Date = new Date()): UserProfile {
+  if (getStreakStatus(profile, now).state !== 'saveable') return profile;
+  return {
+    ...profile,
+    streakSavesUsed: profile.streakSavesUsed + 1,
+    lastDailyCompletedAt: now.getTime() - DAY_MS,
+  };
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+/**
+ * Format a streak with its saves (omitted when there are none)
+ *
+ * @example
+ * formatStreak({ days: 127, saves: 2 }) // → "🔥 127 day streak (2 saves)"
+ * formatStreak({ days: 45, saves: 0 }) // → "🔥 45 day streak"
+ */
+export function formatStreak({ days, saves }: StreakSummary): string {
+  const savesNote = saves > 0 ? ` (${saves} save${saves === 1 ? '' : 's'})` : '';
+  return `🔥 ${days} day streak${savesNote}`;
+}
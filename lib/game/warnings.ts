@@ -0,0 +1,79 @@
+/**
+ * Puzzle warnings for Zero Rush v2
+ *
+ * Generated puzzles are filtered for quality before anyone sees them (see
+ * findGoodPuzzle). Hand-made puzzles aren't, so the editor explains what
+ * the analysis found instead of silently rejecting the hand.
+ */
+
+import type { PuzzleResult } from '../types/game';
+
+/** How much a warning matters to whoever plays the puzzle */
+export type PuzzleWarningSeverity = 'error' | 'warning' | 'info';
+
+/** Something about a puzzle worth knowing before sharing it */
+export interface PuzzleWarning {
+  id: 'unplayable' | 'dawn-not-unique' | 'no-zero' | 'few-answers' | 'mostly-invalid';
+  severity: PuzzleWarningSeverity;
+  message: string;
+}
+
+/** Distinct answers at or below which a puzzle feels like a coin flip */
+const FEW_ANSWERS = 3;
+
+/**
+ * List what's unusual about an analyzed puzzle, most serious first
+ *
+ * @example
+ * getPuzzleWarnings(generateAnswers(cards))
+ * // → [{ id: 'dawn-not-unique', severity: 'warning', message: 'Dawn not unique: 4 arrangements reach 42' }]
+ */
+export function getPuzzleWarnings(result: PuzzleResult): PuzzleWarning[] {
+  if (!result.hasValidAnswers) {
+    return [
+      {
+        id: 'unplayable',
+        severity: 'error',
+        message: 'Fewer than two valid answers - this hand has no dusk and dawn',
+      },
+    ];
+  }
+
+  const warnings: PuzzleWarning[] = [];
+  const { dusk, dawn, uniqueAnswers, totalPermutations } = result;
+  const unanswered = result.invalidPermutations + result.undefinedPermutations;
+
+  if (!result.isGood) {
+    warnings.push({
+      id: 'dawn-not-unique',
+      severity: 'warning',
+      message: `Dawn not unique: ${dawn.permutationCount} arrangements reach ${dawn.result}`,
+    });
+  }
+
+  if (uniqueAnswers <= FEW_ANSWERS) {
+    warnings.push({
+      id: 'few-answers',
+      severity: 'warning',
+      message: `Only ${uniqueAnswers} distinct values can be reached`,
+    });
+  }
+
+  if (unanswered * 2 > totalPermutations) {
+    warnings.push({
+      id: 'mostly-invalid',
+      severity: 'info',
+      message: `${unanswered} of ${totalPermutations} arrangements give no valid answer`,
+    });
+  }
+
+  if (!result.hasZero) {
+    warnings.push({
+      id: 'no-zero',
+      severity: 'info',
+      message: `Dusk is ${dusk.result}, not 0`,
+    });
+  }
+
+  return warnings;
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import type { DailyCompletion, Difficulty } from "@/lib/types/game";
+import { getDailyPuzzleId } from "@/lib/game/daily";
+
+const DAILY_COMPLETIONS_STORAGE_KEY = "zero-rush.dailyCompletions";
+
+/** Completions are stored per device until accounts exist */
+export const LOCAL_USER_ID = "local";
+
+export interface UseDailyCompletionsReturn {
+  /** All recorded daily completions */
+  completions: DailyCompletion[];
+  /** Record (or replace) the completion for a daily puzzle */
+  recordCompletion: (completion: Omit<DailyCompletion, "id" | "userId">) => void;
+  /** Get the completion for a date and difficulty, if any */
+  getCompletion: (
+    date: string,
+    difficulty: Difficulty
+  ) => DailyCompletion | undefined;
+}
+
+function getStoredCompletions(): DailyCompletion[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = localStorage.getItem(DAILY_COMPLETIONS_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        return parsed;
+      }
+    }
+  } catch {
+    // Ignore malformed storage
+  }
+  return [];
+}
+
+function storeCompletions(completions: DailyCompletion[]) {
+  try {
+    localStorage.setItem(
+      DAILY_COMPLETIONS_STORAGE_KEY,
+      JSON.stringify(completions)
+    );
+  } catch {
+    // Ignore storage failures
+  }
+}
+
+/**
+ * Hook for tracking daily puzzle completions with localStorage persistence
+ *
+ * Each completion is merged into what's in storage at that moment, so the
+ * home screen and a daily game mounted together keep each other's entries.
+ */
+export function useDailyCompletions(): UseDailyCompletionsReturn {
+  const [completions, setCompletions] = useState<DailyCompletion[]>(
+    getStoredCompletions
+  );
+
+  const recordCompletion = useCallback(
+    (completion: Omit<DailyCompletion, "id" | "userId">) => {
+      const id = getDailyPuzzleId(completion.date, completion.difficulty);
+      const entry: DailyCompletion = { ...completion, id, userId: LOCAL_USER_ID };
+
+      const current = getStoredCompletions();
+      const existing = current.find((c) => c.id === id);
+      // Keep the first finish - replaying a daily doesn't overwrite it
+      const next = existing?.completed
+        ? current
+        : [entry, ...current.filter((c) => c.id !== id)];
+      if (next !== current) storeCompletions(next);
+      setCompletions(next);
+    },
+    []
+  );
+
+  const getCompletion = useCallback(
+    (date: string, difficulty: Difficulty) =>
+      completions.find((c) => c.id === getDailyPuzzleId(date, difficulty)),
+    [completions]
+  );
+
+  return {
+    completions,
+    recordCompletion,
+    getCompletion,
+  };
+}
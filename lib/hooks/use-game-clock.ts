@@ -0,0 +1,79 @@
+"use client";
+
+import { useState, useCallback, useEffect, useRef } from "react";
+
+/** How often the displayed time refreshes */
+const TICK_MS = 250;
+
+export interface UseGameClockReturn {
+  /** Time on the clock, refreshed a few times a second */
+  elapsedMs: number;
+  /** Exact time on the clock right now */
+  getElapsedMs: () => number;
+}
+
+/**
+ * Hook for a puzzle clock that only counts while the puzzle is being played
+ * and the tab is visible
+ *
+ * @param running - Whether the clock should count (e.g. puzzle loaded and unsolved)
+ * @param startedAt - When the puzzle became playable; a new value resets the clock
+ */
+export function useGameClock(
+  running: boolean,
+  startedAt: number | null
+): UseGameClockReturn {
+  const [elapsedMs, setElapsedMs] = useState(0);
+  // Time banked before the current stretch, and when that stretch began
+  const bankedRef = useRef(0);
+  const stretchStartRef = useRef<number | null>(null);
+
+  const getElapsedMs = useCallback(() => {
+    const stretchStart = stretchStartRef.current;
+    return bankedRef.current + (stretchStart === null ? 0 : Date.now() - stretchStart);
+  }, []);
+
+  // Reset for each new (or restarted) puzzle
+  useEffect(() => {
+    bankedRef.current = 0;
+    stretchStartRef.current = null;
+    // eslint-disable-next-line react-hooks/set-state-in-effect
+    setElapsedMs(0);
+  }, [startedAt]);
+
+  // Count while running and visible; bank the stretch when either stops
+  useEffect(() => {
+    if (!running) return;
+
+    const pause = () => {
+      bankedRef.current = getElapsedMs();
+      stretchStartRef.current = null;
+      setElapsedMs(bankedRef.current);
+    };
+    const resume = () => {
+      if (stretchStartRef.current === null) stretchStartRef.current = Date.now();
+    };
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        pause();
+      } else {
+        resume();
+      }
+    };
+
+    if (!document.hidden) resume();
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    const interval = setInterval(() => setElapsedMs(getElapsedMs()), TICK_MS);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      pause();
+    };
+  }, [running, startedAt, getElapsedMs]);
+
+  return {
+    elapsedMs,
+    getElapsedMs,
+  };
+}
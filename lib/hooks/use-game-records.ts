@@ -0,0 +1,58 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import type { GameRecord } from "@/lib/types/game";
+
+const GAME_RECORDS_STORAGE_KEY = "zero-rush.gameRecords";
+const MAX_GAME_RECORDS = 500;
+
+export interface UseGameRecordsReturn {
+  /** Stored game records, newest first */
+  records: GameRecord[];
+  /** Store a record, replacing one with the same id (a GameRecordSink for useGame) */
+  addRecord: (record: GameRecord) => void;
+}
+
+function getStoredRecords(): GameRecord[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = localStorage.getItem(GAME_RECORDS_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        return parsed;
+      }
+    }
+  } catch {
+    // Ignore malformed storage
+  }
+  return [];
+}
+
+/**
+ * Hook for the local game record store, keeping the newest MAX_GAME_RECORDS
+ *
+ * Records usually arrive as a board unmounts, so they're written to storage
+ * straight away rather than from an effect.
+ */
+export function useGameRecords(): UseGameRecordsReturn {
+  const [records, setRecords] = useState<GameRecord[]>(getStoredRecords);
+
+  const addRecord = useCallback((record: GameRecord) => {
+    const next = [
+      record,
+      ...getStoredRecords().filter((stored) => stored.id !== record.id),
+    ].slice(0, MAX_GAME_RECORDS);
+    try {
+      localStorage.setItem(GAME_RECORDS_STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // Ignore storage failures
+    }
+    setRecords(next);
+  }, []);
+
+  return {
+    records,
+    addRecord,
+  };
+}
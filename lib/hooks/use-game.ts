@@ -1,21 +1,52 @@
 "use client";
 
-import { useState, useCallback, useMemo } from "react";
+import { useState, useCallback, useMemo, useEffect, useRef } from "react";
 import type {
   Card,
+  CustomDifficultyConfig,
   Difficulty,
   PuzzleResult,
   Slot,
   AutoOrgMode,
   HintState,
   HintedCard,
+  RuleSet,
+  DirectionalHint,
+  DirectionalHintProgress,
+  GameMode,
+  InvalidReason,
+  MaxHintLimit,
 } from "@/lib/types/game";
+import { createInvalidResult } from "@/lib/game/generate";
 import {
-  findGoodPuzzleForDifficulty,
-  generateAnswers,
-} from "@/lib/game/generate";
-import { evaluate, isValidAnswer, cardToString } from "@/lib/game/evaluate";
-import { DIFFICULTY_CONFIG } from "@/lib/game/constants";
+  analyzePuzzleAsync,
+  generatePuzzleAsync,
+  isAbortError,
+  solveReachableRangeAsync,
+  type PuzzleAnalysis,
+} from "@/lib/puzzle-worker";
+import {
+  evaluate,
+  explainInvalidResult,
+  isValidResult,
+  cardToString,
+} from "@/lib/game/evaluate";
+import { toCanonicalSignature } from "@/lib/game/signature";
+import { DEFAULT_RULE_SET } from "@/lib/game/constants";
+import { getDifficultyConfig } from "@/lib/game/custom-difficulty";
+import { buildDirectionalHintLadder } from "@/lib/game/hints";
+import { findReachableRange, type ReachableRange } from "@/lib/game/reachable";
+import {
+  createGameRecord,
+  markGameActivity,
+  pauseGameActivity,
+  recordGameSubmission,
+  resumeGameActivity,
+  startGameActivity,
+  type GameActivity,
+  type GameRecordSink,
+  type GameRecordState,
+} from "@/lib/game/records";
 
 /** A submission entry in the history */
 export interface Submission {
@@ -33,6 +64,8 @@ export interface Submission {
   isDawn: boolean;
   /** Whether the result was invalid (negative or non-integer) */
   isInvalid: boolean;
+  /** The step where an invalid result went wrong (null when valid) */
+  invalidReason: InvalidReason | null;
   /** Timestamp of submission */
   timestamp: number;
 }
@@ -61,16 +94,34 @@ export interface GameState {
   foundDawn: boolean;
   /** Number of submit attempts made */
   attempts: number;
-  /** Auto-calculated result from current arrangement (only valid positive integers) */
+  /** Auto-calculated result from current arrangement (only answers the rules allow) */
   currentResult: number | null;
   /** Raw result from evaluation (including negatives/decimals) */
   rawResult: number | null;
+  /** Valid final values still reachable from the cards on the table (null while solving or disabled) */
+  reachableRange: ReachableRange | null;
+  /** Why the reachable range couldn't be solved for the cards on the table */
+  reachableRangeError: string | null;
   /** Whether game is complete (both targets found) */
   isComplete: boolean;
   /** Submission history */
   submissions: Submission[];
   /** Hint state for solution reveals */
   hints: HintState;
+  /** Directional hint steps unlocked per target */
+  directionalHints: DirectionalHintProgress;
+  /** Full directional hint ladder per target (unlocked steps come first) */
+  directionalHintLadders: Record<"dusk" | "dawn", DirectionalHint[]>;
+  /** Hints allowed per target; card reveals and directional steps share it */
+  maxHints: number;
+  /** Hints still available per target */
+  hintsRemaining: Record<"dusk" | "dawn", number>;
+  /** Whether a puzzle is being generated or analyzed in the background */
+  isLoading: boolean;
+  /** Why the last puzzle failed to generate or analyze (null if it didn't) */
+  loadError: string | null;
+  /** When the current puzzle became playable (null while loading) */
+  startedAt: number | null;
 }
 
 export interface UseGameReturn extends GameState {
@@ -78,6 +129,8 @@ export interface UseGameReturn extends GameState {
   puzzleCards: Card[];
   /** Generate a new puzzle */
   generateNewPuzzle: () => void;
+  /** Run the failed generation or analysis again */
+  retryLoad: () => void;
   /** Add a card from hand to arrangement */
   addToArrangement: (card: Card) => void;
   /** Remove a card from arrangement back to hand */
@@ -93,6 +146,8 @@ export interface UseGameReturn extends GameState {
   };
   /** Clear arrangement, return all cards to hand */
   clearArrangement: () => void;
+  /** Lay out a full arrangement of the puzzle cards on the table (e.g. to study a solution) */
+  loadArrangement: (arrangement: Card[]) => void;
   /** Reset the game to initial state */
   resetGame: () => void;
   /** Get card count for current difficulty */
@@ -111,6 +166,14 @@ export interface UseGameReturn extends GameState {
   useCardSlots: boolean;
   /** Set whether card slots are enabled */
   setUseCardSlots: (enabled: boolean) => void;
+  /** Whether the reachable range is tracked while arranging */
+  reachableRangeEnabled: boolean;
+  /** Set whether the reachable range is tracked */
+  setReachableRangeEnabled: (enabled: boolean) => void;
+  /** How many hints each target allows */
+  maxHintLimit: MaxHintLimit;
+  /** Set how many hints each target allows */
+  setMaxHintLimit: (limit: MaxHintLimit) => void;
   /** Move a card from hand slot to table slot */
   addToTableAtSlot: (handIndex: number, tableIndex?: number) => void;
   /** Remove a card from table slot back to hand */
@@ -119,8 +182,18 @@ export interface UseGameReturn extends GameState {
   swapWithinTable: (fromIndex: number, toIndex: number) => void;
   /** Swap two slots within the hand */
   swapWithinHand: (fromIndex: number, toIndex: number) => void;
-  /** Reveal the next hint card for the specified target */
-  revealNextHint: (target: "dusk" | "dawn") => void;
+  /**
+   * Reveal the next hint card for the specified target
+   *
+   * @returns Whether a card was revealed (false once the hint budget is spent)
+   */
+  revealNextHint: (target: "dusk" | "dawn") => boolean;
+  /**
+   * Unlock the next step on a target's directional hint ladder
+   *
+   * @returns Whether a step was unlocked (false once the hint budget is spent)
+   */
+  revealDirectionalHint: (target: "dusk" | "dawn") => boolean;
   /** Resume showing hints for a target without revealing a new card */
   resumeHints: (target: "dusk" | "dawn") => void;
   /** Clear all active hints and restore normal mode */
@@ -133,20 +206,15 @@ export interface UseGameReturn extends GameState {
   isHintedCard: (card: Card, index: number) => boolean;
 }
 
-function createInitialPuzzle(difficulty: Difficulty): {
-  cards: Card[];
-  puzzleResult: PuzzleResult;
-} {
-  const { puzzle, result } = findGoodPuzzleForDifficulty(difficulty);
-  return { cards: puzzle, puzzleResult: result };
+/** A background puzzle request and what to do with its result */
+interface PuzzleRequest {
+  request: (signal: AbortSignal) => Promise<PuzzleAnalysis>;
+  onLoaded: (data: PuzzleAnalysis) => void;
 }
 
-function createPuzzleFromCards(cards: Card[]): {
-  cards: Card[];
-  puzzleResult: PuzzleResult;
-} {
-  const puzzleResult = generateAnswers(cards);
-  return { cards, puzzleResult };
+/** Placeholder puzzle data while the real analysis is in flight */
+function createPendingPuzzle(cards: Card[] = []): PuzzleAnalysis {
+  return { cards, puzzleResult: createInvalidResult() };
 }
 
 export interface UseGameOptions {
@@ -154,6 +222,16 @@ export interface UseGameOptions {
   difficulty?: Difficulty;
   /** Provided cards (for shared puzzles) */
   providedCards?: Card[];
+  /** Evaluation rules (defaults to the standard rules) */
+  rules?: RuleSet;
+  /** The player's settings when the difficulty is "custom" */
+  customDifficulty?: CustomDifficultyConfig;
+  /** Mode reported in game records (defaults to practice) */
+  mode?: GameMode;
+  /** Receives a GameRecord for every finished or abandoned puzzle */
+  onGameRecord?: GameRecordSink;
+  /** A/B test assignment reported in game records */
+  experiment?: { group: string; variant: string };
 }
 
 export function useGame(
@@ -167,18 +245,47 @@ export function useGame(
 
   const initialDifficulty = options.difficulty ?? "medium";
   const providedCards = options.providedCards;
+  const rules = options.rules ?? DEFAULT_RULE_SET;
+  const customDifficulty = options.customDifficulty;
+  const { mode = "practice", onGameRecord, experiment } = options;
 
   const [difficulty] = useState<Difficulty>(initialDifficulty);
   const [maxHistoryLength, setMaxHistoryLength] = useState(10);
   const [autoOrgMode, setAutoOrgMode] = useState<AutoOrgMode>("both");
   const [useCardSlots, setUseCardSlots] = useState(true);
+  const [reachableRangeEnabled, setReachableRangeEnabled] = useState(true);
+  const [maxHintLimit, setMaxHintLimit] = useState<MaxHintLimit>("half");
 
-  // Initialize puzzle - use provided cards if available
-  const [puzzleData, setPuzzleData] = useState(() =>
-    providedCards
-      ? createPuzzleFromCards(providedCards)
-      : createInitialPuzzle(initialDifficulty)
+  // Initialize puzzle - provided cards are shown immediately while analysis
+  // runs; generated puzzles arrive from the worker
+  const [puzzleData, setPuzzleData] = useState<PuzzleAnalysis>(() =>
+    createPendingPuzzle(providedCards)
   );
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+  // The latest puzzle request, kept so a failure can be retried
+  const lastRequestRef = useRef<PuzzleRequest | null>(null);
+  // The puzzle the hook was mounted with
+  const initialPuzzleRef = useRef({
+    providedCards,
+    difficulty: initialDifficulty,
+    rules,
+    customDifficulty,
+  });
+
+  // Game record capture: timings of the puzzle being played (null once it's
+  // reported) and the state to report, both in refs so unmounting and page
+  // hide can still report it
+  const activityRef = useRef<GameActivity | null>(null);
+  const recordStateRef = useRef<GameRecordState | null>(null);
+  const onGameRecordRef = useRef(onGameRecord);
+  /** An abandoned game waiting to be reported (see abandonGame) */
+  const pendingAbandonRef = useRef<{
+    activity: GameActivity;
+    timer: ReturnType<typeof setTimeout>;
+  } | null>(null);
 
   // Slot-based state (may contain nulls when auto-org is off)
   const [handSlots, setHandSlots] = useState<Slot[]>(puzzleData.cards);
@@ -195,12 +302,14 @@ export function useGame(
     dawn: [],
     activeTarget: null,
   });
+  const [directionalHints, setDirectionalHints] =
+    useState<DirectionalHintProgress>({ dusk: 0, dawn: 0 });
 
   const isComplete = foundDusk && foundDawn;
 
   const cardCount = useMemo(
-    () => DIFFICULTY_CONFIG[difficulty].cards,
-    [difficulty]
+    () => getDifficultyConfig(difficulty, customDifficulty).cards,
+    [difficulty, customDifficulty]
   );
 
   // Derived state: filtered cards for backward compatibility
@@ -218,36 +327,188 @@ export function useGame(
   const handAutoOrg = autoOrgMode === "hand" || autoOrgMode === "both";
   const tableAutoOrg = autoOrgMode === "table" || autoOrgMode === "both";
 
-  // Auto-calculate raw result (including negatives/decimals)
-  const rawResult = useMemo(() => {
+  // Evaluate the current arrangement under the active rules
+  const evaluation = useMemo(() => {
     if (arrangementCards.length === 0) return null;
-    const result = evaluate(arrangementCards);
-    return result.answer;
-  }, [arrangementCards]);
+    return evaluate(arrangementCards, rules);
+  }, [arrangementCards, rules]);
+
+  // Auto-calculate raw result (including negatives/decimals)
+  const rawResult = evaluation?.answer ?? null;
 
-  // Current result is only valid positive integers
+  // Current result is only answers the rules allow
   const currentResult = useMemo(() => {
-    if (rawResult === null) return null;
-    if (!isValidAnswer(rawResult)) return null;
-    return rawResult;
-  }, [rawResult]);
+    if (evaluation === null) return null;
+    if (!isValidResult(evaluation, rules)) return null;
+    return evaluation.answer;
+  }, [evaluation, rules]);
+
+  // Reachable range: no cards or one card placed is answered from the analysis;
+  // longer prefixes are solved in the worker
+  const reachableKey = `${getArrangementSignature(arrangementCards)}|${toCanonicalSignature(handCards)}`;
+  const needsReachableSolve =
+    reachableRangeEnabled && !isLoading && arrangementCards.length > 1;
+
+  const analyzedReachableRange = useMemo(() => {
+    if (!reachableRangeEnabled || isLoading || arrangementCards.length > 1) {
+      return null;
+    }
+    return findReachableRange(
+      arrangementCards,
+      handCards,
+      puzzleData.puzzleResult,
+      rules
+    );
+  }, [
+    reachableRangeEnabled,
+    isLoading,
+    arrangementCards,
+    handCards,
+    puzzleData.puzzleResult,
+    rules,
+  ]);
+
+  const [solvedReachableRange, setSolvedReachableRange] = useState<{
+    key: string;
+    range: ReachableRange;
+  } | null>(null);
+  const [failedReachableRange, setFailedReachableRange] = useState<{
+    key: string;
+    message: string;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!needsReachableSolve) return;
+
+    // The previous solve is cancelled as soon as the cards change
+    const controller = new AbortController();
+    const { puzzleResult } = puzzleData;
+    const targets = puzzleResult.hasValidAnswers
+      ? { dusk: puzzleResult.dusk.result, dawn: puzzleResult.dawn.result }
+      : null;
+
+    solveReachableRangeAsync(
+      arrangementCards,
+      handCards,
+      targets,
+      controller.signal,
+      rules
+    )
+      .then((range) => {
+        setSolvedReachableRange({ key: reachableKey, range });
+      })
+      .catch((error: unknown) => {
+        if (isAbortError(error)) return;
+        setFailedReachableRange({
+          key: reachableKey,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      });
+
+    return () => controller.abort();
+  }, [needsReachableSolve, reachableKey, arrangementCards, handCards, puzzleData, rules]);
 
-  // Check if all cards are placed and result is valid
+  const reachableRange = needsReachableSolve
+    ? solvedReachableRange?.key === reachableKey
+      ? solvedReachableRange.range
+      : null
+    : analyzedReachableRange;
+  const reachableRangeError =
+    needsReachableSolve && failedReachableRange?.key === reachableKey
+      ? failedReachableRange.message
+      : null;
+
+  // Check if all cards are placed, result is valid and targets are known
   const canSubmit = useMemo(() => {
-    return handCards.length === 0 && currentResult !== null;
-  }, [handCards.length, currentResult]);
+    return !isLoading && handCards.length === 0 && currentResult !== null;
+  }, [isLoading, handCards.length, currentResult]);
+
+  // Start a background request, cancelling any request still pending
+  const startRequest = useCallback(
+    (
+      request: PuzzleRequest["request"],
+      onLoaded: PuzzleRequest["onLoaded"]
+    ) => {
+      requestRef.current?.abort();
+      const controller = new AbortController();
+      requestRef.current = controller;
+      lastRequestRef.current = { request, onLoaded };
+      setLoadError(null);
+
+      request(controller.signal)
+        .then((data) => {
+          if (controller.signal.aborted) return;
+          requestRef.current = null;
+          onLoaded(data);
+          setIsLoading(false);
+          setStartedAt(Date.now());
+        })
+        .catch((error: unknown) => {
+          if (isAbortError(error)) return;
+          requestRef.current = null;
+          // Surface the failure so the screen can offer a retry
+          setLoadError(
+            error instanceof Error ? error.message : String(error)
+          );
+          setIsLoading(false);
+        });
+    },
+    []
+  );
+
+  // Load the puzzle the hook was mounted with; cancel whatever is pending on
+  // unmount
+  useEffect(() => {
+    const { providedCards, difficulty, rules, customDifficulty } =
+      initialPuzzleRef.current;
+    if (providedCards) {
+      startRequest(
+        (signal) => analyzePuzzleAsync(providedCards, signal, rules),
+        (data) => setPuzzleData(data)
+      );
+    } else {
+      startRequest(
+        (signal) =>
+          generatePuzzleAsync(difficulty, signal, { rules, customDifficulty }),
+        (data) => {
+          setPuzzleData(data);
+          setHandSlots(data.cards);
+        }
+      );
+    }
+
+    return () => requestRef.current?.abort();
+  }, [startRequest]);
+
+  const retryLoad = useCallback(() => {
+    const last = lastRequestRef.current;
+    if (!last) return;
+    setIsLoading(true);
+    startRequest(last.request, last.onLoaded);
+  }, [startRequest]);
 
   const generateNewPuzzle = useCallback(() => {
-    const newPuzzleData = createInitialPuzzle(difficulty);
-    setPuzzleData(newPuzzleData);
-    setHandSlots(newPuzzleData.cards);
+    setPuzzleData(createPendingPuzzle());
+    setHandSlots([]);
     setTableSlots([]);
     setSubmissions([]);
     setFoundDusk(false);
     setFoundDawn(false);
     setAttempts(0);
     setHints({ dusk: [], dawn: [], activeTarget: null });
-  }, [difficulty]);
+    setDirectionalHints({ dusk: 0, dawn: 0 });
+    setIsLoading(true);
+    setStartedAt(null);
+
+    startRequest(
+      (signal) =>
+        generatePuzzleAsync(difficulty, signal, { rules, customDifficulty }),
+      (data) => {
+        setPuzzleData(data);
+        setHandSlots(data.cards);
+      }
+    );
+  }, [difficulty, rules, customDifficulty, startRequest]);
 
   const addToArrangement = useCallback(
     (card: Card) => {
@@ -339,6 +600,18 @@ export function useGame(
     setTableSlots([]);
   }, [tableSlots, handAutoOrg]);
 
+  const loadArrangement = useCallback(
+    (arrangement: Card[]) => {
+      // Hinted cards would be locked in place; the loaded arrangement replaces them
+      setHints((prev) =>
+        prev.activeTarget ? { ...prev, activeTarget: null } : prev
+      );
+      setTableSlots([...arrangement]);
+      setHandSlots(handAutoOrg ? [] : puzzleData.cards.map(() => null));
+    },
+    [handAutoOrg, puzzleData.cards]
+  );
+
   // Slot-based operations
   const addToTableAtSlot = useCallback(
     (handIndex: number, tableIndex?: number) => {
@@ -442,6 +715,58 @@ export function useGame(
     return a.operator === b.operator && a.value === b.value;
   }, []);
 
+  // Directional hint ladders never place cards, so they only depend on the puzzle
+  const directionalHintLadders = useMemo(
+    () => ({
+      dusk: buildDirectionalHintLadder(
+        puzzleData.puzzleResult.dusk,
+        puzzleData.cards
+      ),
+      dawn: buildDirectionalHintLadder(
+        puzzleData.puzzleResult.dawn,
+        puzzleData.cards
+      ),
+    }),
+    [puzzleData]
+  );
+
+  const maxHints = useMemo(() => {
+    if (maxHintLimit === "all") {
+      return Math.max(cardCount - 2, 1); // Nearly all (n-2), min 1
+    }
+    return Math.floor(cardCount / 2); // Half the cards
+  }, [cardCount, maxHintLimit]);
+
+  // Revealed cards and directional steps draw on the same budget
+  const hintsRemaining = useMemo(
+    () => ({
+      dusk: Math.max(0, maxHints - hints.dusk.length - directionalHints.dusk),
+      dawn: Math.max(0, maxHints - hints.dawn.length - directionalHints.dawn),
+    }),
+    [maxHints, hints, directionalHints]
+  );
+
+  // Unlock the next directional hint for the specified target
+  const revealDirectionalHint = useCallback(
+    (target: "dusk" | "dawn") => {
+      const ladderLength = directionalHintLadders[target].length;
+      if (
+        isLoading ||
+        hintsRemaining[target] === 0 ||
+        directionalHints[target] >= ladderLength
+      ) {
+        return false;
+      }
+      setDirectionalHints((prev) =>
+        prev[target] >= ladderLength
+          ? prev
+          : { ...prev, [target]: prev[target] + 1 }
+      );
+      return true;
+    },
+    [isLoading, hintsRemaining, directionalHints, directionalHintLadders]
+  );
+
   // Reveal next hint card for the specified target
   const revealNextHint = useCallback(
     (target: "dusk" | "dawn") => {
@@ -449,6 +774,13 @@ export function useGame(
         target === "dusk"
           ? puzzleData.puzzleResult.dusk.arrangement
           : puzzleData.puzzleResult.dawn.arrangement;
+      if (
+        isLoading ||
+        hintsRemaining[target] === 0 ||
+        hints[target].length >= solution.length
+      ) {
+        return false;
+      }
 
       setHints((prev) => {
         const currentReveals = prev[target];
@@ -550,8 +882,16 @@ export function useGame(
           activeTarget: target,
         };
       });
+      return true;
     },
-    [puzzleData.puzzleResult, handAutoOrg, isSameCard]
+    [
+      isLoading,
+      hintsRemaining,
+      hints,
+      puzzleData.puzzleResult,
+      handAutoOrg,
+      isSameCard,
+    ]
   );
 
   // Resume showing hints for a target without revealing a new card
@@ -809,8 +1149,8 @@ export function useGame(
   );
 
   const submitAttempt = useCallback(() => {
-    if (handCards.length > 0) {
-      // Not all cards placed
+    if (isLoading || handCards.length > 0) {
+      // Targets not known yet, or not all cards placed
       return { isDusk: false, isDawn: false, isDuplicate: false, value: null };
     }
 
@@ -825,9 +1165,9 @@ export function useGame(
       return { isDusk: false, isDawn: false, isDuplicate: true, value: null };
     }
 
-    const result = evaluate(arrangementCards);
+    const result = evaluate(arrangementCards, rules);
     const answer = result.answer;
-    const isValid = isValidAnswer(answer);
+    const isValid = isValidResult(result, rules);
 
     setAttempts((prev) => prev + 1);
 
@@ -836,6 +1176,14 @@ export function useGame(
     const isDawn =
       isValid && answer === puzzleData.puzzleResult.dawn.result && !foundDawn;
 
+    if (activityRef.current) {
+      activityRef.current = recordGameSubmission(
+        activityRef.current,
+        { isDusk, isDawn },
+        Date.now()
+      );
+    }
+
     // Create submission record
     const submission: Submission = {
       id: `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
@@ -845,6 +1193,9 @@ export function useGame(
       isDusk,
       isDawn,
       isInvalid: !isValid,
+      invalidReason: isValid
+        ? null
+        : explainInvalidResult(arrangementCards, rules),
       timestamp: Date.now(),
     };
 
@@ -869,6 +1220,8 @@ export function useGame(
       value: isValid ? answer : null,
     };
   }, [
+    isLoading,
+    rules,
     arrangementCards,
     handCards.length,
     puzzleData.puzzleResult,
@@ -886,8 +1239,126 @@ export function useGame(
     setFoundDawn(false);
     setAttempts(0);
     setHints({ dusk: [], dawn: [], activeTarget: null });
+    setDirectionalHints({ dusk: 0, dawn: 0 });
+    setStartedAt((prev) => (prev === null ? null : Date.now()));
   }, [puzzleData.cards]);
 
+  // Keep what a game record reports up to date (declared before the effects
+  // that report, so they see this render's state)
+  useEffect(() => {
+    onGameRecordRef.current = onGameRecord;
+    recordStateRef.current = {
+      puzzleSignature: toCanonicalSignature(puzzleData.cards),
+      difficulty,
+      mode,
+      attempts,
+      hintsUsed:
+        hints.dusk.length +
+        hints.dawn.length +
+        directionalHints.dusk +
+        directionalHints.dawn,
+      foundDusk,
+      foundDawn,
+      zeroGuarantee: getDifficultyConfig(difficulty, customDifficulty)
+        .zeroGuarantee,
+      experiment,
+    };
+  });
+
+  // Report the current game once, as finished or abandoned
+  const reportGame = useCallback(() => {
+    const activity = activityRef.current;
+    const state = recordStateRef.current;
+    activityRef.current = null;
+    if (!activity || !state) return;
+    onGameRecordRef.current?.(createGameRecord(activity, state));
+  }, []);
+
+  // Report the current game as abandoned on the next tick, so StrictMode's
+  // development re-run of the effect below can take it back first
+  const abandonGame = useCallback(() => {
+    const activity = activityRef.current;
+    const state = recordStateRef.current;
+    activityRef.current = null;
+    if (!activity || !state) return;
+    const now = Date.now();
+    const timer = setTimeout(() => {
+      if (pendingAbandonRef.current?.timer === timer) {
+        pendingAbandonRef.current = null;
+      }
+      onGameRecordRef.current?.(createGameRecord(activity, state, now));
+    }, 0);
+    pendingAbandonRef.current = { activity, timer };
+  }, []);
+
+  // Follow each puzzle from the moment it's playable; a new deal, restart or
+  // unmount abandons it (a no-op if it was already reported as finished)
+  useEffect(() => {
+    if (startedAt === null) return;
+    const pending = pendingAbandonRef.current;
+    if (pending?.activity.startedAt === startedAt) {
+      // Re-run for the same puzzle: it wasn't abandoned after all
+      clearTimeout(pending.timer);
+      pendingAbandonRef.current = null;
+      activityRef.current = pending.activity;
+      return abandonGame;
+    }
+    const activity = startGameActivity(startedAt);
+    activityRef.current = document.hidden
+      ? pauseGameActivity(activity, startedAt)
+      : activity;
+    return abandonGame;
+  }, [startedAt, abandonGame]);
+
+  useEffect(() => {
+    if (isComplete) reportGame();
+  }, [isComplete, reportGame]);
+
+  // Any change to the table, hand, submissions or hints is a move
+  useEffect(() => {
+    if (activityRef.current) {
+      activityRef.current = markGameActivity(activityRef.current, Date.now());
+    }
+  }, [tableSlots, handSlots, submissions, hints, directionalHints]);
+
+  // Hidden tabs aren't active time; closing the page abandons the game, but
+  // a page restored from the back/forward cache picks it up again (its next
+  // record keeps the id, so it replaces the abandoned one)
+  useEffect(() => {
+    let hiddenActivity: GameActivity | null = null;
+
+    const handleVisibilityChange = () => {
+      const activity = activityRef.current;
+      if (!activity) return;
+      activityRef.current = document.hidden
+        ? pauseGameActivity(activity, Date.now())
+        : resumeGameActivity(activity, Date.now());
+    };
+
+    const handlePageHide = () => {
+      const activity = activityRef.current;
+      hiddenActivity = activity && pauseGameActivity(activity, Date.now());
+      reportGame();
+    };
+
+    const handlePageShow = (event: PageTransitionEvent) => {
+      if (!event.persisted || !hiddenActivity) return;
+      activityRef.current = document.hidden
+        ? hiddenActivity
+        : resumeGameActivity(hiddenActivity, Date.now());
+      hiddenActivity = null;
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("pagehide", handlePageHide);
+    window.addEventListener("pageshow", handlePageShow);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("pagehide", handlePageHide);
+      window.removeEventListener("pageshow", handlePageShow);
+    };
+  }, [reportGame]);
+
   return {
     handCards,
     arrangementCards,
@@ -901,15 +1372,26 @@ export function useGame(
     attempts,
     currentResult,
     rawResult,
+    reachableRange,
+    reachableRangeError,
     isComplete,
     submissions,
     hints,
+    directionalHints,
+    directionalHintLadders,
+    maxHints,
+    hintsRemaining,
+    isLoading,
+    loadError,
+    startedAt,
     generateNewPuzzle,
+    retryLoad,
     addToArrangement,
     removeFromArrangement,
     reorderArrangement,
     submitAttempt,
     clearArrangement,
+    loadArrangement,
     resetGame,
     cardCount,
     canSubmit,
@@ -919,11 +1401,16 @@ export function useGame(
     setAutoOrgMode,
     useCardSlots,
     setUseCardSlots,
+    reachableRangeEnabled,
+    setReachableRangeEnabled,
+    maxHintLimit,
+    setMaxHintLimit,
     addToTableAtSlot,
     removeFromTableAtSlot,
     swapWithinTable,
     swapWithinHand,
     revealNextHint,
+    revealDirectionalHint,
     resumeHints,
     clearHints,
     clearNonHintedCards,
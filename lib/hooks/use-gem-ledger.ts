@@ -0,0 +1,124 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import type { Transaction } from "@/lib/types/game";
+import { getDailyDate } from "@/lib/game/daily";
+import {
+  creditPuzzleSubmission as creditPuzzleSubmissionTo,
+  creditStreakMilestone as creditStreakMilestoneTo,
+  getGemBalance,
+  getHintCost,
+  spendGems,
+  spendHint as spendHintFrom,
+  type GemSpendReason,
+} from "@/lib/game/gems";
+
+const GEM_LEDGER_STORAGE_KEY = "zero-rush.gemLedger";
+
+export interface UseGemLedgerReturn {
+  /** Every transaction, oldest first */
+  transactions: Transaction[];
+  /** The 💎 balance, summed from the ledger */
+  balance: number;
+  /** What the next hint costs today (0 while free hints last) */
+  hintCost: number;
+  /**
+   * Pay for something at its fixed cost
+   *
+   * @returns Whether the spend went through (false if the balance is short)
+   */
+  spend: (reason: GemSpendReason, metadata?: Record<string, unknown>) => boolean;
+  /**
+   * Pay for a hint, free while today's free hints last
+   *
+   * @returns Whether the hint was paid for
+   */
+  spendHint: (metadata?: Record<string, unknown>) => boolean;
+  /** Credit a streak milestone if the streak just reached one */
+  creditStreakMilestone: (streakDays: number, date: string) => void;
+  /** Credit an accepted puzzle submission (once per puzzle) */
+  creditPuzzleSubmission: (signature: string) => void;
+}
+
+function getStoredLedger(): Transaction[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = localStorage.getItem(GEM_LEDGER_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        return parsed;
+      }
+    }
+  } catch {
+    // Ignore malformed storage
+  }
+  return [];
+}
+
+function storeLedger(ledger: Transaction[]) {
+  try {
+    localStorage.setItem(GEM_LEDGER_STORAGE_KEY, JSON.stringify(ledger));
+  } catch {
+    // Ignore storage failures
+  }
+}
+
+/**
+ * Hook for the player's append-only gem ledger with localStorage persistence
+ *
+ * Like useUserProfile, changes apply to the stored ledger so that screens
+ * holding it at the same time can't drop each other's transactions.
+ */
+export function useGemLedger(): UseGemLedgerReturn {
+  const [transactions, setTransactions] =
+    useState<Transaction[]>(getStoredLedger);
+
+  const updateLedger = useCallback(
+    (update: (ledger: Transaction[]) => Transaction[] | null) => {
+      const current = getStoredLedger();
+      const next = update(current);
+      if (!next) return false;
+      if (next !== current) storeLedger(next);
+      setTransactions(next);
+      return true;
+    },
+    []
+  );
+
+  const spend = useCallback(
+    (reason: GemSpendReason, metadata?: Record<string, unknown>) =>
+      updateLedger((ledger) => spendGems(ledger, reason, { metadata })),
+    [updateLedger]
+  );
+
+  const spendHint = useCallback(
+    (metadata?: Record<string, unknown>) =>
+      updateLedger((ledger) => spendHintFrom(ledger, getDailyDate(), { metadata })),
+    [updateLedger]
+  );
+
+  const creditStreakMilestone = useCallback(
+    (streakDays: number, date: string) => {
+      updateLedger((ledger) => creditStreakMilestoneTo(ledger, streakDays, date));
+    },
+    [updateLedger]
+  );
+
+  const creditPuzzleSubmission = useCallback(
+    (signature: string) => {
+      updateLedger((ledger) => creditPuzzleSubmissionTo(ledger, signature));
+    },
+    [updateLedger]
+  );
+
+  return {
+    transactions,
+    balance: getGemBalance(transactions),
+    hintCost: getHintCost(transactions, getDailyDate()),
+    spend,
+    spendHint,
+    creditStreakMilestone,
+    creditPuzzleSubmission,
+  };
+}
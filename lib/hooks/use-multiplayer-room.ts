@@ -0,0 +1,275 @@
+"use client";
+
+import { useState, useCallback, useEffect, useRef } from "react";
+import type { Card, RoomConfig } from "@/lib/types/game";
+import type { RoomSummary, RoomView } from "@/lib/game/room";
+import {
+  DEFAULT_ROOM_SERVER_PORT,
+  parseRoomServerMessage,
+  type RoomClientMessage,
+} from "@/lib/game/room-protocol";
+
+/** Where the room server listens */
+export const ROOM_SERVER_URL =
+  process.env.NEXT_PUBLIC_ROOM_SERVER_URL ??
+  `ws://localhost:${DEFAULT_ROOM_SERVER_PORT}`;
+
+/** The room seat this tab holds, kept per tab so each tab is its own player */
+const ROOM_SEAT_STORAGE_KEY = "zero-rush.roomSeat";
+
+/** Wait before reconnecting after the connection drops */
+const RECONNECT_DELAY_MS = 2000;
+
+/** How often the phase countdown refreshes */
+const TICK_MS = 250;
+
+export type RoomConnectionStatus = "connecting" | "open" | "closed";
+
+interface RoomSeat {
+  code: string;
+  /** Reconnect token the server sent for this seat */
+  token: string;
+  name: string;
+}
+
+export interface UseMultiplayerRoomReturn {
+  /** Connection to the room server */
+  status: RoomConnectionStatus;
+  /** The room this player is in, as the server last sent it */
+  room: RoomView | null;
+  /** This player's ID in the room */
+  playerId: string | null;
+  /** Public rooms open to join (see listRooms) */
+  publicRooms: RoomSummary[];
+  /** The server's last complaint, until cleared */
+  error: string | null;
+  /** Time left in the current phase on the server's clock, or null */
+  timeLeftMs: number | null;
+  /** Ask for the public rooms */
+  listRooms: () => void;
+  createRoom: (name: string, config: RoomConfig) => void;
+  joinRoom: (code: string, name: string) => void;
+  /** Change the room settings (host, while waiting) */
+  configure: (config: Partial<RoomConfig>) => void;
+  /** Start the game (host, while waiting) */
+  start: () => void;
+  /** Lock in this round's answers (once per round) */
+  submit: (duskArrangement?: Card[], dawnArrangement?: Card[]) => void;
+  /** Back to the waiting room after the last round (host) */
+  rematch: () => void;
+  leave: () => void;
+  clearError: () => void;
+}
+
+function getStoredSeat(): RoomSeat | null {
+  try {
+    const stored = sessionStorage.getItem(ROOM_SEAT_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as RoomSeat) : null;
+  } catch {
+    // Ignore malformed storage
+    return null;
+  }
+}
+
+function storeSeat(seat: RoomSeat | null) {
+  try {
+    if (seat) {
+      sessionStorage.setItem(ROOM_SEAT_STORAGE_KEY, JSON.stringify(seat));
+    } else {
+      sessionStorage.removeItem(ROOM_SEAT_STORAGE_KEY);
+    }
+  } catch {
+    // Ignore storage failures
+  }
+}
+
+/**
+ * Hook for a connection to the multiplayer room server
+ *
+ * The server owns every room: this hook only sends what the player asks
+ * for and keeps the latest RoomView it was sent. If the connection drops,
+ * it reconnects and rejoins the same seat, so a reload mid-game keeps the
+ * player's points.
+ *
+ * @param url - Room server to connect to
+ */
+export function useMultiplayerRoom(
+  url: string = ROOM_SERVER_URL
+): UseMultiplayerRoomReturn {
+  const [status, setStatus] = useState<RoomConnectionStatus>("connecting");
+  const [room, setRoom] = useState<RoomView | null>(null);
+  const [playerId, setPlayerId] = useState<string | null>(null);
+  const [publicRooms, setPublicRooms] = useState<RoomSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // Server clock minus ours, and our clock at the last countdown tick
+  const [clockOffset, setClockOffset] = useState(0);
+  const [clockNow, setClockNow] = useState(() => Date.now());
+  const socketRef = useRef<WebSocket | null>(null);
+  // Name to join with, until the server confirms the seat
+  const pendingNameRef = useRef<string | null>(null);
+
+  const send = useCallback((message: RoomClientMessage) => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      setError("Not connected to the room server");
+      return;
+    }
+    socket.send(JSON.stringify(message));
+  }, []);
+
+  // Connect, and reconnect whenever the connection drops
+  useEffect(() => {
+    let disposed = false;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let rejoining = false;
+
+    const connect = () => {
+      const socket = new WebSocket(url);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        setStatus("open");
+        const seat = getStoredSeat();
+        if (seat) {
+          rejoining = true;
+          pendingNameRef.current = seat.name;
+          const join: RoomClientMessage = {
+            type: "join",
+            code: seat.code,
+            name: seat.name,
+            token: seat.token,
+          };
+          socket.send(JSON.stringify(join));
+        } else {
+          socket.send(JSON.stringify({ type: "list" }));
+        }
+      };
+
+      socket.onmessage = (event) => {
+        const message = parseRoomServerMessage(String(event.data));
+        if (!message) return;
+        switch (message.type) {
+          case "rooms":
+            setPublicRooms(message.rooms);
+            break;
+          case "room": {
+            rejoining = false;
+            const name =
+              pendingNameRef.current ??
+              message.room.players.find((p) => p.id === message.playerId)
+                ?.name ??
+              "";
+            storeSeat({ code: message.room.code, token: message.token, name });
+            setRoom(message.room);
+            setPlayerId(message.playerId);
+            setClockOffset(message.now - Date.now());
+            setClockNow(Date.now());
+            break;
+          }
+          case "left":
+            storeSeat(null);
+            pendingNameRef.current = null;
+            setRoom(null);
+            setPlayerId(null);
+            socket.send(JSON.stringify({ type: "list" }));
+            break;
+          case "error":
+            if (rejoining) {
+              // The room closed while we were away
+              rejoining = false;
+              storeSeat(null);
+              pendingNameRef.current = null;
+              socket.send(JSON.stringify({ type: "list" }));
+            }
+            setError(message.message);
+            break;
+        }
+      };
+
+      socket.onclose = () => {
+        if (socketRef.current === socket) socketRef.current = null;
+        if (disposed) return;
+        setStatus("closed");
+        reconnectTimer = setTimeout(() => {
+          setStatus("connecting");
+          connect();
+        }, RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [url]);
+
+  // Tick while a phase is counting down
+  const phaseEndsAt = room?.phaseEndsAt ?? null;
+  useEffect(() => {
+    if (phaseEndsAt === null) return;
+    const interval = setInterval(() => setClockNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [phaseEndsAt]);
+
+  const listRooms = useCallback(() => send({ type: "list" }), [send]);
+
+  const createRoom = useCallback(
+    (name: string, config: RoomConfig) => {
+      pendingNameRef.current = name;
+      send({ type: "create", name, config });
+    },
+    [send]
+  );
+
+  const joinRoom = useCallback(
+    (code: string, name: string) => {
+      pendingNameRef.current = name;
+      send({ type: "join", code, name });
+    },
+    [send]
+  );
+
+  const configure = useCallback(
+    (config: Partial<RoomConfig>) => send({ type: "configure", config }),
+    [send]
+  );
+
+  const start = useCallback(() => send({ type: "start" }), [send]);
+
+  const submit = useCallback(
+    (duskArrangement?: Card[], dawnArrangement?: Card[]) =>
+      send({ type: "submit", duskArrangement, dawnArrangement }),
+    [send]
+  );
+
+  const rematch = useCallback(() => send({ type: "rematch" }), [send]);
+
+  const leave = useCallback(() => send({ type: "leave" }), [send]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return {
+    status,
+    room,
+    playerId,
+    publicRooms,
+    error,
+    timeLeftMs:
+      phaseEndsAt === null
+        ? null
+        : Math.max(0, phaseEndsAt - (clockNow + clockOffset)),
+    listRooms,
+    createRoom,
+    joinRoom,
+    configure,
+    start,
+    submit,
+    rematch,
+    leave,
+    clearError,
+  };
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+
+const PACK_PROGRESS_STORAGE_KEY = "zero-rush.packProgress";
+
+/** Completed puzzle indexes, keyed by pack ID (see getPuzzlePackId) */
+type PackProgress = Record<string, number[]>;
+
+export interface UsePackProgressReturn {
+  /** Indexes of the pack's completed puzzles, in order */
+  completed: number[];
+  /** Mark a puzzle of the pack as completed */
+  markCompleted: (index: number) => void;
+}
+
+function getInitialProgress(): PackProgress {
+  if (typeof window === "undefined") return {};
+  try {
+    const stored = localStorage.getItem(PACK_PROGRESS_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        return parsed;
+      }
+    }
+  } catch {
+    // Ignore malformed storage
+  }
+  return {};
+}
+
+/**
+ * Hook for tracking which puzzles of a pack are completed, with
+ * localStorage persistence (progress survives re-importing the pack)
+ */
+export function usePackProgress(packId: string): UsePackProgressReturn {
+  const [progress, setProgress] = useState<PackProgress>(getInitialProgress);
+
+  // Persist progress to localStorage
+  useEffect(() => {
+    try {
+      localStorage.setItem(PACK_PROGRESS_STORAGE_KEY, JSON.stringify(progress));
+    } catch {
+      // Ignore storage failures
+    }
+  }, [progress]);
+
+  const completed = progress[packId] ?? [];
+
+  const markCompleted = useCallback(
+    (index: number) => {
+      setProgress((prev) => {
+        const done = prev[packId] ?? [];
+        if (done.includes(index)) return prev;
+        return { ...prev, [packId]: [...done, index].sort((a, b) => a - b) };
+      });
+    },
+    [packId]
+  );
+
+  return {
+    completed,
+    markCompleted,
+  };
+}
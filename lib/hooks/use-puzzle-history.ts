@@ -3,11 +3,16 @@
 import { useState, useCallback, useEffect } from "react";
 import type {
   Card,
+  CustomDifficultyConfig,
   Difficulty,
   PuzzleHistoryEntry,
+  PuzzleSource,
   HistorySubmission,
+  InvalidReason,
+  RuleSet,
 } from "@/lib/types/game";
 import { toCanonicalSignature } from "@/lib/game/signature";
+import { isDefaultRuleSet } from "@/lib/game/rules";
 
 const HISTORY_STORAGE_KEY = "zero-rush.puzzleHistory";
 const MAX_HISTORY_SIZE = 100;
@@ -50,6 +55,18 @@ function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
 }
 
+/**
+ * Check whether two submissions played the cards in the same order
+ */
+function isSameArrangement(a: Card[], b: Card[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every(
+      (card, i) => card.operator === b[i].operator && card.value === b[i].value
+    )
+  );
+}
+
 function getInitialEntries(): PuzzleHistoryEntry[] {
   if (typeof window === "undefined") return [];
   try {
@@ -110,11 +127,13 @@ export function usePuzzleHistory(): UsePuzzleHistoryReturn {
               ...existing.submissions,
               ...entry.submissions.filter(
                 (s) =>
-                  !existing.submissions.some(
-                    (es) =>
-                      es.result === s.result &&
-                      es.isDusk === s.isDusk &&
-                      es.isDawn === s.isDawn
+                  !existing.submissions.some((es) =>
+                    s.invalidReason
+                      ? es.invalidReason !== undefined &&
+                        isSameArrangement(es.arrangement, s.arrangement)
+                      : es.result === s.result &&
+                        es.isDusk === s.isDusk &&
+                        es.isDawn === s.isDawn
                   )
               ),
             ],
@@ -214,9 +233,18 @@ export function createHistoryEntry(data: {
   foundDawn: boolean;
   duskSubmission?: { arrangement: Card[]; result: number };
   dawnSubmission?: { arrangement: Card[]; result: number };
-  source: "generated" | "shared";
+  invalidSubmissions?: {
+    arrangement: Card[];
+    result: number;
+    invalidReason: InvalidReason;
+  }[];
+  source: PuzzleSource;
   sharedFromUrl?: string;
   hintsUsed?: { dusk: number; dawn: number; total: number };
+  rules?: RuleSet;
+  rating?: number;
+  customDifficulty?: CustomDifficultyConfig;
+  durationMs?: number;
 }): Omit<PuzzleHistoryEntry, "id"> {
   const submissions: HistorySubmission[] = [];
 
@@ -248,6 +276,16 @@ export function createHistoryEntry(data: {
     }
   }
 
+  for (const invalid of data.invalidSubmissions ?? []) {
+    submissions.push({
+      arrangement: invalid.arrangement,
+      result: invalid.result,
+      isDusk: false,
+      isDawn: false,
+      invalidReason: invalid.invalidReason,
+    });
+  }
+
   return {
     cards: data.cards,
     signature: toCanonicalSignature(data.cards),
@@ -263,5 +301,10 @@ export function createHistoryEntry(data: {
     source: data.source,
     sharedFromUrl: data.sharedFromUrl,
     hintsUsed: data.hintsUsed,
+    rules: data.rules && !isDefaultRuleSet(data.rules) ? data.rules : undefined,
+    rating: data.rating,
+    customDifficulty:
+      data.difficulty === "custom" ? data.customDifficulty : undefined,
+    durationMs: data.durationMs,
   };
 }
@@ -0,0 +1,105 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import type { UserProfile } from "@/lib/types/game";
+import {
+  createUserProfile,
+  unlockChallenger as unlockChallengerFor,
+} from "@/lib/game/profile";
+import {
+  recordDailyStreak as recordDailyStreakFor,
+  saveStreak as saveStreakFor,
+} from "@/lib/game/streak";
+
+const USER_PROFILE_STORAGE_KEY = "zero-rush.userProfile";
+
+export interface UseUserProfileReturn {
+  /** The player's profile */
+  profile: UserProfile;
+  /** Apply a change to the profile, returning the updated profile */
+  updateProfile: (update: (profile: UserProfile) => UserProfile) => UserProfile;
+  /** Unlock Challenger (no-op if already unlocked) */
+  unlockChallenger: () => void;
+  /** Count a daily completion (by its date) towards the streak */
+  recordDailyStreak: (date: string) => UserProfile;
+  /**
+   * Bridge a single missed day (no-op otherwise; the caller pays the gems)
+   *
+   * @returns Whether the streak was saved
+   */
+  saveStreak: () => boolean;
+}
+
+function getStoredProfile(): UserProfile {
+  const profile = createUserProfile();
+  if (typeof window === "undefined") return profile;
+  try {
+    const stored = localStorage.getItem(USER_PROFILE_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        // Fill in fields added since the profile was saved
+        return { ...profile, ...parsed };
+      }
+    }
+  } catch {
+    // Ignore malformed storage
+  }
+  return profile;
+}
+
+function storeProfile(profile: UserProfile) {
+  try {
+    localStorage.setItem(USER_PROFILE_STORAGE_KEY, JSON.stringify(profile));
+  } catch {
+    // Ignore storage failures
+  }
+}
+
+/**
+ * Hook for the player's profile with localStorage persistence
+ */
+export function useUserProfile(): UseUserProfileReturn {
+  const [profile, setProfile] = useState<UserProfile>(getStoredProfile);
+
+  // Several screens can hold the profile at once (e.g. the daily wrapper and
+  // its GameBoard), so updates apply to the stored copy rather than this
+  // instance's, which may be stale, and are stored straight away
+  const updateProfile = useCallback(
+    (update: (profile: UserProfile) => UserProfile) => {
+      const next = update(getStoredProfile());
+      storeProfile(next);
+      setProfile(next);
+      return next;
+    },
+    []
+  );
+
+  const unlockChallenger = useCallback(() => {
+    updateProfile((prev) => unlockChallengerFor(prev));
+  }, [updateProfile]);
+
+  const recordDailyStreak = useCallback(
+    (date: string) =>
+      updateProfile((prev) => recordDailyStreakFor(prev, date)),
+    [updateProfile]
+  );
+
+  const saveStreak = useCallback(() => {
+    let saved = false;
+    updateProfile((prev) => {
+      const next = saveStreakFor(prev);
+      saved = next !== prev;
+      return next;
+    });
+    return saved;
+  }, [updateProfile]);
+
+  return {
+    profile,
+    updateProfile,
+    unlockChallenger,
+    recordDailyStreak,
+    saveStreak,
+  };
+}
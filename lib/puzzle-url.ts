@@ -3,9 +3,19 @@
  *
  * Provides functions to encode puzzles into shareable URLs and decode them back.
  * Uses the existing signature encoding from lib/game/signature.ts
+ *
+ * New links carry a v2 share code (see lib/game/share-code.ts) that packs
+ * the cards, difficulty and rules into one checksummed segment. v1 links -
+ * the URL-encoded signature plus an optional `?rules=` query parameter (see
+ * encodeRuleSet) - are still accepted, and are still produced for hands a
+ * v2 code can't hold.
+ *
+ * Custom difficulty puzzles add a `?custom=` query parameter with the
+ * player's settings (see encodeCustomDifficulty), so "New Puzzle" deals
+ * under the same setup for whoever opens the link.
  */
 
-import type { Card, Difficulty } from './types/game';
+import type { Card, CustomDifficultyConfig, Difficulty, RuleSet } from './types/game';
 import {
   toCanonicalSignature,
   fromSignature,
@@ -15,8 +25,16 @@ import {
 } from './game/signature';
 import { isValidAnswer } from './game/evaluate';
 import { generateAnswers } from './game/generate';
+import { DEFAULT_RULE_SET, DIFFICULTIES } from './game/constants';
+import { decodeRuleSet, encodeRuleSet } from './game/rules';
+import { decodeShareCode, encodeShareCode, isShareCode } from './game/share-code';
+import { decodeCustomDifficulty, encodeCustomDifficulty } from './game/custom-difficulty';
+
+/** Query parameter carrying a non-standard rule set */
+export const RULES_QUERY_PARAM = 'rules';
 
-const VALID_DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard', 'challenger'];
+/** Query parameter carrying custom difficulty settings */
+export const CUSTOM_QUERY_PARAM = 'custom';
 
 export interface DecodedPuzzle {
   cards: Card[];
@@ -24,6 +42,9 @@ export interface DecodedPuzzle {
   signature: string;
   duskValue: number;
   dawnValue: number;
+  rules: RuleSet;
+  /** Settings of a custom difficulty puzzle */
+  customDifficulty?: CustomDifficultyConfig;
 }
 
 /**
@@ -31,49 +52,77 @@ export interface DecodedPuzzle {
  *
  * @param cards - The puzzle cards
  * @param difficulty - The difficulty level
- * @returns URL path like "/play/medium/a3_s5_m2_d4"
+ * @param rules - Rule set
+ * @param customDifficulty - The player's settings (custom difficulty only)
+ * @returns URL path like "/play/medium/v2AQADJUJkAyY", or a v1 path like
+ *   "/play/medium/a3_s5_m2_d4?rules=pn" if a card value is too large for v2
  */
-export function encodePuzzleToUrl(cards: Card[], difficulty: Difficulty): string {
-  const signature = toCanonicalSignature(cards);
-  const encoded = encodeSignatureForUrl(signature);
-  return `/play/${difficulty}/${encoded}`;
+export function encodePuzzleToUrl(
+  cards: Card[],
+  difficulty: Difficulty,
+  rules: RuleSet = DEFAULT_RULE_SET,
+  customDifficulty?: CustomDifficultyConfig
+): string {
+  const params: string[] = [];
+  const shareCode = encodeShareCode(cards, difficulty, rules);
+  const segment = shareCode ?? encodeSignatureForUrl(toCanonicalSignature(cards));
+
+  const rulesCode = shareCode ? '' : encodeRuleSet(rules);
+  if (rulesCode) {
+    params.push(`${RULES_QUERY_PARAM}=${rulesCode}`);
+  }
+  if (difficulty === 'custom' && customDifficulty) {
+    params.push(`${CUSTOM_QUERY_PARAM}=${encodeCustomDifficulty(customDifficulty)}`);
+  }
+
+  const query = params.length > 0 ? `?${params.join('&')}` : '';
+  return `/play/${difficulty}/${segment}${query}`;
 }
 
 /**
  * Decode a puzzle from URL parameters
  *
  * @param difficulty - The difficulty from URL
- * @param encoded - The encoded puzzle string from URL
+ * @param encoded - The v2 share code or v1 encoded signature from URL
+ * @param rulesCode - The `rules` query parameter, if present (v1 only;
+ *   v2 codes carry their own rules)
+ * @param customCode - The `custom` query parameter (required for the
+ *   custom difficulty, ignored otherwise)
  * @returns Decoded puzzle data or null if invalid
  */
 export function decodePuzzleFromUrl(
   difficulty: string,
-  encoded: string
+  encoded: string,
+  rulesCode: string = '',
+  customCode: string = ''
 ): DecodedPuzzle | null {
   // Validate difficulty
-  if (!VALID_DIFFICULTIES.includes(difficulty as Difficulty)) {
+  if (!DIFFICULTIES.includes(difficulty as Difficulty)) {
     return null;
   }
 
-  try {
-    // Decode the signature
-    const signature = decodeSignatureFromUrl(encoded);
-
-    // Parse cards from signature
-    const cards = fromSignature(signature);
+  // Custom puzzles must say how they were dealt
+  const customDifficulty =
+    difficulty === 'custom' ? decodeCustomDifficulty(customCode) : undefined;
+  if (customDifficulty === null) {
+    return null;
+  }
 
-    // Validate we have cards
-    if (cards.length === 0) {
+  try {
+    const decoded = isShareCode(encoded)
+      ? decodeShareCodeSegment(difficulty, encoded)
+      : decodeSignatureSegment(encoded, rulesCode);
+    if (!decoded) {
       return null;
     }
 
-    // Validate the signature is canonical
-    if (!isValidSignature(signature)) {
+    const { cards, signature, rules } = decoded;
+    if (customDifficulty && cards.length !== customDifficulty.cards) {
       return null;
     }
 
     // Solve the puzzle to get dusk/dawn values
-    const puzzleResult = generateAnswers(cards);
+    const puzzleResult = generateAnswers(cards, rules);
 
     // Validate the puzzle has valid answers
     if (!puzzleResult.hasValidAnswers) {
@@ -81,7 +130,10 @@ export function decodePuzzleFromUrl(
     }
 
     // Validate dusk and dawn are valid answers
-    if (!isValidAnswer(puzzleResult.dusk.result) || !isValidAnswer(puzzleResult.dawn.result)) {
+    if (
+      !isValidAnswer(puzzleResult.dusk.result, rules) ||
+      !isValidAnswer(puzzleResult.dawn.result, rules)
+    ) {
       return null;
     }
 
@@ -91,21 +143,82 @@ export function decodePuzzleFromUrl(
       signature,
       duskValue: puzzleResult.dusk.result,
       dawnValue: puzzleResult.dawn.result,
+      rules,
+      customDifficulty,
     };
   } catch {
     return null;
   }
 }
 
+/**
+ * Read cards and rules from a v2 share code, which must agree with the
+ * difficulty in the path
+ */
+function decodeShareCodeSegment(
+  difficulty: string,
+  encoded: string
+): { cards: Card[]; signature: string; rules: RuleSet } | null {
+  const shared = decodeShareCode(encoded);
+  if (!shared || shared.difficulty !== difficulty) {
+    return null;
+  }
+
+  return {
+    cards: shared.cards,
+    signature: toCanonicalSignature(shared.cards),
+    rules: shared.rules,
+  };
+}
+
+/**
+ * Read cards from a v1 encoded signature and rules from the query parameter
+ */
+function decodeSignatureSegment(
+  encoded: string,
+  rulesCode: string
+): { cards: Card[]; signature: string; rules: RuleSet } | null {
+  // Validate rules
+  const rules = decodeRuleSet(rulesCode);
+  if (!rules) {
+    return null;
+  }
+
+  // Decode the signature
+  const signature = decodeSignatureFromUrl(encoded);
+
+  // Parse cards from signature
+  const cards = fromSignature(signature);
+
+  // Validate we have cards
+  if (cards.length === 0) {
+    return null;
+  }
+
+  // Validate the signature is canonical
+  if (!isValidSignature(signature)) {
+    return null;
+  }
+
+  return { cards, signature, rules };
+}
+
 /**
  * Get a full shareable URL for a puzzle
  *
  * @param cards - The puzzle cards
  * @param difficulty - The difficulty level
- * @returns Full URL with origin (e.g., "https://zerorush.app/play/medium/a3_s5_m2_d4")
+ * @param rules - Rule set
+ * @param customDifficulty - The player's settings (custom difficulty only)
+ * @returns Full URL with origin (e.g., "https://zerorush.app/play/medium/v2AQADJUJkAyY")
  */
-export function getShareUrl(cards: Card[], difficulty: Difficulty): string {
-  const path = encodePuzzleToUrl(cards, difficulty);
+export function getShareUrl(
+  cards: Card[],
+  difficulty: Difficulty,
+  rules: RuleSet = DEFAULT_RULE_SET,
+  customDifficulty?: CustomDifficultyConfig
+): string {
+  const path = encodePuzzleToUrl(cards, difficulty, rules, customDifficulty);
 
   // In browser, use window.location.origin
   if (typeof window !== 'undefined') {
@@ -119,13 +232,21 @@ export function getShareUrl(cards: Card[], difficulty: Difficulty): string {
 /**
  * Check if a URL path is a valid puzzle URL
  *
- * @param path - URL path to check
+ * @param path - URL path to check (may include `?rules=` and `?custom=` queries)
  * @returns true if path matches /play/[difficulty]/[puzzle] format
  */
 export function isPuzzleUrl(path: string): boolean {
-  const match = path.match(/^\/play\/([^/]+)\/([^/]+)$/);
+  const match = path.match(/^\/play\/([^/?]+)\/([^/?]+)(?:\?(.*))?$/);
   if (!match) return false;
 
-  const [, difficulty, encoded] = match;
-  return decodePuzzleFromUrl(difficulty, encoded) !== null;
+  const [, difficulty, encoded, query = ''] = match;
+  const params = new URLSearchParams(query);
+  return (
+    decodePuzzleFromUrl(
+      difficulty,
+      encoded,
+      params.get(RULES_QUERY_PARAM) ?? undefined,
+      params.get(CUSTOM_QUERY_PARAM) ?? undefined
+    ) !== null
+  );
 }
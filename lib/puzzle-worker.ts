@@ -0,0 +1,334 @@
+/**
+ * Async puzzle generation and analysis
+ *
+ * Runs findGoodPuzzleForDifficulty / generateAnswers / solveReachableRange /
+ * importPuzzlePack inside a Web Worker so dealing Hard and Challenger hands
+ * (or re-solving after every card placed, or every puzzle in an imported
+ * pack) never blocks the UI thread.
+ *
+ * Requests can be cancelled with an AbortSignal. Because the worker is busy
+ * with synchronous work, cancelling terminates it outright; any other pending
+ * requests are replayed on a fresh worker.
+ *
+ * Falls back to running on the main thread (after yielding a tick) when
+ * Web Workers are unavailable, e.g. during SSR.
+ */
+
+import type {
+  Card,
+  CardRanges,
+  CustomDifficultyConfig,
+  Difficulty,
+  PuzzleResult,
+  RuleSet,
+} from "./types/game";
+import { findGoodPuzzleForDifficulty, generateAnswers } from "./game/generate";
+import type { Seed } from "./game/random";
+import type { PuzzleConstraints } from "./game/constraints";
+import { importPuzzlePack, type PuzzlePackImport } from "./game/pack";
+import {
+  solveReachableRange,
+  type ReachableRange,
+  type TargetValues,
+} from "./game/reachable";
+
+// =============================================================================
+// Message Protocol
+// =============================================================================
+
+/** A puzzle's cards together with its full analysis */
+export interface PuzzleAnalysis {
+  cards: Card[];
+  puzzleResult: PuzzleResult;
+}
+
+/** Work the puzzle worker knows how to do */
+export type PuzzleWorkerTask =
+  | {
+      type: "generate";
+      difficulty: Difficulty;
+      seed?: Seed;
+      rules?: RuleSet;
+      ranges?: CardRanges;
+      constraints?: PuzzleConstraints;
+      customDifficulty?: CustomDifficultyConfig;
+    }
+  | { type: "analyze"; cards: Card[]; rules?: RuleSet }
+  | {
+      type: "reach";
+      prefix: Card[];
+      remaining: Card[];
+      targets: TargetValues | null;
+      rules?: RuleSet;
+    }
+  | { type: "pack"; text: string };
+
+/** What each task type resolves to */
+export interface PuzzleTaskResults {
+  generate: PuzzleAnalysis;
+  analyze: PuzzleAnalysis;
+  reach: ReachableRange;
+  pack: PuzzlePackImport;
+}
+
+/** Result of a given task */
+export type PuzzleTaskResult<T extends PuzzleWorkerTask> = PuzzleTaskResults[T["type"]];
+
+/** Message sent to the worker */
+export interface PuzzleWorkerRequest {
+  id: number;
+  task: PuzzleWorkerTask;
+}
+
+/** Message sent back from the worker */
+export type PuzzleWorkerResponse =
+  | { id: number; ok: true; result: PuzzleTaskResults[keyof PuzzleTaskResults] }
+  | { id: number; ok: false; error: string };
+
+/**
+ * Run a task synchronously (used by the worker and the main-thread fallback)
+ */
+export function runPuzzleTask<T extends PuzzleWorkerTask>(task: T): PuzzleTaskResult<T>;
+export function runPuzzleTask(
+  task: PuzzleWorkerTask
+): PuzzleTaskResults[keyof PuzzleTaskResults] {
+  switch (task.type) {
+    case "generate": {
+      const { puzzle, result } = findGoodPuzzleForDifficulty(task.difficulty, {
+        seed: task.seed,
+        rules: task.rules,
+        ranges: task.ranges,
+        constraints: task.constraints,
+        customDifficulty: task.customDifficulty,
+      });
+      return { cards: puzzle, puzzleResult: result };
+    }
+    case "analyze":
+      return {
+        cards: task.cards,
+        puzzleResult: generateAnswers(task.cards, task.rules),
+      };
+    case "reach":
+      return solveReachableRange(task.prefix, task.remaining, task.targets, task.rules);
+    case "pack":
+      return importPuzzlePack(task.text);
+  }
+}
+
+// =============================================================================
+// Worker Client
+// =============================================================================
+
+interface PendingRequest {
+  request: PuzzleWorkerRequest;
+  resolve: (result: PuzzleTaskResults[keyof PuzzleTaskResults]) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, PendingRequest>();
+
+/**
+ * Create an error that identifies a cancelled request
+ */
+function createAbortError(): Error {
+  const error = new Error("Puzzle request was cancelled");
+  error.name = "AbortError";
+  return error;
+}
+
+/**
+ * Check whether an error came from a cancelled request
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
+
+function handleMessage(event: MessageEvent<PuzzleWorkerResponse>) {
+  const response = event.data;
+  const entry = pending.get(response.id);
+  if (!entry) return; // Cancelled while in flight
+
+  pending.delete(response.id);
+  if (response.ok) {
+    entry.resolve(response.result);
+  } else {
+    entry.reject(new Error(response.error));
+  }
+}
+
+function handleError(event: ErrorEvent) {
+  // The worker crashed - fail everything in flight and start fresh next time
+  const error = new Error(event.message || "Puzzle worker failed");
+  for (const entry of pending.values()) {
+    entry.reject(error);
+  }
+  pending.clear();
+  worker?.terminate();
+  worker = null;
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL("./workers/puzzle.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    worker.addEventListener("message", handleMessage);
+    worker.addEventListener("error", handleError);
+  }
+  return worker;
+}
+
+/**
+ * Cancel a pending request by restarting the worker and replaying the rest
+ */
+function cancelRequest(id: number) {
+  const entry = pending.get(id);
+  if (!entry) return;
+
+  pending.delete(id);
+  entry.reject(createAbortError());
+
+  worker?.terminate();
+  worker = null;
+
+  if (pending.size > 0) {
+    const replacement = getWorker();
+    for (const { request } of pending.values()) {
+      replacement.postMessage(request);
+    }
+  }
+}
+
+/**
+ * Run a task on the main thread after yielding, honouring cancellation
+ */
+function runOnMainThread<T extends PuzzleWorkerTask>(
+  task: T,
+  signal?: AbortSignal
+): Promise<PuzzleTaskResult<T>> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      try {
+        resolve(runPuzzleTask(task));
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    }, 0);
+
+    function onAbort() {
+      clearTimeout(timer);
+      reject(createAbortError());
+    }
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run a puzzle task off the main thread
+ *
+ * @param task - What to generate, analyze or solve
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns The task's result (see PuzzleTaskResults)
+ */
+export function runPuzzleTaskAsync<T extends PuzzleWorkerTask>(
+  task: T,
+  signal?: AbortSignal
+): Promise<PuzzleTaskResult<T>> {
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  if (typeof Worker === "undefined") {
+    return runOnMainThread(task, signal);
+  }
+
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    const request: PuzzleWorkerRequest = { id, task };
+
+    const onAbort = () => cancelRequest(id);
+
+    pending.set(id, {
+      request,
+      resolve: (result) => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(result as PuzzleTaskResult<T>);
+      },
+      reject: (error) => {
+        signal?.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    });
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+    getWorker().postMessage(request);
+  });
+}
+
+/**
+ * Generate a quality puzzle for a difficulty level off the main thread
+ *
+ * @example
+ * const controller = new AbortController();
+ * const { cards, puzzleResult } = await generatePuzzleAsync("hard", controller.signal);
+ *
+ * @example
+ * // Same seed, same puzzle
+ * await generatePuzzleAsync("hard", undefined, { seed: "2025-01-01" });
+ */
+export function generatePuzzleAsync(
+  difficulty: Difficulty,
+  signal?: AbortSignal,
+  options: {
+    seed?: Seed;
+    rules?: RuleSet;
+    ranges?: CardRanges;
+    constraints?: PuzzleConstraints;
+    customDifficulty?: CustomDifficultyConfig;
+  } = {}
+): Promise<PuzzleAnalysis> {
+  return runPuzzleTaskAsync({ type: "generate", difficulty, ...options }, signal);
+}
+
+/**
+ * Analyze a known hand (e.g. a shared puzzle) off the main thread
+ */
+export function analyzePuzzleAsync(
+  cards: Card[],
+  signal?: AbortSignal,
+  rules?: RuleSet
+): Promise<PuzzleAnalysis> {
+  return runPuzzleTaskAsync({ type: "analyze", cards, rules }, signal);
+}
+
+/**
+ * Solve the answers still reachable from a partial arrangement off the main thread
+ *
+ * @param prefix - Cards placed so far, in order
+ * @param remaining - Cards still to place
+ * @param targets - The puzzle's dusk and dawn (null if it has none)
+ */
+export function solveReachableRangeAsync(
+  prefix: Card[],
+  remaining: Card[],
+  targets: TargetValues | null,
+  signal?: AbortSignal,
+  rules?: RuleSet
+): Promise<ReachableRange> {
+  return runPuzzleTaskAsync({ type: "reach", prefix, remaining, targets, rules }, signal);
+}
+
+/**
+ * Read and check a puzzle pack file off the main thread (every puzzle is
+ * re-solved)
+ */
+export function importPuzzlePackAsync(
+  text: string,
+  signal?: AbortSignal
+): Promise<PuzzlePackImport> {
+  return runPuzzleTaskAsync({ type: "pack", text }, signal);
+}
@@ -7,8 +7,16 @@
  * - Wordle: Compact format showing what was found
  */
 
-import type { Card, Difficulty, SharePreset } from "./types/game";
+import type {
+  Card,
+  CustomDifficultyConfig,
+  Difficulty,
+  RuleSet,
+  SharePreset,
+} from "./types/game";
 import { getShareUrl } from "./puzzle-url";
+import { getDifficultyConfig } from "./game/custom-difficulty";
+import { formatStreak, type StreakSummary } from "./game/streak";
 
 export interface ShareMessageOptions {
   cards: Card[];
@@ -26,6 +34,12 @@ export interface ShareMessageOptions {
     dawn: number;
     total: number;
   };
+  /** Rule set the puzzle was played under (standard if omitted) */
+  rules?: RuleSet;
+  /** Settings of a custom difficulty puzzle */
+  customDifficulty?: CustomDifficultyConfig;
+  /** The player's daily streak, added to result presets */
+  streak?: StreakSummary;
 }
 
 /**
@@ -34,14 +48,23 @@ export interface ShareMessageOptions {
 /**
  * Get a label for difficulty
  */
-function getDifficultyLabel(difficulty: Difficulty): string {
-  const labels: Record<Difficulty, string> = {
-    easy: "4 cards",
-    medium: "6 cards",
-    hard: "8 cards",
-    challenger: "10 cards",
-  };
-  return labels[difficulty];
+function getDifficultyLabel(
+  difficulty: Difficulty,
+  customDifficulty?: CustomDifficultyConfig
+): string {
+  return `${getDifficultyConfig(difficulty, customDifficulty).cards} cards`;
+}
+
+/**
+ * Get the share URL for the puzzle in a set of message options
+ */
+function getMessageUrl(options: ShareMessageOptions): string {
+  return getShareUrl(
+    options.cards,
+    options.difficulty,
+    options.rules,
+    options.customDifficulty
+  );
 }
 
 /**
@@ -60,9 +83,9 @@ function capitalize(str: string): string {
  * [link]"
  */
 export function generateChallengeMessage(options: ShareMessageOptions): string {
-  const { cards, difficulty } = options;
-  const url = getShareUrl(cards, difficulty);
-  const cardLabel = getDifficultyLabel(difficulty);
+  const { difficulty } = options;
+  const url = getMessageUrl(options);
+  const cardLabel = getDifficultyLabel(difficulty, options.customDifficulty);
 
   return `Can you solve this Zero Rush puzzle?\n${cardLabel} - ${capitalize(
     difficulty
@@ -74,19 +97,20 @@ export function generateChallengeMessage(options: ShareMessageOptions): string {
  *
  * Format:
  * "I found dusk (3) and dawn (42) - can you?
+ * 🔥 12 day streak
  * [link]"
+ *
+ * The streak line appears only when a streak is passed.
  */
 export function generateTeaserMessage(options: ShareMessageOptions): string {
   const {
-    cards,
-    difficulty,
     duskValue,
     dawnValue,
     foundDusk,
     foundDawn,
     hintsUsed,
   } = options;
-  const url = getShareUrl(cards, difficulty);
+  const url = getMessageUrl(options);
 
   const parts: string[] = [];
 
@@ -111,6 +135,10 @@ export function generateTeaserMessage(options: ShareMessageOptions): string {
     parts.push(`Can you find dusk and dawn?`);
   }
 
+  if (options.streak) {
+    parts.push(formatStreak(options.streak));
+  }
+
   parts.push(url);
 
   return parts.join("\n");
@@ -123,12 +151,14 @@ export function generateTeaserMessage(options: ShareMessageOptions): string {
  * "Zero Rush
  * Dusk ✔️ | Dawn ✔️
  * Attempts: 5 (2 hints)
+ * 🔥 12 day streak (1 save)
  * [link]"
+ *
+ * The streak line appears only when a streak is passed.
  */
 export function generateWordleMessage(options: ShareMessageOptions): string {
-  const { cards, difficulty, foundDusk, foundDawn, attempts, hintsUsed } =
-    options;
-  const url = getShareUrl(cards, difficulty);
+  const { foundDusk, foundDawn, attempts, hintsUsed } = options;
+  const url = getMessageUrl(options);
 
   const duskStatus = foundDusk ? "✔️" : "❌";
   const dawnStatus = foundDawn ? "✔️" : "❌";
@@ -138,7 +168,9 @@ export function generateWordleMessage(options: ShareMessageOptions): string {
       ? ` (${hintsUsed.total} hint${hintsUsed.total === 1 ? "" : "s"})`
       : "";
 
-  return `Zero Rush\nDusk ${duskStatus} | Dawn ${dawnStatus}\nAttempts: ${attempts}${hintsText}\n${url}`;
+  const streakLine = options.streak ? `${formatStreak(options.streak)}\n` : "";
+
+  return `Zero Rush\nDusk ${duskStatus} | Dawn ${dawnStatus}\nAttempts: ${attempts}${hintsText}\n${streakLine}${url}`;
 }
 
 /**
@@ -6,8 +6,12 @@
 // Card Types
 // =============================================================================
 
-/** Valid operators for cards */
-export type Operator = "+" | "-" | "*" | "÷";
+/**
+ * Valid operators for cards.
+ * ^ (power), % (modulo) and & (digit concatenation) are variant operators;
+ * see lib/game/operators.ts for how each one behaves.
+ */
+export type Operator = "+" | "-" | "*" | "÷" | "^" | "%" | "&";
 
 /** A single card with an operator and value */
 export interface Card {
@@ -18,6 +22,15 @@ export interface Card {
 /** String representation of a card (e.g., "+3", "÷4") */
 export type CardString = `${Operator}${number}`;
 
+/** Inclusive range of card values for one operator */
+export interface CardRange {
+  min: number;
+  max: number;
+}
+
+/** Card value ranges for a deck; operators left out are not dealt */
+export type CardRanges = Partial<Record<Operator, CardRange>>;
+
 /** A slot that can contain a card or be empty */
 export type Slot = Card | null;
 
@@ -47,6 +60,51 @@ export interface HintedCard {
   theme: "dusk" | "dawn";
 }
 
+/** Directional hint steps unlocked for each target */
+export interface DirectionalHintProgress {
+  dusk: number;
+  dawn: number;
+}
+
+/** How far the best attempt is from a target */
+export type DistanceBucket = "very-close" | "close" | "far" | "very-far";
+
+/**
+ * One step on the directional hint ladder. Each step narrows the search
+ * without placing any card:
+ * - distance: how far off the best attempt is (computed live)
+ * - placement: an operator that sits early or late in a solution
+ * - opener: a card that cannot come first in any solution
+ */
+export type DirectionalHint =
+  | { kind: "distance" }
+  | { kind: "placement"; operator: Operator; position: "early" | "late" }
+  | { kind: "opener"; card: Card };
+
+// =============================================================================
+// Rule Types
+// =============================================================================
+
+/** How operators bind when an arrangement is evaluated */
+export type Precedence = "left-to-right" | "pemdas";
+
+/** What happens to the first card's operator */
+export type FirstCardRule = "ignore-operator" | "apply-to-zero";
+
+/** A set of evaluation rules (the standard game uses DEFAULT_RULE_SET) */
+export interface RuleSet {
+  /** Strict left-to-right, or × and ÷ before + and − */
+  precedence: Precedence;
+  /** Ignore the first card's operator, or apply it to a starting total of 0 */
+  firstCard: FirstCardRule;
+  /** Whether negative answers count */
+  allowNegative: boolean;
+  /** Whether non-integer answers count */
+  allowNonInteger: boolean;
+  /** Whether an arrangement with any non-integer intermediate step is invalid */
+  forbidNonIntegerSteps: boolean;
+}
+
 // =============================================================================
 // Puzzle Types
 // =============================================================================
@@ -61,20 +119,54 @@ export interface Target {
   permutationCount: number;
   /** Whether a float was detected during calculation (intermediate step) */
   floatDetected: boolean;
+  /** Distinct cards that start at least one arrangement producing this result */
+  openingCards: Card[];
+}
+
+/** An exact fraction, always reduced with a positive denominator */
+export interface Rational {
+  numerator: number;
+  denominator: number;
 }
 
 /** Result of evaluating a single arrangement */
 export interface EvaluationResult {
-  /** The final answer */
+  /** The final answer (exact when whole; nearest number otherwise; NaN if a step was undefined) */
   answer: number;
-  /** Raw answer before rounding */
-  rawAnswer: number;
-  /** Whether a float was detected during calculation */
+  /** Exact answer as a reduced fraction (null if a step was undefined) */
+  rawAnswer: Rational | null;
+  /** Whether any intermediate total was not a whole number */
   floatDetected: boolean;
   /** The arrangement that was evaluated */
   arrangement: Card[];
 }
 
+/** The step where an arrangement stopped counting (see explainInvalidResult) */
+export type InvalidReason =
+  | {
+      /** A step had no defined result (e.g. ÷0) */
+      kind: "undefined";
+      card: Card;
+      /** 1-based position of the card in the arrangement */
+      position: number;
+    }
+  | {
+      /** The total went below zero here and stayed there */
+      kind: "negative";
+      card: Card;
+      position: number;
+    }
+  | {
+      /** The total became a fraction here */
+      kind: "non-integer";
+      card: Card;
+      position: number;
+      /** The fraction it became (e.g. "7/2") */
+      value: string;
+      /** Whether the total was whole again by the end */
+      recovered: boolean;
+    };
+
 /** Complete puzzle analysis result */
 export interface PuzzleResult {
   /** Whether this puzzle has at least 2 valid answers */
@@ -91,6 +183,41 @@ export interface PuzzleResult {
   dusk: Target;
   /** The dawn target (highest positive whole number) */
   dawn: Target;
+  /**
+   * Every valid answer, sorted from lowest to highest, with its permutation
+   * count and an example arrangement. dusk and dawn are the first and last.
+   */
+  distribution: Target[];
+  /**
+   * Permutations that reach an answer the rules don't allow (or take a
+   * forbidden non-integer step)
+   */
+  invalidPermutations: number;
+  /** Permutations with an undefined step (÷0, an out-of-range power, ...) */
+  undefinedPermutations: number;
+  /** Difficulty score from 0 (trivial) to 100 (hardest); see DifficultyRating */
+  rating: number;
+}
+
+/**
+ * Breakdown of a puzzle's difficulty rating.
+ * Every factor runs from 0 (easiest) to 1 (hardest).
+ */
+export interface DifficultyRating {
+  /** Weighted score from 0 to 100 */
+  score: number;
+  /** Size of the search space (grows with the card count) */
+  searchSpace: number;
+  /** How few permutations reach dusk and dawn */
+  targetScarcity: number;
+  /** How close the runner-up values sit to dusk and dawn */
+  runnerUpCloseness: number;
+  /** Whether dusk and dawn are out of reach with the ÷ cards turned into × */
+  division: number;
+  /** Whether dusk and dawn can only be reached through non-integer steps */
+  nonIntegerSteps: number;
+  /** Whether a zero dusk is reached by exactly one arrangement */
+  uniqueZero: number;
 }
 
 /** A puzzle with its cards and signature */
@@ -101,14 +228,16 @@ export interface Puzzle {
   signature: string;
   /** Difficulty level this puzzle is suitable for */
   difficulty: Difficulty;
+  /** Difficulty score from 0 to 100 (when the puzzle has been analyzed) */
+  rating?: number;
 }
 
 // =============================================================================
 // Difficulty Types
 // =============================================================================
 
-/** Available difficulty levels */
-export type Difficulty = "easy" | "medium" | "hard" | "challenger";
+/** Available difficulty levels ("custom" is configured by the player) */
+export type Difficulty = "easy" | "medium" | "hard" | "challenger" | "custom";
 
 /** Configuration for a difficulty level */
 export interface DifficultyConfig {
@@ -120,6 +249,20 @@ export interface DifficultyConfig {
   hintsAvailable: boolean;
   /** Description for UI */
   description: string;
+  /** Card ranges dealt from (the standard deck if omitted) */
+  ranges?: CardRanges;
+}
+
+/** Settings the player picks for the custom difficulty (see custom-difficulty.ts) */
+export interface CustomDifficultyConfig {
+  /** Number of cards dealt (4–10) */
+  cards: number;
+  /** Card ranges dealt from; operators left out are not dealt */
+  ranges: CardRanges;
+  /** Whether zero is guaranteed to be achievable */
+  zeroGuarantee: boolean;
+  /** Whether hints are available */
+  hintsAvailable: boolean;
 }
 
 // =============================================================================
@@ -133,7 +276,7 @@ export type GameMode = "daily" | "practice" | "multiplayer";
 // Game Record Types (Analytics)
 // =============================================================================
 
-/** Record of a completed game for analytics */
+/** Record of a finished or abandoned game for analytics (see lib/game/records.ts) */
 export interface GameRecord {
   /** Unique game ID */
   id: string;
@@ -148,10 +291,14 @@ export interface GameRecord {
 
   /** When the game started */
   startedAt: number;
-  /** When the game was completed */
+  /** When the game was completed (or abandoned) */
   completedAt: number;
   /** Duration in milliseconds */
   durationMs: number;
+  /** Time spent playing: tab visible, idle gaps capped at GAME_IDLE_TIMEOUT_MS */
+  activeMs: number;
+  /** Time from the start to the first submission (omitted if none) */
+  timeToFirstSubmitMs?: number;
 
   /** Number of attempts made */
   attempts: number;
@@ -261,13 +408,15 @@ export interface UserProfile {
   /** Stats */
   stats: UserStats;
 
-  /** Currency */
-  gemBalance: number;
+  // Currency: no stored balance - gems are summed from the ledger (see
+  // lib/game/gems.ts)
 
-  /** Streaks */
+  /** Streaks (see lib/game/streak.ts) */
   currentStreak: number;
   longestStreak: number;
+  /** Saves spent during the current streak */
   streakSavesUsed: number;
+  /** A moment in the last day the streak covers (a daily or a save) */
   lastDailyCompletedAt?: number;
 
   /** Challenger unlock */
@@ -350,8 +499,13 @@ export interface HistorySubmission {
   isDusk: boolean;
   /** Whether this matched dawn */
   isDawn: boolean;
+  /** Why the submission didn't count (invalid submissions only) */
+  invalidReason?: InvalidReason;
 }
 
+/** Where a played puzzle came from */
+export type PuzzleSource = "generated" | "shared" | "daily" | "created";
+
 /** An entry in the puzzle history */
 export interface PuzzleHistoryEntry {
   /** Unique ID for this entry */
@@ -379,11 +533,19 @@ export interface PuzzleHistoryEntry {
   /** Whether this puzzle is favorited */
   isFavorite: boolean;
   /** Source of the puzzle */
-  source: "generated" | "shared";
+  source: PuzzleSource;
   /** Original URL if puzzle was shared */
   sharedFromUrl?: string;
   /** Hints used during this puzzle */
   hintsUsed?: HintsUsed;
+  /** Rule set the puzzle was played under (omitted for the standard rules) */
+  rules?: RuleSet;
+  /** Difficulty score from 0 to 100 */
+  rating?: number;
+  /** Settings of a custom difficulty puzzle */
+  customDifficulty?: CustomDifficultyConfig;
+  /** Time on the clock at completion (omitted for entries saved unplayed) */
+  durationMs?: number;
 }
 
 // =============================================================================
@@ -0,0 +1,29 @@
+/**
+ * Web Worker entry point for puzzle generation and analysis
+ *
+ * Receives PuzzleWorkerRequest messages and replies with the task's result.
+ * See lib/puzzle-worker.ts for the client side.
+ */
+
+import {
+  runPuzzleTask,
+  type PuzzleWorkerRequest,
+  type PuzzleWorkerResponse,
+} from "../puzzle-worker";
+
+self.addEventListener("message", (event: MessageEvent<PuzzleWorkerRequest>) => {
+  const { id, task } = event.data;
+  let response: PuzzleWorkerResponse;
+
+  try {
+    response = { id, ok: true, result: runPuzzleTask(task) };
+  } catch (error) {
+    response = {
+      id,
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  self.postMessage(response);
+});
@@ -0,0 +1,432 @@
+/**
+ * Zero Rush command line
+ *
+ * Runs the pure game logic in lib/game without the React app - for
+ * pre-building daily banks and debugging shared links.
+ *
+ *   npm run cli -- generate hard --count 20 --seed bank-2026-11 --dawn 50..
+ *   npm run cli -- solve "+3,-5,*2,÷4"
+ *   npm run cli -- solve "https://…/play/medium/v2AQADJUJkAyY"
+ *   npm run cli -- validate bank.txt
+ *
+ * Run `npm run cli -- help` for every option.
+ */
+
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import type { Card, Difficulty, Operator, RuleSet } from '../lib/types/game';
+import { getPuzzleQuality } from '../lib/types/game';
+import { DEFAULT_RULE_SET, DIFFICULTIES } from '../lib/game/constants';
+import type { PuzzleConstraints, ValueConstraint } from '../lib/game/constraints';
+import { decodeCustomDifficulty } from '../lib/game/custom-difficulty';
+import { getEvaluationDisplay } from '../lib/game/evaluate';
+import { findGoodPuzzleForDifficulty, generateAnswers } from '../lib/game/generate';
+import { getOperatorForUrlLetter, isRegisteredOperator } from '../lib/game/operators';
+import { decodeRuleSet } from '../lib/game/rules';
+import { decodeShareCode, isShareCode } from '../lib/game/share-code';
+import {
+  decodeSignatureFromUrl,
+  fromSignature,
+  isValidSignature,
+  toCanonicalSignature,
+} from '../lib/game/signature';
+import { getPuzzleWarnings } from '../lib/game/warnings';
+import {
+  CUSTOM_QUERY_PARAM,
+  RULES_QUERY_PARAM,
+  decodePuzzleFromUrl,
+  encodePuzzleToUrl,
+} from '../lib/puzzle-url';
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  generate <difficulty>   Deal puzzles (easy, medium, hard, challenger, custom)
+    --count <n>             Number of puzzles (default 1); a batch never repeats a hand
+    --seed <seed>           Deterministic seed; puzzle i uses "<seed>:<i>"
+    --rules <code>          Rule set code, as in share links (e.g. "pn")
+    --custom <code>         Custom difficulty code (required for custom)
+    --dusk <n|min..max>     Dusk constraint
+    --dawn <n|min..max>     Dawn constraint
+    --rating <n|min..max>   Difficulty score constraint (0-100)
+    --min-answers <n>       Minimum number of distinct answers
+    --min-operators <spec>  Minimum cards per operator, e.g. "d=1,m=2"
+    --distinct-values       No two cards share a value
+    --exclude <file>        Signatures the puzzles must not match (one per line)
+    --json                  Print JSON instead of one signature per line
+
+  solve <puzzle>          Print dusk, dawn and every reachable value
+    <puzzle> is a signature ("+3,-5,*2,÷4"), a URL-encoded signature
+    ("a3_s5_m2_d4"), a v2 share code or a share link
+    --rules <code>          Rule set code (signatures only)
+    --json                  Print JSON
+
+  validate <file>         Check a file of signatures (one per line, "-" for stdin)
+    --rules <code>          Rule set code to analyze under
+    --json                  Print JSON
+
+Exit status is 1 when a command fails or validate finds an invalid signature.`;
+
+/** A command-line mistake (printed without a stack trace) */
+class UsageError extends Error {}
+
+// =============================================================================
+// Commands
+// =============================================================================
+
+type Options = ReturnType<typeof parseOptions>['values'];
+
+function generate(args: string[], options: Options): number {
+  const [difficulty] = args;
+  if (!DIFFICULTIES.includes(difficulty as Difficulty)) {
+    throw new UsageError(`generate needs a difficulty: ${DIFFICULTIES.join(', ')}`);
+  }
+
+  const rules = readRules(options.rules);
+  const customDifficulty =
+    difficulty === 'custom' ? decodeCustomDifficulty(options.custom ?? '') : undefined;
+  if (customDifficulty === null) {
+    throw new UsageError('custom puzzles need a valid --custom code');
+  }
+
+  const count = readInteger('--count', options.count ?? '1');
+  const excluded = options.exclude ? readSignatures(options.exclude).map(({ text }) => text) : [];
+  const constraints = readConstraints(options);
+
+  const puzzles = [];
+  let unmet = 0;
+  for (let i = 1; i <= count; i++) {
+    const { puzzle, result, report } = findGoodPuzzleForDifficulty(difficulty as Difficulty, {
+      seed: options.seed === undefined ? undefined : `${options.seed}:${i}`,
+      rules,
+      customDifficulty,
+      constraints: { ...constraints, excludeSignatures: excluded },
+    });
+    const signature = toCanonicalSignature(puzzle);
+    excluded.push(signature);
+
+    if (!report.satisfied) {
+      unmet++;
+      const reasons = report.failures.map((failure) => failure.reason).join('; ');
+      console.error(`puzzle ${i}: constraints not met (${reasons})`);
+    }
+
+    puzzles.push({
+      signature,
+      difficulty,
+      dusk: result.dusk.result,
+      dawn: result.dawn.result,
+      uniqueAnswers: result.uniqueAnswers,
+      rating: result.rating,
+      quality: getPuzzleQuality(result),
+      constraintsMet: report.satisfied,
+      url: encodePuzzleToUrl(puzzle, difficulty as Difficulty, rules, customDifficulty),
+    });
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(puzzles, null, 2));
+  } else {
+    for (const { signature } of puzzles) console.log(signature);
+  }
+  return unmet > 0 ? 1 : 0;
+}
+
+function solve(args: string[], options: Options): number {
+  const [input] = args;
+  if (!input) throw new UsageError('solve needs a puzzle');
+
+  const { cards, rules, difficulty, note } = readPuzzle(input, options.rules);
+  const result = generateAnswers(cards, rules);
+  const signature = toCanonicalSignature(cards);
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        {
+          signature,
+          difficulty,
+          quality: getPuzzleQuality(result),
+          hasValidAnswers: result.hasValidAnswers,
+          dusk: result.hasValidAnswers ? result.dusk.result : null,
+          dawn: result.hasValidAnswers ? result.dawn.result : null,
+          totalPermutations: result.totalPermutations,
+          invalidPermutations: result.invalidPermutations,
+          undefinedPermutations: result.undefinedPermutations,
+          uniqueAnswers: result.uniqueAnswers,
+          rating: result.rating,
+          warnings: getPuzzleWarnings(result).map((warning) => warning.message),
+          distribution: result.distribution.map((target) => ({
+            result: target.result,
+            permutationCount: target.permutationCount,
+            example: target.arrangement.map((card) => `${card.operator}${card.value}`),
+          })),
+        },
+        null,
+        2
+      )
+    );
+    return result.hasValidAnswers ? 0 : 1;
+  }
+
+  if (note) console.log(note);
+  console.log(`Puzzle      ${signature}${difficulty ? ` (${difficulty})` : ''}`);
+  console.log(`Quality     ${getPuzzleQuality(result)}, rating ${result.rating}`);
+  console.log(
+    `Answers     ${result.uniqueAnswers} distinct from ${result.totalPermutations} arrangements` +
+      ` (${result.invalidPermutations} invalid, ${result.undefinedPermutations} undefined)`
+  );
+  for (const warning of getPuzzleWarnings(result)) {
+    console.log(`Warning     ${warning.message}`);
+  }
+  if (!result.hasValidAnswers) return 1;
+
+  console.log(`Dusk        ${result.dusk.result} (${countArrangements(result.dusk.permutationCount)})`);
+  console.log(`Dawn        ${result.dawn.result} (${countArrangements(result.dawn.permutationCount)})`);
+  console.log('');
+  console.log('Value   Count  Example');
+  for (const target of result.distribution) {
+    console.log(
+      `${String(target.result).padStart(5)}  ${String(target.permutationCount).padStart(6)}` +
+        `  ${getEvaluationDisplay(target.arrangement, rules)}`
+    );
+  }
+  return 0;
+}
+
+function validate(args: string[], options: Options): number {
+  const [file] = args;
+  if (!file) throw new UsageError('validate needs a file ("-" for stdin)');
+
+  const rules = readRules(options.rules);
+  const rows = readSignatures(file).map(({ line, text }) => {
+    let canonical: string | null = null;
+    try {
+      const cards = fromSignature(decodeSignatureFromUrl(text));
+      if (cards.length > 0) canonical = toCanonicalSignature(cards);
+    } catch {
+      // Unparseable - reported as invalid below
+    }
+    if (!canonical || !isValidSignature(canonical)) {
+      return { line, signature: text, status: 'invalid' as const };
+    }
+
+    const result = generateAnswers(fromSignature(canonical), rules);
+    return {
+      line,
+      signature: text,
+      status: canonical === text ? ('canonical' as const) : ('non-canonical' as const),
+      canonical,
+      quality: getPuzzleQuality(result),
+      dusk: result.hasValidAnswers ? result.dusk.result : null,
+      dawn: result.hasValidAnswers ? result.dawn.result : null,
+    };
+  });
+
+  const invalid = rows.filter((row) => row.status === 'invalid').length;
+  const nonCanonical = rows.filter((row) => row.status === 'non-canonical').length;
+
+  if (options.json) {
+    console.log(JSON.stringify(rows, null, 2));
+  } else {
+    for (const row of rows) {
+      const prefix = `${String(row.line).padStart(4)}  ${row.signature}`;
+      if (row.status === 'invalid') {
+        console.log(`${prefix}  invalid`);
+      } else {
+        const fix = row.status === 'non-canonical' ? `  (canonical: ${row.canonical})` : '';
+        const targets = row.dusk === null ? '' : `  dusk ${row.dusk}, dawn ${row.dawn}`;
+        console.log(`${prefix}  ${row.quality}${targets}${fix}`);
+      }
+    }
+    console.log(
+      `\n${rows.length} signatures: ${rows.length - invalid - nonCanonical} canonical,` +
+        ` ${nonCanonical} non-canonical, ${invalid} invalid`
+    );
+  }
+  return invalid > 0 ? 1 : 0;
+}
+
+// =============================================================================
+// Input Parsing
+// =============================================================================
+
+const OPTIONS = {
+  count: { type: 'string' },
+  seed: { type: 'string' },
+  rules: { type: 'string' },
+  custom: { type: 'string' },
+  dusk: { type: 'string' },
+  dawn: { type: 'string' },
+  rating: { type: 'string' },
+  'min-answers': { type: 'string' },
+  'min-operators': { type: 'string' },
+  'distinct-values': { type: 'boolean' },
+  exclude: { type: 'string' },
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+function parseOptions(argv: string[]) {
+  try {
+    return parseArgs({ args: argv, allowPositionals: true, options: OPTIONS });
+  } catch (error) {
+    // Unknown flags, missing values and the like
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function readRules(code: string | undefined): RuleSet {
+  if (code === undefined) return DEFAULT_RULE_SET;
+  const rules = decodeRuleSet(code);
+  if (!rules) throw new UsageError(`unknown rules code "${code}"`);
+  return rules;
+}
+
+function readInteger(name: string, text: string): number {
+  const value = Number(text);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new UsageError(`${name} must be a whole number, got "${text}"`);
+  }
+  return value;
+}
+
+/** "5" → 5, "10..50" → { min: 10, max: 50 }, "10.." → { min: 10 } */
+function readValueConstraint(name: string, text: string | undefined): ValueConstraint | undefined {
+  if (text === undefined) return undefined;
+  const match = /^(-?\d+)?\.\.(-?\d+)?$/.exec(text);
+  if (!match) return readSignedInteger(name, text);
+  return {
+    min: match[1] === undefined ? undefined : Number(match[1]),
+    max: match[2] === undefined ? undefined : Number(match[2]),
+  };
+}
+
+function readSignedInteger(name: string, text: string): number {
+  const value = Number(text);
+  if (!Number.isInteger(value)) {
+    throw new UsageError(`${name} must be a number or a min..max range, got "${text}"`);
+  }
+  return value;
+}
+
+function readConstraints(options: Options): PuzzleConstraints {
+  const constraints: PuzzleConstraints = {
+    dusk: readValueConstraint('--dusk', options.dusk),
+    dawn: readValueConstraint('--dawn', options.dawn),
+    rating: readValueConstraint('--rating', options.rating),
+    distinctValues: options['distinct-values'],
+  };
+
+  if (options['min-answers'] !== undefined) {
+    constraints.minUniqueAnswers = readInteger('--min-answers', options['min-answers']);
+  }
+
+  if (options['min-operators'] !== undefined) {
+    const counts: Partial<Record<Operator, number>> = {};
+    for (const part of options['min-operators'].split(',')) {
+      const [name, count] = part.split('=');
+      const operator = isRegisteredOperator(name) ? name : getOperatorForUrlLetter(name);
+      if (!operator || count === undefined) {
+        throw new UsageError(`--min-operators takes operator=count pairs, got "${part}"`);
+      }
+      counts[operator] = readInteger('--min-operators', count);
+    }
+    constraints.minOperatorCounts = counts;
+  }
+
+  return constraints;
+}
+
+/** Non-empty, non-comment lines of a file ("-" reads stdin) */
+function readSignatures(file: string): { line: number; text: string }[] {
+  const content = readFileSync(file === '-' ? 0 : file, 'utf8');
+  return content
+    .split(/\r?\n/)
+    .map((text, index) => ({ line: index + 1, text: text.trim() }))
+    .filter(({ text }) => text !== '' && !text.startsWith('#'));
+}
+
+/**
+ * Read a puzzle given as a share link, v2 share code, URL-encoded signature
+ * or signature
+ */
+function readPuzzle(
+  input: string,
+  rulesCode: string | undefined
+): { cards: Card[]; rules: RuleSet; difficulty?: Difficulty; note?: string } {
+  if (input.includes('/play/')) {
+    const url = new URL(input, 'http://localhost');
+    const [, difficulty = '', encoded = ''] = url.pathname.split('/').filter(Boolean);
+    const decoded = decodePuzzleFromUrl(
+      difficulty,
+      decodeURIComponent(encoded),
+      url.searchParams.get(RULES_QUERY_PARAM) ?? '',
+      url.searchParams.get(CUSTOM_QUERY_PARAM) ?? ''
+    );
+    if (!decoded) throw new UsageError('not a valid puzzle link');
+    return { cards: decoded.cards, rules: decoded.rules, difficulty: decoded.difficulty };
+  }
+
+  if (isShareCode(input)) {
+    const shared = decodeShareCode(input);
+    if (!shared) throw new UsageError('not a valid share code (mistyped or corrupted)');
+    return shared;
+  }
+
+  const signature = decodeSignatureFromUrl(input);
+  let cards: Card[];
+  try {
+    cards = fromSignature(signature);
+  } catch {
+    throw new UsageError(`not a valid signature: "${input}"`);
+  }
+  if (cards.length === 0) throw new UsageError(`not a valid signature: "${input}"`);
+
+  const canonical = toCanonicalSignature(cards);
+  return {
+    cards,
+    rules: readRules(rulesCode),
+    note: canonical === input ? undefined : `Note        canonical form is ${canonical}`,
+  };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function countArrangements(count: number): string {
+  return `${count} ${count === 1 ? 'arrangement' : 'arrangements'}`;
+}
+
+// =============================================================================
+// Entry Point
+// =============================================================================
+
+const COMMANDS: Record<string, (args: string[], options: Options) => number> = {
+  generate,
+  solve,
+  validate,
+};
+
+function main(argv: string[]): number {
+  const { values: options, positionals } = parseOptions(argv);
+  const [name, ...args] = positionals;
+
+  if (!name || name === 'help' || options.help) {
+    console.log(USAGE);
+    return name || options.help ? 0 : 1;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) throw new UsageError(`unknown command "${name}"`);
+  return command(args, options);
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (error) {
+  if (!(error instanceof UsageError)) throw error;
+  console.error(`error: ${error.message}\n\nRun "npm run cli -- help" for usage.`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,33 @@
+/**
+ * Dealer thread for the room server
+ *
+ * Dealing a room's hand solves it, which takes around a second for 10
+ * cards - long enough to stall every other room if it ran on the server's
+ * event loop. The server (scripts/room-server.ts) runs this file in a
+ * worker thread and sends it each room's settings to deal for.
+ */
+
+import { parentPort } from 'node:worker_threads';
+import type { RoomConfig } from '../lib/types/game';
+import { dealRoomHand, type RoomDeal } from '../lib/game/room';
+
+/** What the server asks for */
+export interface DealRequest {
+  id: number;
+  config: RoomConfig;
+}
+
+/** What the dealer answers, matched to its request by `id` */
+export type DealResponse =
+  | { id: number; deal: RoomDeal }
+  | { id: number; error: string };
+
+parentPort?.on('message', ({ id, config }: DealRequest) => {
+  let response: DealResponse;
+  try {
+    response = { id, deal: dealRoomHand(config) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort?.postMessage(response);
+});
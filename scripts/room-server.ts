@@ -0,0 +1,449 @@
+/**
+ * Zero Rush room server
+ *
+ * A local WebSocket server for multiplayer rooms during development. It
+ * holds every room in memory and runs the room state machine from
+ * lib/game/room.ts: players' messages are applied as they arrive, timed
+ * phases advance on a server-side clock, and every change is sent to each
+ * player as their own RoomView. Hands are dealt ahead of time on a dealer
+ * thread (scripts/room-dealer.ts), so solving one never holds up the rooms.
+ *
+ *   npm run rooms                 # ws://localhost:8787
+ *   npm run rooms -- --port 9000
+ *   npm run rooms -- --origin http://192.168.1.20:3000
+ *
+ * Browser pages may only connect from localhost, or from an origin passed
+ * with --origin (repeatable). Point the app at another server with
+ * NEXT_PUBLIC_ROOM_SERVER_URL.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { createServer } from 'node:http';
+import { parseArgs } from 'node:util';
+import { Worker } from 'node:worker_threads';
+import { WebSocket, WebSocketServer } from 'ws';
+import type { RoomConfig } from '../lib/types/game';
+import {
+  RoomError,
+  advanceRoom,
+  applyRoomAction,
+  createRoom,
+  createRoomCode,
+  disconnectPlayer,
+  getRoomView,
+  isDealDue,
+  isRoomEmpty,
+  joinRoom,
+  listPublicRooms,
+  normalizeRoomCode,
+  type Room,
+  type RoomDeal,
+} from '../lib/game/room';
+import {
+  DEFAULT_ROOM_SERVER_PORT,
+  parseRoomClientMessage,
+  type RoomClientMessage,
+  type RoomServerMessage,
+} from '../lib/game/room-protocol';
+import type { DealRequest, DealResponse } from './room-dealer';
+
+/** How often timed phases are checked */
+const TICK_MS = 250;
+
+/** How long a room nobody is connected to is kept for them to come back */
+const EMPTY_ROOM_TIMEOUT_MS = 60 * 1000;
+
+/** Largest message accepted from a client, in bytes */
+const MAX_MESSAGE_BYTES = 64 * 1024;
+
+/** Hosts a browser page may always connect from (the app in development) */
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+/**
+ * A player's place in a room. The token is the secret that lets them take
+ * the seat back after reconnecting; it's only ever sent to them.
+ */
+interface Seat {
+  code: string;
+  playerId: string;
+  token: string;
+}
+
+/** One open connection, and the room seat it holds */
+interface Client {
+  socket: WebSocket;
+  seat: Seat | null;
+}
+
+/** A room's next hand, being dealt (or dealt) for the settings in `key` */
+interface PendingDeal {
+  key: string;
+  promise: Promise<RoomDeal>;
+  deal: RoomDeal | null;
+}
+
+const rooms = new Map<string, Room>();
+const clients = new Set<Client>();
+/** Each room's seats by reconnect token */
+const seats = new Map<string, Map<string, Seat>>();
+/** When each room was last left empty */
+const emptySince = new Map<string, number>();
+/** Each room's next hand */
+const deals = new Map<string, PendingDeal>();
+
+let dealer: Worker | null = null;
+let nextDealId = 0;
+/** Deals the dealer thread is working on, by request ID */
+const dealRequests = new Map<
+  number,
+  { resolve: (deal: RoomDeal) => void; reject: (error: Error) => void }
+>();
+
+// =============================================================================
+// Rooms
+// =============================================================================
+
+function send(client: Client, message: RoomServerMessage) {
+  if (client.socket.readyState === WebSocket.OPEN) {
+    client.socket.send(JSON.stringify(message));
+  }
+}
+
+/** Store a room's new state and send it to everyone in it */
+function updateRoom(room: Room) {
+  const now = Date.now();
+  rooms.set(room.code, room);
+
+  if (isRoomEmpty(room)) {
+    if (!emptySince.has(room.code)) emptySince.set(room.code, now);
+  } else {
+    emptySince.delete(room.code);
+  }
+
+  // Have the next round's hand ready by the time it starts
+  if (room.state !== 'finished' && room.rounds.length < room.config.maxRounds) {
+    void prepareDeal(room);
+  }
+
+  // Seats of players who left for good can't be taken back
+  const roomSeats = seats.get(room.code);
+  if (roomSeats) {
+    for (const [token, seat] of roomSeats) {
+      if (!room.players.some((player) => player.id === seat.playerId)) roomSeats.delete(token);
+    }
+  }
+
+  for (const client of clients) {
+    if (client.seat?.code !== room.code) continue;
+    const { playerId, token } = client.seat;
+    if (!room.players.some((player) => player.id === playerId)) {
+      // Left the room
+      client.seat = null;
+      send(client, { type: 'left' });
+      continue;
+    }
+    send(client, { type: 'room', room: getRoomView(room, playerId), playerId, token, now });
+  }
+}
+
+/** A new seat in a room, with its own player ID and reconnect token */
+function createSeat(code: string): Seat {
+  return { code, playerId: randomUUID(), token: randomUUID() };
+}
+
+/** Let a seat be taken back with its token */
+function rememberSeat(seat: Seat) {
+  const roomSeats = seats.get(seat.code) ?? new Map<string, Seat>();
+  roomSeats.set(seat.token, seat);
+  seats.set(seat.code, roomSeats);
+}
+
+function createUniqueRoomCode(): string {
+  let code = createRoomCode();
+  while (rooms.has(code)) code = createRoomCode();
+  return code;
+}
+
+/** Give up a client's seat, as if their connection dropped */
+function releaseSeat(client: Client) {
+  const seat = client.seat;
+  if (!seat) return;
+  client.seat = null;
+  const room = rooms.get(seat.code);
+  if (room) updateRoom(disconnectPlayer(room, seat.playerId, Date.now()));
+}
+
+/** Handle a player's message, answering any problem with an error message */
+function receive(client: Client, message: RoomClientMessage) {
+  try {
+    handleMessage(client, message);
+  } catch (error) {
+    if (!(error instanceof RoomError)) {
+      console.error(error);
+    }
+    send(client, {
+      type: 'error',
+      message: error instanceof RoomError ? error.message : 'Something went wrong',
+    });
+  }
+}
+
+function handleMessage(client: Client, message: RoomClientMessage) {
+  const now = Date.now();
+
+  switch (message.type) {
+    case 'list':
+      send(client, { type: 'rooms', rooms: listPublicRooms(rooms.values()) });
+      return;
+
+    case 'create': {
+      releaseSeat(client);
+      const seat = createSeat(createUniqueRoomCode());
+      const room = createRoom(seat.code, { id: seat.playerId, name: message.name }, message.config);
+      rememberSeat(seat);
+      client.seat = seat;
+      console.log(`room ${room.code} opened`);
+      updateRoom(room);
+      return;
+    }
+
+    case 'join': {
+      const code = normalizeRoomCode(message.code);
+      const room = rooms.get(code);
+      if (!room) throw new RoomError(`No room with code ${code}`);
+      // Only the seat's token takes it back; anyone else is a new player
+      const resumed = message.token ? seats.get(code)?.get(message.token) : undefined;
+      const seat = resumed ?? createSeat(code);
+      const joined = joinRoom(room, { id: seat.playerId, name: message.name });
+      if (!resumed) rememberSeat(seat);
+      if (client.seat !== seat) releaseSeat(client);
+      // A newer connection takes over the seat (e.g. after a reload)
+      for (const other of clients) {
+        if (other !== client && other.seat === seat) {
+          other.seat = null;
+          send(other, { type: 'left' });
+        }
+      }
+      client.seat = seat;
+      updateRoom(joined);
+      return;
+    }
+
+    default: {
+      const room = client.seat && rooms.get(client.seat.code);
+      if (!client.seat || !room) throw new RoomError('You are not in a room');
+      let deal: RoomDeal | undefined;
+      if (message.type === 'start') {
+        deal = takeDeal(room);
+        if (!deal) {
+          // Try again once the first hand is dealt
+          prepareDeal(room).then(
+            () => receive(client, message),
+            () => send(client, { type: 'error', message: "Couldn't deal a hand" })
+          );
+          return;
+        }
+      }
+      const next = applyRoomAction(room, client.seat.playerId, message, now, deal);
+      if (message.type === 'leave') {
+        // Mid-game, a player who leaves keeps a (disconnected) seat
+        client.seat = null;
+        send(client, { type: 'left' });
+      }
+      updateRoom(next);
+    }
+  }
+}
+
+/** Advance every room whose phase has run out, and drop long-empty rooms */
+function tick() {
+  const now = Date.now();
+  for (const room of rooms.values()) {
+    const since = emptySince.get(room.code);
+    if (since !== undefined && now - since >= EMPTY_ROOM_TIMEOUT_MS) {
+      rooms.delete(room.code);
+      emptySince.delete(room.code);
+      seats.delete(room.code);
+      deals.delete(room.code);
+      console.log(`room ${room.code} closed`);
+      continue;
+    }
+    let deal: RoomDeal | undefined;
+    if (isDealDue(room, now)) {
+      deal = takeDeal(room);
+      // The next round waits for the dealer
+      if (!deal) continue;
+    }
+    const next = advanceRoom(room, now, deal);
+    if (next !== room) updateRoom(next);
+  }
+}
+
+// =============================================================================
+// Dealing
+// =============================================================================
+
+function dealKey({ handSize, zeroMode }: RoomConfig): string {
+  return `${handSize}:${zeroMode}`;
+}
+
+/**
+ * Start dealing a room's next hand, unless one for its settings is already
+ * dealt or on its way
+ */
+function prepareDeal(room: Room): Promise<RoomDeal> {
+  const key = dealKey(room.config);
+  const existing = deals.get(room.code);
+  if (existing?.key === key) return existing.promise;
+
+  const pending: PendingDeal = { key, promise: dealOffThread(room.config), deal: null };
+  pending.promise.then(
+    (deal) => {
+      pending.deal = deal;
+    },
+    (error) => {
+      console.error(error);
+      if (deals.get(room.code) === pending) deals.delete(room.code);
+    }
+  );
+  deals.set(room.code, pending);
+  return pending.promise;
+}
+
+/**
+ * Take a room's next hand if it's ready
+ *
+ * @returns The hand, or undefined (after starting to deal it) if it isn't
+ */
+function takeDeal(room: Room): RoomDeal | undefined {
+  const pending = deals.get(room.code);
+  if (pending?.key === dealKey(room.config) && pending.deal) {
+    deals.delete(room.code);
+    return pending.deal;
+  }
+  void prepareDeal(room);
+  return undefined;
+}
+
+/** Deal a hand on the dealer thread, starting the thread if needed */
+function dealOffThread(config: RoomConfig): Promise<RoomDeal> {
+  const worker = dealer ?? startDealer();
+  const request: DealRequest = { id: nextDealId++, config };
+  return new Promise((resolve, reject) => {
+    dealRequests.set(request.id, { resolve, reject });
+    worker.postMessage(request);
+  });
+}
+
+function startDealer(): Worker {
+  const worker = new Worker(new URL('./room-dealer.ts', import.meta.url), {
+    // The dealer is TypeScript too
+    execArgv: ['--import', 'jiti/register'],
+  });
+  worker.on('message', (response: DealResponse) => {
+    const request = dealRequests.get(response.id);
+    if (!request) return;
+    dealRequests.delete(response.id);
+    if ('deal' in response) {
+      request.resolve(response.deal);
+    } else {
+      request.reject(new Error(response.error));
+    }
+  });
+  worker.on('error', (error) => console.error(error));
+  worker.on('exit', () => {
+    // Fail what it was dealing; the next deal starts a new thread
+    if (dealer === worker) dealer = null;
+    for (const request of dealRequests.values()) {
+      request.reject(new Error('The dealer thread stopped'));
+    }
+    dealRequests.clear();
+  });
+  dealer = worker;
+  return worker;
+}
+
+// =============================================================================
+// Connections
+// =============================================================================
+
+/**
+ * Check whether a browser page may connect: from localhost, or from an
+ * origin passed with --origin. Without an Origin header the client isn't a
+ * browser page, so no other site can be using it to reach the server.
+ */
+function isAllowedOrigin(origin: string | undefined, allowedOrigins: Set<string>): boolean {
+  if (!origin) return true;
+  if (allowedOrigins.has(origin)) return true;
+  try {
+    return LOCAL_HOSTNAMES.has(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+}
+
+// =============================================================================
+// Entry Point
+// =============================================================================
+
+function main(argv: string[]) {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      port: { type: 'string' },
+      origin: { type: 'string', multiple: true },
+    },
+  });
+  const allowedOrigins = new Set(values.origin);
+  const port = values.port ? Number(values.port) : DEFAULT_ROOM_SERVER_PORT;
+  if (!Number.isInteger(port) || port <= 0) {
+    console.error(`error: --port must be a port number, got "${values.port}"`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const server = createServer((_request, response) => {
+    response.writeHead(426, { 'Content-Type': 'text/plain' });
+    response.end('Zero Rush room server: connect with a WebSocket\n');
+  });
+
+  const sockets = new WebSocketServer({
+    server,
+    maxPayload: MAX_MESSAGE_BYTES,
+    verifyClient: ({ origin }: { origin?: string }) => isAllowedOrigin(origin, allowedOrigins),
+  });
+
+  sockets.on('connection', (socket) => {
+    const client: Client = { socket, seat: null };
+    clients.add(client);
+    socket.on('message', (data, isBinary) => {
+      const message = isBinary ? null : parseRoomClientMessage(data.toString());
+      if (!message) {
+        send(client, { type: 'error', message: 'Unrecognized message' });
+        return;
+      }
+      receive(client, message);
+    });
+    // A broken or oversized frame closes the connection; 'close' follows
+    socket.on('error', () => {});
+    socket.on('close', () => {
+      clients.delete(client);
+      releaseSeat(client);
+    });
+  });
+
+  const interval = setInterval(tick, TICK_MS);
+  server.on('close', () => clearInterval(interval));
+  process.once('SIGINT', () => {
+    for (const client of clients) client.socket.close(1001);
+    sockets.close();
+    server.close();
+    void dealer?.terminate();
+  });
+
+  server.listen(port, () => {
+    console.log(`Zero Rush room server listening on ws://localhost:${port}`);
+  });
+}
+
+main(process.argv.slice(2));